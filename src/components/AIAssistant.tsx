@@ -6,8 +6,21 @@ import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Brain, Wand2, Tag, FlaskConical, AlertCircle, Edit, StickyNote } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Brain, Wand2, Tag, FlaskConical, AlertCircle, Edit, StickyNote, History, Trash2 } from "lucide-react";
 import { toast } from "sonner";
+import { useProject } from "@/hooks/use-project";
+import { getRangeSequence, rangeLength } from "@/lib/sequenceUtils";
 
 interface AIAssistantProps {
   sequence: string;
@@ -35,6 +48,27 @@ export function AIAssistant({
   const [annotationName, setAnnotationName] = useState<string>("");
   const [noteName, setNoteName] = useState<string>("");
   const [noteContent, setNoteContent] = useState<string>("");
+  const { aiHistory, setAiHistory } = useProject();
+  
+  // Keep every answer with the project so it travels with exports
+  const recordHistory = (prompt: string, response: string) => {
+    setAiHistory([
+      ...aiHistory,
+      {
+        prompt,
+        response,
+        start: selectedRange?.start,
+        end: selectedRange?.end,
+        createdAt: new Date().toISOString()
+      }
+    ]);
+  };
+  
+  // Undo doesn't cover AI history, so clearing it is its own confirmed step
+  const clearHistory = () => {
+    setAiHistory([]);
+    toast.success("AI history cleared");
+  };
   
   // Function to analyze sequence using Gemini API
   const analyzeSequence = async () => {
@@ -53,7 +87,7 @@ export function AIAssistant({
     
     try {
       // Get the selected subsequence
-      const subsequence = sequence.substring(selectedRange.start, selectedRange.end);
+      const subsequence = getRangeSequence(sequence, selectedRange);
       
       // Create system prompt based on sequence type
       let systemPrompt = "You are an expert molecular biologist. ";
@@ -97,6 +131,7 @@ export function AIAssistant({
       
       if (data.candidates && data.candidates[0]?.content?.parts?.[0]?.text) {
         setAiResponse(data.candidates[0].content.parts[0].text);
+        recordHistory(`Analyze selection (${sequenceType.toUpperCase()})`, data.candidates[0].content.parts[0].text);
       } else {
         throw new Error("Invalid API response format");
       }
@@ -127,7 +162,7 @@ export function AIAssistant({
     try {
       // Get the relevant sequence - either selected range or full sequence
       const relevantSequence = selectedRange 
-        ? sequence.substring(selectedRange.start, selectedRange.end) 
+        ? getRangeSequence(sequence, selectedRange) 
         : sequence;
       
       const response = await fetch(GEMINI_API_URL, {
@@ -164,6 +199,7 @@ My request: ${customPrompt}` }
       
       if (data.candidates && data.candidates[0]?.content?.parts?.[0]?.text) {
         setAiResponse(data.candidates[0].content.parts[0].text);
+        recordHistory(customPrompt, data.candidates[0].content.parts[0].text);
       } else {
         throw new Error("Invalid API response format");
       }
@@ -234,7 +270,7 @@ My request: ${customPrompt}` }
   return (
     <div className="space-y-4">
       <Tabs defaultValue="analyze">
-        <TabsList className="grid grid-cols-4">
+        <TabsList className="grid grid-cols-5">
           <TabsTrigger value="analyze">
             <Brain className="w-4 h-4 mr-2" />
             Analyze
@@ -251,6 +287,10 @@ My request: ${customPrompt}` }
             <Wand2 className="w-4 h-4 mr-2" />
             Custom
           </TabsTrigger>
+          <TabsTrigger value="history">
+            <History className="w-4 h-4 mr-2" />
+            History
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="analyze" className="space-y-4 mt-2">
@@ -259,7 +299,7 @@ My request: ${customPrompt}` }
               <div className="text-sm font-medium">Analyze Selected Region</div>
               {selectedRange && (
                 <Badge variant="outline">
-                  {selectedRange.start + 1}-{selectedRange.end} ({selectedRange.end - selectedRange.start} bp)
+                  {selectedRange.start + 1}-{selectedRange.end} ({rangeLength(selectedRange, sequence.length)} bp)
                 </Badge>
               )}
             </div>
@@ -294,7 +334,7 @@ My request: ${customPrompt}` }
               <div className="text-sm font-medium">Add Annotation</div>
               {selectedRange && (
                 <Badge variant="outline">
-                  {selectedRange.start + 1}-{selectedRange.end} ({selectedRange.end - selectedRange.start} bp)
+                  {selectedRange.start + 1}-{selectedRange.end} ({rangeLength(selectedRange, sequence.length)} bp)
                 </Badge>
               )}
             </div>
@@ -330,7 +370,7 @@ My request: ${customPrompt}` }
               <div className="text-sm font-medium">Add Note to Sequence</div>
               {selectedRange && (
                 <Badge variant="outline">
-                  {selectedRange.start + 1}-{selectedRange.end} ({selectedRange.end - selectedRange.start} bp)
+                  {selectedRange.start + 1}-{selectedRange.end} ({rangeLength(selectedRange, sequence.length)} bp)
                 </Badge>
               )}
             </div>
@@ -396,6 +436,59 @@ My request: ${customPrompt}` }
             </Card>
           )}
         </TabsContent>
+        
+        <TabsContent value="history" className="space-y-2 mt-2">
+          {aiHistory.length === 0 ? (
+            <div className="flex items-center gap-2 p-3 text-sm text-muted-foreground border border-dashed rounded-md">
+              <AlertCircle className="w-4 h-4 text-muted-foreground" />
+              No AI responses saved with this project yet
+            </div>
+          ) : (
+            <>
+              <div className="flex justify-end">
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="outline">
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Clear history
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Clear the AI history?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        All {aiHistory.length} saved AI responses will be removed from this project.
+                        This can't be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={clearHistory}>Clear</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {[...aiHistory].reverse().map((entry, index) => (
+                  <Card key={index} className="p-3 bg-muted/30">
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <div className="text-sm font-medium truncate">{entry.prompt}</div>
+                      {entry.start !== undefined && (
+                        <Badge variant="outline" className="shrink-0">
+                          {entry.start + 1}-{entry.end}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground mb-2">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </div>
+                    <div className="text-sm whitespace-pre-line line-clamp-6">{entry.response}</div>
+                  </Card>
+                ))}
+              </div>
+            </>
+          )}
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,404 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { FileUp, GitCompare, TextSelect } from "lucide-react";
+import { toast } from "sonner";
+import { useProject } from "@/hooks/use-project";
+import {
+  align,
+  Alignment,
+  AlignmentMode,
+  defaultGapExtend,
+  defaultGapOpen,
+  getScoringMatrix,
+  scoringMatrices
+} from "@/lib/alignment";
+import {
+  annotationFileExtensions,
+  binaryFileExtensions,
+  bundleToRecord,
+  isProjectBundle,
+  parseProjectBundle,
+  parseSequenceFile,
+  SequenceRecord,
+  sequenceFileExtensions
+} from "@/lib/formats";
+import { cleanGeneSequence, detectSequenceType, getRangeSequence, reverseComplement } from "@/lib/sequenceUtils";
+
+interface AlignmentDialogProps {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  projectName?: string;
+}
+
+// Files a target can be read from: project bundles and sequence files
+const targetExtensions = [
+  "json",
+  ...sequenceFileExtensions.filter(ext => !annotationFileExtensions.includes(ext))
+];
+
+// Alignment columns per line
+const lineWidth = 60;
+
+const modes: { value: AlignmentMode; label: string }[] = [
+  { value: "global", label: "Global (Needleman-Wunsch)" },
+  { value: "semiglobal", label: "Global, free end gaps" },
+  { value: "local", label: "Local (Smith-Waterman)" }
+];
+
+// Letters of a pasted sequence, without FASTA header lines
+const pastedSequence = (text: string) =>
+  cleanGeneSequence(text.split("\n").filter(line => !line.trim().startsWith(">")).join("\n"));
+
+const percent = (count: number, total: number) => (total ? ((count / total) * 100).toFixed(1) : "0.0");
+
+// Align a pasted query or the selection against the project, the selection or a sequence from a saved file
+export function AlignmentDialog({ isOpen, setIsOpen, projectName = "sequence" }: AlignmentDialogProps) {
+  const { sequence, selectedRange, setSelectedRange } = useProject();
+  const [querySource, setQuerySource] = useState<"paste" | "selection">("paste");
+  const [queryText, setQueryText] = useState<string>("");
+  const [targetSource, setTargetSource] = useState<"project" | "selection" | "file">("project");
+  const [fileRecords, setFileRecords] = useState<SequenceRecord[]>([]);
+  const [fileIndex, setFileIndex] = useState<number>(0);
+  const [fileName, setFileName] = useState<string>("");
+  const [mode, setMode] = useState<AlignmentMode>("global");
+  const [matrixId, setMatrixId] = useState<string>(scoringMatrices[0].id);
+  const [gapOpen, setGapOpen] = useState<number>(defaultGapOpen);
+  const [gapExtend, setGapExtend] = useState<number>(defaultGapExtend);
+  const [reverseQuery, setReverseQuery] = useState<boolean>(false);
+  const [result, setResult] = useState<{ alignment: Alignment; queryName: string; targetName: string; targetOffset: number | null } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Default to the selection as the query when there is one
+  useEffect(() => {
+    if (isOpen) setQuerySource(selectedRange ? "selection" : "paste");
+  }, [isOpen, selectedRange]);
+
+  const query = useMemo(() => {
+    const bases = querySource === "selection" && selectedRange
+      ? getRangeSequence(sequence, selectedRange).toUpperCase()
+      : pastedSequence(queryText);
+    return reverseQuery ? reverseComplement(bases) : bases;
+  }, [querySource, selectedRange, sequence, queryText, reverseQuery]);
+
+  const target = targetSource === "file"
+    ? fileRecords[fileIndex]?.sequence.toUpperCase() || ""
+    : targetSource === "selection" && selectedRange
+      ? getRangeSequence(sequence, selectedRange).toUpperCase()
+      : sequence.toUpperCase();
+
+  const queryType = detectSequenceType(query);
+  const isProtein = queryType === "protein";
+
+  // Pick a matrix that fits the query
+  useEffect(() => {
+    setMatrixId(current => {
+      const matrix = getScoringMatrix(current);
+      if (isProtein && matrix.type !== "protein") return "blosum62";
+      if (!isProtein && queryType !== "unknown" && matrix.type !== "dna") return scoringMatrices[0].id;
+      return current;
+    });
+  }, [isProtein, queryType]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const extension = file.name.split(".").pop()?.toLowerCase() || "";
+    if (!targetExtensions.includes(extension)) {
+      toast.error(`Unsupported file type. Please choose ${targetExtensions.map(ext => `.${ext}`).join(", ")} files.`);
+      return;
+    }
+
+    const reader = new FileReader();
+
+    reader.onload = (event) => {
+      try {
+        const content = event.target?.result;
+        if (!content) throw new Error("Failed to read file");
+
+        const records = typeof content === "string" && isProjectBundle(content)
+          ? [bundleToRecord(parseProjectBundle(content))]
+          : parseSequenceFile(content, file.name);
+        setFileRecords(records);
+        setFileIndex(0);
+        setFileName(file.name);
+        setTargetSource("file");
+      } catch (error) {
+        console.error("Error reading alignment target:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to read file");
+      }
+    };
+
+    reader.onerror = () => {
+      toast.error("Error reading file");
+    };
+
+    if (binaryFileExtensions.includes(extension)) {
+      reader.readAsArrayBuffer(file);
+    } else {
+      reader.readAsText(file);
+    }
+  };
+
+  const runAlignment = () => {
+    try {
+      const alignment = align(query, target, { mode, matrix: getScoringMatrix(matrixId), gapOpen, gapExtend });
+      setResult({
+        alignment,
+        queryName: querySource === "selection" && selectedRange
+          ? `Selection ${selectedRange.start + 1}-${selectedRange.end}${reverseQuery ? " (rev. comp.)" : ""}`
+          : `Query${reverseQuery ? " (rev. comp.)" : ""}`,
+        targetName: targetSource === "file" ? fileRecords[fileIndex]?.name || fileName : targetSource === "selection" ? "Selection" : projectName,
+        // Where the target sits in the project, when it is part of it
+        targetOffset: targetSource === "project" ? 0 : targetSource === "selection" && selectedRange ? selectedRange.start : null
+      });
+    } catch (error) {
+      setResult(null);
+      toast.error(error instanceof Error ? error.message : "Alignment failed");
+    }
+  };
+
+  // Select the part of the project the query aligned to
+  const selectAligned = () => {
+    if (!result || result.targetOffset === null) return;
+    const { alignment, targetOffset } = result;
+    const length = sequence.length;
+    setSelectedRange({
+      start: (targetOffset + alignment.targetStart) % length,
+      end: (targetOffset + alignment.targetEnd) % length || length
+    });
+    toast.success("Selected the aligned region");
+  };
+
+  // Alignment in blocks with 1-based positions at both ends of each line
+  const blocks = useMemo(() => {
+    if (!result) return [];
+    const { alignment } = result;
+    const matrix = getScoringMatrix(matrixId);
+    const labelWidth = Math.max(result.queryName.length, result.targetName.length, 6);
+    const numberWidth = String(Math.max(alignment.queryEnd, alignment.targetEnd)).length;
+    let queryPosition = alignment.queryStart;
+    let targetPosition = alignment.targetStart;
+    const lines: string[] = [];
+
+    for (let start = 0; start < alignment.length; start += lineWidth) {
+      const queryPart = alignment.query.slice(start, start + lineWidth);
+      const targetPart = alignment.target.slice(start, start + lineWidth);
+      const marks = queryPart.split("").map((letter, k) => {
+        const other = targetPart[k];
+        if (letter === "-" || other === "-") return " ";
+        return letter === other ? "|" : matrix.score(letter, other) > 0 ? ":" : ".";
+      }).join("");
+
+      const queryCount = queryPart.replace(/-/g, "").length;
+      const targetCount = targetPart.replace(/-/g, "").length;
+      const row = (name: string, from: number, part: string, count: number) =>
+        `${name.slice(0, labelWidth).padEnd(labelWidth)} ${String(count ? from + 1 : from).padStart(numberWidth)} ${part} ${from + count}`;
+
+      lines.push([
+        row(result.queryName, queryPosition, queryPart, queryCount),
+        `${"".padEnd(labelWidth)} ${"".padStart(numberWidth)} ${marks}`,
+        row(result.targetName, targetPosition, targetPart, targetCount)
+      ].join("\n"));
+      queryPosition += queryCount;
+      targetPosition += targetCount;
+    }
+
+    return lines;
+  }, [result, matrixId]);
+
+  const alignment = result?.alignment;
+  const availableMatrices = scoringMatrices.filter(matrix => matrix.type === (isProtein ? "protein" : "dna"));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Align Sequences</DialogTitle>
+          <DialogDescription>
+            Global or local pairwise alignment against this project, the selection or a saved project file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-xs">Query</Label>
+            <select
+              value={querySource}
+              onChange={(e) => setQuerySource(e.target.value as "paste" | "selection")}
+              className="w-full p-2 border rounded text-sm bg-background"
+            >
+              <option value="paste">Pasted sequence</option>
+              <option value="selection" disabled={!selectedRange}>
+                {selectedRange ? `Selection (${selectedRange.start + 1}-${selectedRange.end})` : "Selection (none)"}
+              </option>
+            </select>
+            {querySource === "paste" && (
+              <Textarea
+                value={queryText}
+                onChange={(e) => setQueryText(e.target.value)}
+                placeholder="Paste a DNA or protein sequence (FASTA headers are ignored)"
+                className="font-mono text-xs h-20"
+              />
+            )}
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="align-reverse"
+                checked={reverseQuery}
+                onCheckedChange={(checked) => setReverseQuery(checked === true)}
+                disabled={isProtein}
+              />
+              <Label htmlFor="align-reverse" className="text-xs">Reverse complement the query</Label>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {query.length.toLocaleString()} {isProtein ? "aa" : "bp"}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Target</Label>
+            <select
+              value={targetSource}
+              onChange={(e) => setTargetSource(e.target.value as "project" | "selection" | "file")}
+              className="w-full p-2 border rounded text-sm bg-background"
+            >
+              <option value="project">This project ({projectName})</option>
+              <option value="selection" disabled={!selectedRange}>Selection</option>
+              <option value="file" disabled={!fileRecords.length}>
+                {fileRecords.length ? `File: ${fileName}` : "Saved project file (none opened)"}
+              </option>
+            </select>
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              accept={targetExtensions.map(ext => `.${ext}`).join(",")}
+              onChange={handleFileChange}
+            />
+            <Button variant="outline" size="sm" className="w-full" onClick={() => fileInputRef.current?.click()}>
+              <FileUp className="h-4 w-4 mr-2" />
+              Open saved project or sequence file...
+            </Button>
+            {targetSource === "file" && fileRecords.length > 1 && (
+              <select
+                value={fileIndex}
+                onChange={(e) => setFileIndex(Number(e.target.value))}
+                className="w-full p-2 border rounded text-sm bg-background"
+                title="Record in the file"
+              >
+                {fileRecords.map((record, index) => (
+                  <option key={index} value={index}>{record.name} ({record.sequence.length.toLocaleString()})</option>
+                ))}
+              </select>
+            )}
+            <div className="text-xs text-muted-foreground">
+              {target.length.toLocaleString()} {detectSequenceType(target) === "protein" ? "aa" : "bp"}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="align-mode" className="text-xs">Mode</Label>
+            <select
+              id="align-mode"
+              value={mode}
+              onChange={(e) => setMode(e.target.value as AlignmentMode)}
+              className="w-full p-1 border rounded text-xs bg-background h-8"
+            >
+              {modes.map(item => (
+                <option key={item.value} value={item.value}>{item.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="align-matrix" className="text-xs">Scoring</Label>
+            <select
+              id="align-matrix"
+              value={matrixId}
+              onChange={(e) => setMatrixId(e.target.value)}
+              className="w-full p-1 border rounded text-xs bg-background h-8"
+            >
+              {availableMatrices.map(matrix => (
+                <option key={matrix.id} value={matrix.id}>{matrix.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="align-open" className="text-xs">Gap open</Label>
+            <Input
+              id="align-open"
+              type="number"
+              min={0}
+              step={0.5}
+              value={gapOpen}
+              onChange={(e) => e.target.value !== "" && Number(e.target.value) >= 0 && setGapOpen(Number(e.target.value))}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="align-extend" className="text-xs">Gap extend</Label>
+            <Input
+              id="align-extend"
+              type="number"
+              min={0}
+              step={0.5}
+              value={gapExtend}
+              onChange={(e) => e.target.value !== "" && Number(e.target.value) >= 0 && setGapExtend(Number(e.target.value))}
+              className="h-8 text-sm"
+            />
+          </div>
+        </div>
+
+        {alignment && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              {[
+                { label: "Score", value: alignment.score.toFixed(1) },
+                { label: "Length", value: alignment.length.toLocaleString() },
+                { label: "Identity", value: `${alignment.identities}/${alignment.length} (${percent(alignment.identities, alignment.length)}%)` },
+                { label: "Similarity", value: `${alignment.similarities}/${alignment.length} (${percent(alignment.similarities, alignment.length)}%)` },
+                { label: "Gaps", value: `${alignment.gaps}/${alignment.length} (${percent(alignment.gaps, alignment.length)}%)` }
+              ].map(item => (
+                <div key={item.label} className="bg-secondary/50 p-2 rounded-lg">
+                  <div className="text-xs font-medium text-muted-foreground">{item.label}</div>
+                  <div className="text-sm font-bold">{item.value}</div>
+                </div>
+              ))}
+            </div>
+            <pre className="font-mono text-xs max-h-72 overflow-auto border rounded p-2 bg-muted/30">
+              {blocks.join("\n\n")}
+            </pre>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Close
+          </Button>
+          <Button variant="outline" onClick={selectAligned} disabled={!result || result.targetOffset === null}>
+            <TextSelect className="h-4 w-4 mr-2" />
+            Select Aligned Region
+          </Button>
+          <Button onClick={runAlignment} disabled={!query || !target}>
+            <GitCompare className="h-4 w-4 mr-2" />
+            Align
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,389 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, Check, FilePlus } from "lucide-react";
+import { toast } from "sonner";
+import { useProject } from "@/hooks/use-project";
+import { EnzymePicker } from "./EnzymePicker";
+import {
+  assessCoding,
+  CodingAssessment,
+  defaultOptimizerSettings,
+  optimizeCodons,
+  OptimizerSettings,
+  untranslatableResidues
+} from "@/lib/codonOptimizer";
+import { codingRegion, codonHosts, getCodonHost } from "@/lib/codonUsage";
+import { getFeatureColor } from "@/lib/features";
+import { getGeneticCode } from "@/lib/geneticCode";
+import { translate } from "@/lib/translation";
+import { reverseComplement } from "@/lib/sequenceUtils";
+
+interface CodonOptimizerDialogProps {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  projectName?: string;
+}
+
+// Codons per line of the before/after view
+const codonsPerLine = 20;
+
+// Bases on each side of a CDS checked for sites, runs and GC windows spanning the junctions
+const junctionLength = 30;
+
+const numberFields: { key: "maxHomopolymer" | "gcWindow" | "gcMin" | "gcMax"; label: string; min: number; max: number }[] = [
+  { key: "maxHomopolymer", label: "Max homopolymer", min: 3, max: 20 },
+  { key: "gcWindow", label: "GC window (bp)", min: 10, max: 500 },
+  { key: "gcMin", label: "Min GC (%)", min: 0, max: 100 },
+  { key: "gcMax", label: "Max GC (%)", min: 0, max: 100 }
+];
+
+// Recode a CDS or a protein for an expression host, avoiding chosen sites, long
+// homopolymers and GC extremes, and apply the result as one undoable edit
+export function CodonOptimizerDialog({ isOpen, setIsOpen, projectName = "sequence" }: CodonOptimizerDialogProps) {
+  const { sequence, sequenceType, annotations, topology, editDocument } = useProject();
+  const [source, setSource] = useState<string>("protein");
+  const [proteinText, setProteinText] = useState<string>("");
+  const [settings, setSettings] = useState<OptimizerSettings>(defaultOptimizerSettings);
+  const [keepStart, setKeepStart] = useState<boolean>(true);
+
+  const cdsFeatures = useMemo(
+    () => (sequenceType === "dna" || sequenceType === "rna"
+      ? annotations.filter(annotation => annotation.type.toLowerCase() === "cds")
+      : []),
+    [annotations, sequenceType]
+  );
+
+  // Start from the first CDS, or from the workspace itself when it is a protein
+  useEffect(() => {
+    if (!isOpen) return;
+    setSource(cdsFeatures[0]?.id ?? "protein");
+    if (sequenceType === "protein") setProteinText(sequence);
+  }, [isOpen, cdsFeatures, sequenceType, sequence]);
+
+  const cds = cdsFeatures.find(annotation => annotation.id === source);
+
+  // GenBank CDS features carry their own /transl_table
+  useEffect(() => {
+    const fromQualifier = Number(cds?.qualifiers?.transl_table?.[0]);
+    setSettings(current => ({ ...current, table: fromQualifier || 1 }));
+  }, [cds]);
+
+  const region = useMemo(() => (cds ? codingRegion(sequence, cds) : null), [sequence, cds]);
+
+  const protein = useMemo(() => {
+    if (region) return translate(region.bases, { table: settings.table, initiator: true });
+    return proteinText.toUpperCase().replace(/[^A-Z*]/g, "");
+  }, [region, proteinText, settings.table]);
+
+  const flankLength = Math.max(junctionLength, settings.gcWindow);
+
+  // Bases just upstream of the CDS on its own strand
+  const upstream = useMemo(() => {
+    if (!cds) return "";
+    return cds.direction === -1
+      ? codingRegion(sequence, { start: cds.end, end: Math.min(sequence.length, cds.end + flankLength), direction: -1 }).bases
+      : codingRegion(sequence, { start: Math.max(0, cds.start - flankLength), end: cds.start }).bases;
+  }, [sequence, cds, flankLength]);
+
+  // Bases after the recoded codons on the CDS strand: any incomplete codon, then the flank
+  const downstream = useMemo(() => {
+    if (!cds || !region) return "";
+    const flank = cds.direction === -1
+      ? codingRegion(sequence, { start: Math.max(0, cds.start - flankLength), end: cds.start, direction: -1 }).bases
+      : codingRegion(sequence, { start: cds.end, end: Math.min(sequence.length, cds.end + flankLength) }).bases;
+    return region.bases.slice(protein.length * 3) + flank;
+  }, [sequence, cds, region, protein, flankLength]);
+
+  const firstCodon = region && keepStart && getGeneticCode(settings.table).starts.includes(region.bases.slice(0, 3))
+    ? region.bases.slice(0, 3)
+    : undefined;
+
+  // A CDS keeps its codons for residues like X; a pasted protein can't be back-translated with them
+  const untranslatable = useMemo(() => untranslatableResidues(protein, settings.table), [protein, settings.table]);
+  const blocked = !region && untranslatable.length > 0;
+
+  const optimized = useMemo(
+    () => (isOpen && protein && !blocked
+      ? optimizeCodons(protein, settings, { upstream, downstream, firstCodon, original: region?.bases })
+      : ""),
+    [isOpen, protein, blocked, settings, upstream, downstream, firstCodon, region]
+  );
+
+  const original = region?.bases.slice(0, optimized.length) ?? "";
+  const before = useMemo(
+    () => (original ? assessCoding(original, settings, { upstream, downstream }) : null),
+    [original, settings, upstream, downstream]
+  );
+  const after = useMemo(
+    () => (optimized ? assessCoding(optimized, settings, { upstream, downstream }) : null),
+    [optimized, settings, upstream, downstream]
+  );
+  const remaining = after?.issues.length ?? 0;
+
+  const codonCount = optimized.length / 3;
+  const changed = original
+    ? Array.from({ length: codonCount }, (_, i) => original.slice(3 * i, 3 * i + 3) !== optimized.slice(3 * i, 3 * i + 3))
+    : [];
+  const changedCount = changed.filter(Boolean).length;
+  const host = getCodonHost(settings.host);
+
+  const updateSetting = <K extends keyof OptimizerSettings>(key: K, value: OptimizerSettings[K]) => {
+    setSettings({ ...settings, [key]: value });
+  };
+
+  // Write the new codons over the CDS in place; its length doesn't change
+  const applyToCDS = () => {
+    if (!cds || !region || !optimized) return;
+    const rna = sequenceType === "rna";
+    const bases = sequence.split("");
+    region.positions.forEach((position, index) => {
+      if (index >= optimized.length) return;
+      const base = region.strand === 1 ? optimized[index] : reverseComplement(optimized[index]);
+      bases[position] = rna ? base.replace("T", "U") : base;
+    });
+    editDocument(`Optimize ${cds.name} codons for ${host.name}`, { sequence: bases.join("") });
+    setIsOpen(false);
+    toast.success(`Recoded ${changedCount} codon${changedCount === 1 ? "" : "s"} of ${cds.name}`);
+    if (remaining) toast.warning(`${remaining} issue${remaining === 1 ? "" : "s"} could not be avoided; see the optimizer for positions`);
+  };
+
+  // Replace the workspace with the back-translated protein; undo brings it back
+  const openAsSequence = () => {
+    if (!optimized) return;
+    const name = sequenceType === "protein" ? projectName : "Optimized CDS";
+    editDocument(`Open codon-optimized ${name}`, {
+      sequence: optimized,
+      annotations: [{
+        name,
+        start: 0,
+        end: optimized.length,
+        direction: 1,
+        color: getFeatureColor("CDS"),
+        type: "CDS",
+        qualifiers: {
+          translation: [protein.replace(/\*+$/, "")],
+          note: [`codon-optimized for ${host.organism}`],
+          ...(settings.table !== 1 ? { transl_table: [String(settings.table)] } : {})
+        }
+      }],
+      notes: [],
+      topology: "linear",
+      metadata: { definition: `${name}, codon-optimized for ${host.organism}` }
+    });
+    setIsOpen(false);
+    toast.success(`Opened ${optimized.length} bp coding sequence (undo to go back)`);
+    if (remaining) toast.warning(`${remaining} issue${remaining === 1 ? "" : "s"} could not be avoided; see the optimizer for positions`);
+  };
+
+  const metrics = (assessment: CodingAssessment | null) => {
+    const count = (kind: string) => assessment?.issues.filter(issue => issue.kind === kind).length ?? 0;
+    return assessment
+      ? [
+        assessment.cai === null ? "—" : assessment.cai.toFixed(3),
+        `${assessment.gc.toFixed(1)}%`,
+        String(count("site")),
+        String(count("homopolymer")),
+        String(count("gc"))
+      ]
+      : ["", "", "", "", ""];
+  };
+  const beforeMetrics = metrics(before);
+  const afterMetrics = metrics(after);
+
+  const lines = Array.from({ length: Math.ceil(codonCount / codonsPerLine) }, (_, line) => line * codonsPerLine);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Optimize Codons</DialogTitle>
+          <DialogDescription>
+            Recode a CDS or protein for an expression host. The same settings always give the same sequence.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            className="w-full p-2 border rounded text-sm bg-background"
+            title="What to optimize"
+          >
+            {cdsFeatures.map(annotation => (
+              <option key={annotation.id} value={annotation.id}>CDS: {annotation.name}</option>
+            ))}
+            <option value="protein">Protein sequence</option>
+          </select>
+          <select
+            value={settings.host}
+            onChange={(e) => updateSetting("host", e.target.value)}
+            className="w-full p-2 border rounded text-sm bg-background"
+            title="Expression host"
+          >
+            {codonHosts.map(item => (
+              <option key={item.id} value={item.id}>{item.name} ({item.organism})</option>
+            ))}
+          </select>
+        </div>
+
+        {!cds && (
+          <Textarea
+            value={proteinText}
+            onChange={(e) => setProteinText(e.target.value)}
+            placeholder="Paste a protein sequence (one-letter codes, * for stop)"
+            className="font-mono text-xs h-20"
+          />
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {numberFields.map(field => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`optimize-${field.key}`} className="text-xs">{field.label}</Label>
+              <Input
+                id={`optimize-${field.key}`}
+                type="number"
+                min={field.min}
+                max={field.max}
+                value={settings[field.key]}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (e.target.value !== "" && value >= field.min && value <= field.max) updateSetting(field.key, value);
+                }}
+                className="h-8 text-sm"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center space-x-2">
+            <Label className="text-xs">Avoid sites</Label>
+            <EnzymePicker
+              sequence={sequence}
+              topology={topology}
+              enzymes={settings.avoidEnzymes}
+              setEnzymes={(enzymes) => updateSetting("avoidEnzymes", enzymes)}
+            />
+          </div>
+          {cds && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="optimize-start"
+                checked={keepStart}
+                onCheckedChange={(checked) => setKeepStart(checked === true)}
+              />
+              <Label htmlFor="optimize-start" className="text-xs">Keep start codon</Label>
+            </div>
+          )}
+        </div>
+
+        {optimized ? (
+          <div className="space-y-3">
+            <table className="w-full text-xs border rounded">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-1"></th>
+                  {["CAI", "GC", "Sites", "Homopolymers", "GC windows"].map(label => (
+                    <th key={label} className="text-right p-1">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {before && (
+                  <tr className="border-t">
+                    <td className="p-1 font-medium">Before</td>
+                    {beforeMetrics.map((value, index) => <td key={index} className="p-1 text-right">{value}</td>)}
+                  </tr>
+                )}
+                <tr className="border-t">
+                  <td className="p-1 font-medium">After</td>
+                  {afterMetrics.map((value, index) => <td key={index} className="p-1 text-right">{value}</td>)}
+                </tr>
+              </tbody>
+            </table>
+
+            {after && after.issues.length > 0 && (
+              <div className="text-xs text-amber-600 border border-amber-300 rounded p-2">
+                <AlertTriangle className="h-3 w-3 inline mr-1" />
+                The optimized sequence still breaks the settings. Could not avoid (positions in the coding sequence): {after.issues.slice(0, 8).map(issue => `${issue.description} at ${issue.start + 1}-${issue.end}`).join("; ")}
+                {after.issues.length > 8 && ` and ${after.issues.length - 8} more`}
+              </div>
+            )}
+
+            <div className="font-mono text-xs max-h-64 overflow-y-auto border rounded p-2 space-y-2">
+              {lines.map(start => {
+                const indexes = Array.from(
+                  { length: Math.min(codonsPerLine, codonCount - start) },
+                  (_, i) => start + i
+                );
+                return (
+                  <div key={start} className="whitespace-pre">
+                    <div className="text-muted-foreground">
+                      {String(start + 1).padStart(5)} {indexes.map(i => ` ${protein[i] || "X"} `).join(" ")}
+                    </div>
+                    {original && (
+                      <div>
+                        {"".padStart(5)} {indexes.map(i => original.slice(3 * i, 3 * i + 3)).join(" ")}
+                      </div>
+                    )}
+                    <div>
+                      {"".padStart(5)}{" "}
+                      {indexes.map(i => (
+                        <span key={i} className={changed[i] ? "text-primary font-bold" : ""}>
+                          {optimized.slice(3 * i, 3 * i + 3)}{" "}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            {original && (
+              <div className="text-xs text-muted-foreground">
+                {changedCount} of {codonCount} codons change (in bold); the protein stays the same.
+                {untranslatable.length > 0 && ` Codons for ${untranslatable.join(", ")} are kept as they are.`}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground py-4 text-center">
+            {cds
+              ? "This CDS has no complete codons."
+              : blocked
+                ? `The protein has letters no codon encodes (${untranslatable.join(", ")}); replace them to back-translate.`
+                : "Enter a protein sequence to back-translate."}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Close
+          </Button>
+          {cds ? (
+            <Button onClick={applyToCDS} disabled={!changedCount} variant={remaining ? "destructive" : "default"}>
+              {remaining ? <AlertTriangle className="h-4 w-4 mr-2" /> : <Check className="h-4 w-4 mr-2" />}
+              {remaining ? `Apply to ${cds.name} with ${remaining} issue${remaining === 1 ? "" : "s"}` : `Apply to ${cds.name}`}
+            </Button>
+          ) : (
+            <Button onClick={openAsSequence} disabled={!optimized} variant={remaining ? "destructive" : "default"}>
+              {remaining ? <AlertTriangle className="h-4 w-4 mr-2" /> : <FilePlus className="h-4 w-4 mr-2" />}
+              {remaining ? `Open with ${remaining} issue${remaining === 1 ? "" : "s"}` : "Open as Sequence"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,183 @@
+import { useEffect, useMemo, useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Annotation } from "@/lib/features";
+import {
+  codingRegion,
+  codonAdaptationIndex,
+  codonHosts,
+  codonUsage,
+  countCodons,
+  defaultRareThreshold,
+  getCodonHost,
+  rareCodonRanges,
+  trnaAdaptationIndex
+} from "@/lib/codonUsage";
+import { SequenceRange } from "@/lib/sequenceUtils";
+
+interface CodonUsageProps {
+  sequence: string;
+  annotations: Annotation[];
+  selectedRange?: SequenceRange | null;
+  // Receives the rare codons to highlight on the map, or an empty list to clear them
+  onHighlight?: (ranges: SequenceRange[]) => void;
+}
+
+const rareThresholds = [0.1, 0.2, 0.3, 0.5];
+
+// Hosts with bundled tRNA gene counts, for the note under the table
+const trnaHostNames = codonHosts.filter(host => host.trnaGenes).map(host => host.name);
+
+// Codon usage of the sequence, the selection or a CDS, measured against an expression host
+export function CodonUsage({ sequence, annotations, selectedRange, onHighlight }: CodonUsageProps) {
+  const cdsFeatures = useMemo(
+    () => annotations.filter(annotation => annotation.type.toLowerCase() === "cds"),
+    [annotations]
+  );
+  const [source, setSource] = useState<string>("");
+  const [hostId, setHostId] = useState<string>(codonHosts[0].id);
+  const [rareThreshold, setRareThreshold] = useState<number>(defaultRareThreshold);
+  const [highlightRare, setHighlightRare] = useState<boolean>(false);
+
+  // Default to the first CDS, falling back to the whole sequence
+  const sourceKey = source === "selection" && !selectedRange
+    ? "sequence"
+    : source || (cdsFeatures[0]?.id ?? "sequence");
+  const cds = cdsFeatures.find(annotation => annotation.id === sourceKey);
+  const table = Number(cds?.qualifiers?.transl_table?.[0]) || 1;
+
+  const region = useMemo(() => {
+    if (cds) return codingRegion(sequence, cds);
+    if (sourceKey === "selection" && selectedRange) return codingRegion(sequence, selectedRange);
+    return codingRegion(sequence, { start: 0, end: sequence.length });
+  }, [sequence, cds, sourceKey, selectedRange]);
+
+  const host = getCodonHost(hostId);
+  const counts = useMemo(() => countCodons(region.bases), [region]);
+  const usage = useMemo(() => codonUsage(counts, host, table, rareThreshold), [counts, host, table, rareThreshold]);
+  const cai = useMemo(() => codonAdaptationIndex(counts, host, table), [counts, host, table]);
+  const tai = useMemo(() => trnaAdaptationIndex(counts, host, table), [counts, host, table]);
+  const rareRanges = useMemo(
+    () => rareCodonRanges(region, sequence.length, host, table, rareThreshold),
+    [region, sequence.length, host, table, rareThreshold]
+  );
+
+  useEffect(() => {
+    onHighlight?.(highlightRare ? rareRanges : []);
+  }, [highlightRare, rareRanges, onHighlight]);
+
+  // Clear the highlights when the section goes away
+  useEffect(() => () => onHighlight?.([]), [onHighlight]);
+
+  const codonCount = Math.floor(region.bases.length / 3);
+
+  const values = [
+    { label: "Codons", value: codonCount.toLocaleString() },
+    { label: "CAI", value: cai === null ? "—" : cai.toFixed(3) },
+    { label: "tAI", value: tai === null ? "—" : tai.toFixed(3) },
+    { label: "Rare Codons", value: rareRanges.length.toLocaleString() }
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-xs">
+        <select
+          value={sourceKey}
+          onChange={(e) => setSource(e.target.value)}
+          className="p-1 border rounded bg-background"
+          title="Coding sequence"
+        >
+          <option value="sequence">Whole sequence (frame +1)</option>
+          {selectedRange && <option value="selection">Selection</option>}
+          {cdsFeatures.map(annotation => (
+            <option key={annotation.id} value={annotation.id}>CDS: {annotation.name}</option>
+          ))}
+        </select>
+        <select
+          value={hostId}
+          onChange={(e) => setHostId(e.target.value)}
+          className="p-1 border rounded bg-background"
+          title="Expression host"
+        >
+          {codonHosts.map(item => (
+            <option key={item.id} value={item.id}>{item.name} ({item.organism})</option>
+          ))}
+        </select>
+        <select
+          value={rareThreshold}
+          onChange={(e) => setRareThreshold(Number(e.target.value))}
+          className="p-1 border rounded bg-background"
+          title="Rare codon threshold"
+        >
+          {rareThresholds.map(value => (
+            <option key={value} value={value}>Rare below w = {value}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {values.map(item => (
+          <div key={item.label} className="bg-secondary/50 p-2 rounded-lg">
+            <div className="text-xs font-medium text-muted-foreground">{item.label}</div>
+            <div className="text-sm font-bold">{item.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="codon-highlight"
+          checked={highlightRare}
+          onCheckedChange={(checked) => setHighlightRare(checked === true)}
+          disabled={!onHighlight}
+        />
+        <Label htmlFor="codon-highlight" className="text-xs">Highlight rare codons on the map</Label>
+      </div>
+
+      {codonCount > 0 ? (
+        <div className="max-h-64 overflow-y-auto border rounded">
+          <table className="w-full text-xs">
+            <thead className="bg-muted/50 sticky top-0">
+              <tr>
+                <th className="text-left p-1">AA</th>
+                <th className="text-left p-1">Codon</th>
+                <th className="text-right p-1">Count</th>
+                <th className="text-right p-1">/1000</th>
+                <th className="text-right p-1">Fraction</th>
+                <th className="text-right p-1">RSCU</th>
+                <th className="text-right p-1">Host /1000</th>
+                <th className="text-right p-1">w</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.map(stat => (
+                <tr
+                  key={stat.codon}
+                  className={`border-t ${stat.rare && stat.count ? "text-amber-600" : ""} ${stat.count ? "" : "text-muted-foreground"}`}
+                >
+                  <td className="p-1">{stat.aminoAcid}</td>
+                  <td className="p-1 font-mono">{stat.codon}</td>
+                  <td className="p-1 text-right">{stat.count}</td>
+                  <td className="p-1 text-right">{stat.perThousand.toFixed(1)}</td>
+                  <td className="p-1 text-right">{stat.fraction.toFixed(2)}</td>
+                  <td className="p-1 text-right">{stat.rscu.toFixed(2)}</td>
+                  <td className="p-1 text-right">{stat.hostPerThousand.toFixed(1)}</td>
+                  <td className="p-1 text-right">{stat.adaptiveness.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-xs text-muted-foreground">No complete codons in this region</div>
+      )}
+
+      <div className="text-xs text-muted-foreground">
+        w is usage relative to the host's most used synonymous codon; CAI is its geometric mean.
+        {!host.trnaGenes && ` tAI needs tRNA gene counts, which are only bundled for ${
+          trnaHostNames.slice(0, -1).join(", ")} and ${trnaHostNames[trnaHostNames.length - 1]
+        }.`}
+      </div>
+    </div>
+  );
+}
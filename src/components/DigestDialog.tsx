@@ -0,0 +1,302 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Topology } from "@/lib/formats";
+import { digest, DigestResult, Fragment } from "@/lib/digest";
+import { agaroseRanges, getLadder, ladders, migration, supercoiledMobility } from "@/lib/gel";
+import { SequenceRange } from "@/lib/sequenceUtils";
+
+interface DigestDialogProps {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  sequence: string;
+  topology: Topology;
+  enzymes: string[];
+  onRangeSelect?: (range: SequenceRange) => void;
+}
+
+// A lane of the simulated gel
+interface Lane {
+  label: string;
+  bands: { size: number; label: string; weight: number }[];
+  result?: DigestResult;
+}
+
+const gelHeight = 360;
+const laneWidth = 56;
+const ladderLabelWidth = 48;
+
+const formatSize = (size: number) => size.toLocaleString();
+
+const fragmentEnds = (fragment: Fragment) =>
+  `${fragment.left?.enzyme || "end"} – ${fragment.right?.enzyme || "end"}`;
+
+// Turn digest fragments into bands; fragments of the same size pile into one brighter band
+function toBands(result: DigestResult, length: number): Lane["bands"] {
+  if (result.uncut) {
+    return [{ size: length * supercoiledMobility, label: `${formatSize(length)} bp uncut (supercoiled)`, weight: length }];
+  }
+
+  const bySize = new Map<number, Fragment[]>();
+  for (const fragment of result.fragments) {
+    bySize.set(fragment.length, [...(bySize.get(fragment.length) || []), fragment]);
+  }
+
+  return Array.from(bySize.entries()).map(([size, fragments]) => ({
+    size,
+    label: `${formatSize(size)} bp${fragments.length > 1 ? ` ×${fragments.length}` : ""} (${fragmentEnds(fragments[0])})`,
+    weight: size * fragments.length
+  }));
+}
+
+// Digest the sequence with the chosen enzymes and show the fragments on a simulated gel
+export function DigestDialog({ isOpen, setIsOpen, sequence, topology, enzymes, onRangeSelect }: DigestDialogProps) {
+  const [ladderId, setLadderId] = useState<string>(ladders[0].id);
+  const [agarose, setAgarose] = useState<number>(1);
+  const [showSingles, setShowSingles] = useState<boolean>(true);
+  const [showUncut, setShowUncut] = useState<boolean>(true);
+  const [activeLane, setActiveLane] = useState<number>(0);
+
+  const circular = topology === "circular";
+  const ladder = getLadder(ladderId);
+
+  useEffect(() => {
+    if (isOpen) setActiveLane(0);
+  }, [isOpen, enzymes]);
+
+  const lanes = useMemo(() => {
+    if (!isOpen || !sequence) return [];
+
+    const length = sequence.length;
+    const digests: { label: string; names: string[] }[] = [];
+    if (enzymes.length) digests.push({ label: enzymes.join(" + "), names: enzymes });
+    if (showSingles && enzymes.length > 1) digests.push(...enzymes.map(name => ({ label: name, names: [name] })));
+
+    const result: Lane[] = digests.map(({ label, names }) => {
+      const digested = digest(sequence, names, circular);
+      return { label, bands: toBands(digested, length), result: digested };
+    });
+
+    if (showUncut) {
+      result.push({
+        label: "Uncut",
+        bands: circular
+          ? [{ size: length * supercoiledMobility, label: `${formatSize(length)} bp (supercoiled)`, weight: length }]
+          : [{ size: length, label: `${formatSize(length)} bp`, weight: length }]
+      });
+    }
+
+    return result;
+  }, [isOpen, sequence, enzymes, circular, showSingles, showUncut]);
+
+  const selectedLane = lanes[activeLane]?.result ? lanes[activeLane] : lanes.find(lane => lane.result);
+  const width = ladderLabelWidth + laneWidth * (lanes.length + 1) + 8;
+  const y = (size: number) => 24 + migration(size, agarose) * (gelHeight - 32);
+
+  // Ladder size labels, skipping ones that would overlap the one above
+  const ladderLabels = ladder.bands.reduce<{ size: number; y: number }[]>((labels, size) => {
+    const position = y(size);
+    if (!labels.length || position - labels[labels.length - 1].y >= 10) labels.push({ size, y: position });
+    return labels;
+  }, []);
+
+  const selectFragment = (fragment: Fragment) => {
+    if (!onRangeSelect) return;
+    onRangeSelect(fragment.length === sequence.length ? { start: 0, end: sequence.length } : fragment);
+  };
+
+  const drawBand = (x: number, size: number, weight: number, maxWeight: number, key: string, title: string) => (
+    <rect
+      key={key}
+      x={x + 6}
+      y={y(size) - 2}
+      width={laneWidth - 12}
+      height={4}
+      rx={1}
+      fill="#f5f5f5"
+      opacity={Math.max(0.3, Math.min(1, weight / maxWeight))}
+    >
+      <title>{title}</title>
+    </rect>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Virtual Digest</DialogTitle>
+          <DialogDescription>
+            Fragment sizes for the enzymes chosen in the visualizer, run on a simulated agarose gel.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!enzymes.length ? (
+          <div className="text-sm text-muted-foreground py-6 text-center">
+            Choose one or more enzymes in the visualizer to digest the sequence.
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[auto_1fr]">
+            <div className="overflow-x-auto">
+              <svg width={width} height={gelHeight} className="rounded" style={{ background: "#1f2937" }}>
+                {ladderLabels.map(label => (
+                  <text
+                    key={label.size}
+                    x={ladderLabelWidth - 4}
+                    y={label.y + 3}
+                    fontSize={9}
+                    fill="#d1d5db"
+                    textAnchor="end"
+                  >
+                    {formatSize(label.size)}
+                  </text>
+                ))}
+
+                {[{ label: "Ladder" }, ...lanes].map((lane, index) => {
+                  const x = ladderLabelWidth + index * laneWidth;
+                  const active = index > 0 && lanes[index - 1] === selectedLane;
+                  return (
+                    <g key={`${lane.label}-${index}`}>
+                      <rect x={x + 6} y={12} width={laneWidth - 12} height={6} fill="#111827" />
+                      <text
+                        x={x + laneWidth / 2}
+                        y={9}
+                        fontSize={8}
+                        fill={active ? "#fbbf24" : "#d1d5db"}
+                        textAnchor="middle"
+                        style={{ cursor: index > 0 ? "pointer" : "default" }}
+                        onClick={() => index > 0 && setActiveLane(index - 1)}
+                      >
+                        {lane.label.length > 11 ? `${lane.label.slice(0, 10)}…` : lane.label}
+                        <title>{lane.label}</title>
+                      </text>
+                    </g>
+                  );
+                })}
+
+                {ladder.bands.map(size =>
+                  drawBand(
+                    ladderLabelWidth,
+                    size,
+                    ladder.strong?.includes(size) ? 1 : 0.6,
+                    1,
+                    `ladder-${size}`,
+                    `${formatSize(size)} bp`
+                  )
+                )}
+
+                {lanes.map((lane, index) => {
+                  const maxWeight = Math.max(...lane.bands.map(band => band.weight));
+                  return lane.bands.map((band, bandIndex) =>
+                    drawBand(
+                      ladderLabelWidth + (index + 1) * laneWidth,
+                      band.size,
+                      band.weight,
+                      maxWeight,
+                      `${index}-${bandIndex}`,
+                      band.label
+                    )
+                  );
+                })}
+              </svg>
+            </div>
+
+            <div className="space-y-3 min-w-0">
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={ladderId}
+                  onChange={(e) => setLadderId(e.target.value)}
+                  className="w-full p-2 border rounded text-sm bg-background"
+                  title="Ladder"
+                >
+                  {ladders.map(item => (
+                    <option key={item.id} value={item.id}>{item.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={agarose}
+                  onChange={(e) => setAgarose(Number(e.target.value))}
+                  className="w-full p-2 border rounded text-sm bg-background"
+                  title="Agarose concentration"
+                >
+                  {Object.keys(agaroseRanges).map(Number).sort((a, b) => a - b).map(value => (
+                    <option key={value} value={value}>{value}% agarose</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-wrap gap-4">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="digest-singles"
+                    checked={showSingles}
+                    onCheckedChange={(checked) => setShowSingles(checked === true)}
+                    disabled={enzymes.length < 2}
+                  />
+                  <Label htmlFor="digest-singles" className="text-sm">Single-enzyme lanes</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="digest-uncut"
+                    checked={showUncut}
+                    onCheckedChange={(checked) => setShowUncut(checked === true)}
+                  />
+                  <Label htmlFor="digest-uncut" className="text-sm">Uncut lane</Label>
+                </div>
+              </div>
+
+              {selectedLane?.result && (
+                <div>
+                  <div className="text-sm font-medium mb-1">
+                    {selectedLane.label}: {selectedLane.result.uncut
+                      ? "no cuts"
+                      : `${selectedLane.result.cuts.length} cut${selectedLane.result.cuts.length === 1 ? "" : "s"}, ${selectedLane.result.fragments.length} fragment${selectedLane.result.fragments.length === 1 ? "" : "s"}`}
+                    {circular ? " (circular)" : " (linear)"}
+                  </div>
+                  <div className="max-h-60 overflow-y-auto border rounded">
+                    <table className="w-full text-xs">
+                      <thead className="bg-muted/50 sticky top-0">
+                        <tr>
+                          <th className="text-left p-1">#</th>
+                          <th className="text-right p-1">Size (bp)</th>
+                          <th className="text-right p-1">From</th>
+                          <th className="text-right p-1">To</th>
+                          <th className="text-left p-1">Ends</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[...selectedLane.result.fragments]
+                          .sort((a, b) => b.length - a.length)
+                          .map((fragment, index) => (
+                            <tr
+                              key={`${fragment.start}-${fragment.end}`}
+                              className="border-t hover:bg-secondary cursor-pointer"
+                              onClick={() => selectFragment(fragment)}
+                            >
+                              <td className="p-1">{index + 1}</td>
+                              <td className="p-1 text-right font-mono">{formatSize(fragment.length)}</td>
+                              <td className="p-1 text-right">{fragment.start + 1}</td>
+                              <td className="p-1 text-right">{fragment.end || sequence.length}</td>
+                              <td className="p-1">{fragmentEnds(fragment)}</td>
+                            </tr>
+                          ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Click a fragment to select it; click a lane name to list its fragments.
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Scissors } from "lucide-react";
+import { commonEnzymes, CutSite, enzymeCatalog, findCutSites } from "@/lib/enzymes";
+import { SequenceRange } from "@/lib/sequenceUtils";
+
+interface EnzymePickerProps {
+  sequence: string;
+  topology?: "linear" | "circular";
+  selectedRange?: SequenceRange | null;
+  enzymes: string[];
+  setEnzymes: (enzymes: string[]) => void;
+}
+
+type CutFilter = "all" | "single" | "double" | "none" | "outside";
+
+// Whether a cut falls inside a range, across the origin for wrapped ones
+const cutsInside = (cut: CutSite, range: SequenceRange) =>
+  [cut.position, cut.bottomPosition].some(position =>
+    range.start > range.end
+      ? position > range.start || position < range.end
+      : position > range.start && position < range.end
+  );
+
+// Searchable list of the whole enzyme catalog, filtered by how often each cuts
+export function EnzymePicker({ sequence, topology = "circular", selectedRange, enzymes, setEnzymes }: EnzymePickerProps) {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [query, setQuery] = useState<string>("");
+  const [cutFilter, setCutFilter] = useState<CutFilter>("all");
+  const [overhang, setOverhang] = useState<string>("any");
+
+  // Cuts of every catalog enzyme, only worked out while the picker is open
+  const cutsByEnzyme = useMemo(() => {
+    const result: Record<string, CutSite[]> = {};
+    if (!isOpen) return result;
+
+    for (const enzyme of enzymeCatalog) result[enzyme.name] = [];
+    const cuts = findCutSites(sequence, enzymeCatalog.map(enzyme => enzyme.name), topology === "circular");
+    for (const cut of cuts) result[cut.enzyme].push(cut);
+    return result;
+  }, [isOpen, sequence, topology]);
+
+  const shown = useMemo(() => {
+    const search = query.trim().toUpperCase();
+
+    return enzymeCatalog.filter(enzyme => {
+      const cuts = cutsByEnzyme[enzyme.name] || [];
+      if (search && !enzyme.name.toUpperCase().includes(search) && !enzyme.recognition.includes(search)) return false;
+      if (overhang === "typeIIS" ? !enzyme.typeIIS : overhang !== "any" && enzyme.overhang !== overhang) return false;
+
+      switch (cutFilter) {
+        case "single":
+          return cuts.length === 1;
+        case "double":
+          return cuts.length === 2;
+        case "none":
+          return cuts.length === 0;
+        case "outside":
+          return !!selectedRange && cuts.length > 0 && !cuts.some(cut => cutsInside(cut, selectedRange));
+        default:
+          return true;
+      }
+    });
+  }, [query, cutFilter, overhang, cutsByEnzyme, selectedRange]);
+
+  const isSelected = (name: string) => enzymes.some(enzyme => enzyme.toLowerCase() === name.toLowerCase());
+
+  const toggleEnzyme = (name: string) => {
+    setEnzymes(isSelected(name)
+      ? enzymes.filter(enzyme => enzyme.toLowerCase() !== name.toLowerCase())
+      : [...enzymes, name]);
+  };
+
+  // Add everything the filters leave, except enzymes that don't cut at all
+  const selectShown = () => {
+    const cutting = shown.filter(enzyme => cutsByEnzyme[enzyme.name]?.length).map(enzyme => enzyme.name);
+    setEnzymes([...enzymes, ...cutting.filter(name => !isSelected(name))]);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant={enzymes.length ? "default" : "outline"} size="sm" className="text-xs h-7">
+          <Scissors className="w-3 h-3 mr-1" />
+          Enzymes{enzymes.length ? ` (${enzymes.length})` : ""}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-2">
+        <div className="space-y-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by name or site, e.g. EcoRI or GGTCTC"
+            className="h-8 text-sm"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={cutFilter}
+              onChange={(e) => setCutFilter(e.target.value as CutFilter)}
+              className="w-full p-1 border rounded text-xs bg-background"
+              title="Filter by number of cuts"
+            >
+              <option value="all">All enzymes</option>
+              <option value="single">Single cutters</option>
+              <option value="double">Double cutters</option>
+              <option value="none">Non-cutters</option>
+              <option value="outside" disabled={!selectedRange}>Cuts outside selection</option>
+            </select>
+            <select
+              value={overhang}
+              onChange={(e) => setOverhang(e.target.value)}
+              className="w-full p-1 border rounded text-xs bg-background"
+              title="Filter by cut type"
+            >
+              <option value="any">Any ends</option>
+              <option value="5'">5' overhang</option>
+              <option value="3'">3' overhang</option>
+              <option value="blunt">Blunt</option>
+              <option value="typeIIS">Type IIS</option>
+            </select>
+          </div>
+
+          <div className="max-h-72 overflow-y-auto border rounded">
+            {shown.length === 0 ? (
+              <div className="text-xs text-muted-foreground text-center py-4">No enzymes match</div>
+            ) : (
+              shown.map(enzyme => {
+                const cuts = cutsByEnzyme[enzyme.name] || [];
+                return (
+                  <label
+                    key={enzyme.name}
+                    className="flex items-center gap-2 px-2 py-1 text-xs hover:bg-secondary cursor-pointer"
+                  >
+                    <Checkbox checked={isSelected(enzyme.name)} onCheckedChange={() => toggleEnzyme(enzyme.name)} />
+                    <span className="w-16 font-medium truncate">{enzyme.name}</span>
+                    <span className="flex-1 font-mono truncate" title={enzyme.site}>{enzyme.recognition}</span>
+                    <span
+                      className="text-muted-foreground"
+                      title={enzyme.methylation.length ? `Sensitive to ${enzyme.methylation.join(", ")} methylation` : undefined}
+                    >
+                      {enzyme.overhang === "blunt" ? "blunt" : `${enzyme.overhang}${enzyme.overhangLength}`}
+                      {enzyme.typeIIS ? " IIS" : ""}
+                      {enzyme.methylation.length ? " m" : ""}
+                    </span>
+                    <span className={`w-8 text-right ${cuts.length ? "" : "text-muted-foreground"}`}>{cuts.length}×</span>
+                  </label>
+                );
+              })
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">{shown.length} of {enzymeCatalog.length} enzymes</span>
+            <div className="flex space-x-1">
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setEnzymes(commonEnzymes)}>
+                Common
+              </Button>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={selectShown}>
+                Add shown
+              </Button>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setEnzymes([])} disabled={!enzymes.length}>
+                Clear
+              </Button>
+            </div>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { useProject } from "@/hooks/use-project";
+import { noteToFeature } from "@/lib/features";
+import { writeFasta, writeGenBank, writeProjectBundle, writeSbol } from "@/lib/formats";
+import { findORFs, getRangeSequence, reverseComplement } from "@/lib/sequenceUtils";
+import { downloadFile, toFileName } from "@/lib/download";
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  projectName: string;
+}
+
+type ExportFormat = "genbank" | "fasta" | "sbol-xml" | "sbol-jsonld" | "json";
+type FastaScope = "sequence" | "selection" | "orfs";
+
+export function ExportDialog({ isOpen, setIsOpen, projectName }: ExportDialogProps) {
+  const { sequence, sequenceType, annotations, notes, topology, metadata, selectedRange, aiHistory } = useProject();
+  const [format, setFormat] = useState<ExportFormat>("genbank");
+  const [fastaScope, setFastaScope] = useState<FastaScope>("sequence");
+  const [includeNotes, setIncludeNotes] = useState<boolean>(true);
+
+  const orfs = isOpen && sequenceType === "dna" ? findORFs(sequence, { circular: topology === "circular" }) : [];
+
+  const exportGenBank = () => {
+    const features = includeNotes ? [...annotations, ...notes.map(noteToFeature)] : annotations;
+    const content = writeGenBank(
+      { name: projectName, sequence, topology, annotations: features, metadata },
+      sequenceType === "protein" ? "aa" : sequenceType === "rna" ? "RNA" : "DNA"
+    );
+    downloadFile(content, toFileName(projectName, "gb"), "chemical/seq-na-genbank");
+  };
+
+  const exportFasta = () => {
+    let records: { name: string; description?: string; sequence: string }[] = [];
+
+    if (fastaScope === "selection" && selectedRange) {
+      records = [{
+        name: `${projectName}_${selectedRange.start + 1}-${selectedRange.end}`,
+        sequence: getRangeSequence(sequence, selectedRange)
+      }];
+    } else if (fastaScope === "orfs") {
+      records = orfs.map((orf, index) => ({
+        name: `${projectName}_ORF${index + 1}`,
+        description: orf.strand === 1
+          ? `${orf.start + 1}..${orf.end} ${orf.length} bp`
+          : `complement(${orf.start + 1}..${orf.end}) ${orf.length} bp`,
+        sequence: orf.strand === 1
+          ? getRangeSequence(sequence, orf)
+          : reverseComplement(getRangeSequence(sequence, orf))
+      }));
+    } else {
+      records = [{ name: projectName, description: metadata.definition, sequence }];
+    }
+
+    const suffix = fastaScope === "sequence" ? "" : `_${fastaScope}`;
+    downloadFile(writeFasta(records), toFileName(`${projectName}${suffix}`, "fasta"), "text/x-fasta");
+  };
+
+  const exportSbol = () => {
+    const sbolFormat = format === "sbol-jsonld" ? "jsonld" : "rdfxml";
+    const content = writeSbol(
+      {
+        name: projectName,
+        description: metadata.definition,
+        sequence,
+        topology,
+        annotations,
+        notes: includeNotes ? notes : []
+      },
+      sbolFormat,
+      sequenceType
+    );
+
+    if (sbolFormat === "jsonld") {
+      downloadFile(content, toFileName(projectName, "jsonld"), "application/ld+json");
+    } else {
+      downloadFile(content, toFileName(projectName, "xml"), "application/rdf+xml");
+    }
+  };
+
+  const exportJson = () => {
+    const content = writeProjectBundle({
+      name: projectName,
+      sequence,
+      sequenceType,
+      topology,
+      annotations,
+      notes,
+      metadata,
+      aiHistory
+    });
+    downloadFile(content, toFileName(projectName, "geneforge.json"), "application/json");
+  };
+
+  const handleExport = () => {
+    if (!sequence) {
+      toast.error("There is no sequence to export");
+      return;
+    }
+
+    try {
+      if (format === "genbank") exportGenBank();
+      else if (format === "fasta") exportFasta();
+      else if (format === "sbol-xml" || format === "sbol-jsonld") exportSbol();
+      else exportJson();
+
+      toast.success("Export started");
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Error exporting project:", error);
+      toast.error("Failed to export project");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Project</DialogTitle>
+          <DialogDescription>
+            Download the current sequence, annotations and notes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="genbank" id="export-genbank" />
+              <Label htmlFor="export-genbank">GenBank (.gb)</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="fasta" id="export-fasta" />
+              <Label htmlFor="export-fasta">FASTA (.fasta)</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="sbol-xml" id="export-sbol-xml" />
+              <Label htmlFor="export-sbol-xml">SBOL3 RDF/XML (.xml)</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="sbol-jsonld" id="export-sbol-jsonld" />
+              <Label htmlFor="export-sbol-jsonld">SBOL3 JSON-LD (.jsonld)</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="json" id="export-json" />
+              <Label htmlFor="export-json">GeneForge project bundle (.json)</Label>
+            </div>
+          </RadioGroup>
+
+          {(format === "sbol-xml" || format === "sbol-jsonld") && (
+            <div className="flex items-center space-x-2 border-t pt-4">
+              <Checkbox
+                id="export-sbol-notes"
+                checked={includeNotes}
+                onCheckedChange={(checked) => setIncludeNotes(checked === true)}
+              />
+              <Label htmlFor="export-sbol-notes">
+                Include {notes.length} {notes.length === 1 ? "note" : "notes"} as feature descriptions
+              </Label>
+            </div>
+          )}
+
+          {format === "genbank" && (
+            <div className="flex items-center space-x-2 border-t pt-4">
+              <Checkbox
+                id="export-notes"
+                checked={includeNotes}
+                onCheckedChange={(checked) => setIncludeNotes(checked === true)}
+              />
+              <Label htmlFor="export-notes">
+                Include {notes.length} {notes.length === 1 ? "note" : "notes"} as misc_feature /note entries
+              </Label>
+            </div>
+          )}
+
+          {format === "fasta" && (
+            <RadioGroup
+              value={fastaScope}
+              onValueChange={(value) => setFastaScope(value as FastaScope)}
+              className="border-t pt-4"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="sequence" id="fasta-sequence" />
+                <Label htmlFor="fasta-sequence">Whole sequence ({sequence.length})</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="selection" id="fasta-selection" disabled={!selectedRange} />
+                <Label htmlFor="fasta-selection" className={!selectedRange ? "text-muted-foreground" : ""}>
+                  {selectedRange
+                    ? `Selection (${selectedRange.start + 1}-${selectedRange.end})`
+                    : "Selection (nothing selected)"}
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="orfs" id="fasta-orfs" disabled={!orfs.length} />
+                <Label htmlFor="fasta-orfs" className={!orfs.length ? "text-muted-foreground" : ""}>
+                  Every ORF ({orfs.length} found)
+                </Label>
+              </div>
+            </RadioGroup>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={!sequence}>
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
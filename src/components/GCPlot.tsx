@@ -0,0 +1,143 @@
+import { useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { calculateGCContent, GCWindow, SequenceRange, slidingWindowGC } from "@/lib/sequenceUtils";
+
+interface GCPlotProps {
+  sequence: string;
+  topology?: "linear" | "circular";
+  selectedRange?: SequenceRange | null;
+  onRangeSelect?: (range: SequenceRange) => void;
+}
+
+const windowSizes = [20, 50, 100, 200, 500, 1000];
+const stepSizes = [1, 5, 10, 25, 50, 100];
+
+// Points drawn at most; the step grows on long sequences to stay under it
+const maxPoints = 2000;
+
+// GC content outside this band is hard to synthesize
+const gcLimits = { low: 25, high: 65 };
+
+const chartConfig = {
+  gc: { label: "GC %", color: "#3B82F6" },
+  gcSkew: { label: "GC skew", color: "#10B981" },
+  atSkew: { label: "AT skew", color: "#F59E0B" }
+} satisfies ChartConfig;
+
+// Sliding-window GC content and strand skew, on the same coordinates as the sequence
+export function GCPlot({ sequence, topology = "linear", selectedRange, onRangeSelect }: GCPlotProps) {
+  const [windowSize, setWindowSize] = useState<number>(100);
+  const [step, setStep] = useState<number>(10);
+
+  const effectiveStep = Math.max(step, Math.ceil(sequence.length / maxPoints));
+
+  const windows = useMemo(
+    () => slidingWindowGC(sequence, windowSize, effectiveStep, topology === "circular"),
+    [sequence, windowSize, effectiveStep, topology]
+  );
+
+  const average = useMemo(() => calculateGCContent(sequence), [sequence]);
+  const outside = windows.filter(point => point.gc < gcLimits.low || point.gc > gcLimits.high).length;
+
+  // Plot by window centre, shown 1-based
+  const data = useMemo(
+    () => windows
+      .map(point => ({ ...point, position: point.center + 1 }))
+      .sort((a, b) => a.position - b.position),
+    [windows]
+  );
+
+  // Shade the selection, in two parts when it wraps the origin
+  const selectionAreas = !selectedRange
+    ? []
+    : selectedRange.start <= selectedRange.end
+      ? [[selectedRange.start + 1, selectedRange.end]]
+      : [[selectedRange.start + 1, sequence.length], [1, selectedRange.end]];
+
+  const handleClick = (state: { activePayload?: { payload: GCWindow }[] } | null) => {
+    const point = state?.activePayload?.[0]?.payload;
+    if (point && onRangeSelect) onRangeSelect({ start: point.start, end: point.end });
+  };
+
+  const chart = (keys: (keyof typeof chartConfig)[], domain: [number, number], references: number[]) => (
+    <ChartContainer config={chartConfig} className="h-32 w-full aspect-auto">
+      <LineChart data={data} onClick={handleClick} margin={{ top: 4, right: 8, bottom: 0, left: -16 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="position"
+          type="number"
+          domain={[1, sequence.length]}
+          tickLine={false}
+          allowDataOverflow
+        />
+        <YAxis domain={domain} tickLine={false} width={48} />
+        {selectionAreas.map(([x1, x2]) => (
+          <ReferenceArea key={`${x1}-${x2}`} x1={x1} x2={x2} fill="#6366F1" fillOpacity={0.15} />
+        ))}
+        {references.map(value => (
+          <ReferenceLine key={value} y={value} strokeDasharray="3 3" />
+        ))}
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => {
+                const point = payload?.[0]?.payload as GCWindow | undefined;
+                return point ? `${point.start + 1}-${point.end}` : "";
+              }}
+            />
+          }
+        />
+        {keys.map(key => (
+          <Line
+            key={key}
+            dataKey={key}
+            type="monotone"
+            stroke={`var(--color-${key})`}
+            dot={false}
+            strokeWidth={1.5}
+            isAnimationActive={false}
+          />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <select
+          value={windowSize}
+          onChange={(e) => setWindowSize(Number(e.target.value))}
+          className="p-1 border rounded bg-background"
+          title="Window size"
+        >
+          {windowSizes.map(size => (
+            <option key={size} value={size}>{size} bp window</option>
+          ))}
+        </select>
+        <select
+          value={step}
+          onChange={(e) => setStep(Number(e.target.value))}
+          className="p-1 border rounded bg-background"
+          title="Step"
+        >
+          {stepSizes.map(size => (
+            <option key={size} value={size}>Step {size} bp</option>
+          ))}
+        </select>
+      </div>
+
+      {chart(["gc"], [0, 100], [gcLimits.low, average, gcLimits.high])}
+      {chart(["gcSkew", "atSkew"], [-1, 1], [0])}
+
+      <div className="text-xs text-muted-foreground">
+        {outside
+          ? `${outside} of ${windows.length} windows have GC below ${gcLimits.low}% or above ${gcLimits.high}%.`
+          : `All windows are within ${gcLimits.low}-${gcLimits.high}% GC.`}
+        {effectiveStep > step && ` Step raised to ${effectiveStep} bp for this length.`}
+        {" "}Click the plot to select a window.
+      </div>
+    </div>
+  );
+}
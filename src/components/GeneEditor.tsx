@@ -9,135 +9,188 @@ import { toast } from "sonner";
 import { UploadButton } from "./UploadButton";
 import { SequenceEditor } from "./SequenceEditor";
 import { SequenceStats } from "./SequenceStats";
+import { OligoAnalyzer } from "./OligoAnalyzer";
 import { AIAssistant } from "./AIAssistant";
 import { VisualizerPanel } from "./VisualizerPanel";
-import { cleanGeneSequence } from "@/lib/sequenceUtils";
+import { RecordPickerDialog } from "./RecordPickerDialog";
+import { HistoryControls } from "./HistoryControls";
+import {
+  annotationsForSequence,
+  isAnnotationFile,
+  parseAnnotationFile,
+  parseSequenceFile,
+  SequenceRecord
+} from "@/lib/formats";
+import { Annotation, Note, validateAnnotations } from "@/lib/features";
+import { rangeLength } from "@/lib/sequenceUtils";
 import { exampleSequences } from "@/data/exampleSequences";
+import { SequenceEditOptions, useProject } from "@/hooks/use-project";
 
-export function GeneEditor() {
-  const [sequence, setSequence] = useState<string>("");
-  const [sequenceType, setSequenceType] = useState<"dna" | "rna" | "protein" | "unknown">("unknown");
-  const [selectedRange, setSelectedRange] = useState<{start: number, end: number} | null>(null);
-  const [annotations, setAnnotations] = useState<any[]>([]);
-  const [notes, setNotes] = useState<any[]>([]);
+interface GeneEditorProps {
+  projectName?: string;
+  onProjectNameChange?: (name: string) => void;
+}
+
+export function GeneEditor({ projectName = "", onProjectNameChange }: GeneEditorProps) {
+  const {
+    sequence,
+    setSequence,
+    sequenceType,
+    annotations,
+    notes,
+    topology,
+    setTopology,
+    setOrigin,
+    metadata,
+    selectedRange,
+    setSelectedRange,
+    editDocument,
+    undo,
+    redo,
+    loadRecord: loadProjectRecord,
+    clearProject
+  } = useProject();
   const [seqvizRef, setSeqvizRef] = useState<any>(null);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [pendingRecords, setPendingRecords] = useState<SequenceRecord[]>([]);
+  const [showRecordPicker, setShowRecordPicker] = useState<boolean>(false);
+  // Rare codons picked out in the Codons section, shaded on the map
+  const [rareCodons, setRareCodons] = useState<{ start: number; end: number }[]>([]);
+  const rareCodonHighlights = rareCodons.map(range => ({ ...range, color: "#F87171", name: "Rare codon" }));
   const editorRef = useRef<HTMLDivElement>(null);
 
-  // On mount, check localStorage for saved sequence and data
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) anywhere except other text fields, which keep their own undo
   useEffect(() => {
-    try {
-      const savedSequence = localStorage.getItem("geneforge-sequence");
-      const savedAnnotations = localStorage.getItem("geneforge-annotations");
-      const savedNotes = localStorage.getItem("geneforge-notes");
-      
-      if (savedSequence) {
-        setSequence(savedSequence);
-        detectSequenceType(savedSequence);
-      }
-      
-      if (savedAnnotations) {
-        setAnnotations(JSON.parse(savedAnnotations));
-      }
-      
-      if (savedNotes) {
-        setNotes(JSON.parse(savedNotes));
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const key = e.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+
+      const target = e.target as HTMLElement;
+      const isTextField = target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable;
+      if (isTextField && !target.classList.contains("sequence-editor")) return;
+
+      e.preventDefault();
+      if (key === "y" || e.shiftKey) {
+        redo();
+      } else {
+        undo();
       }
-    } catch (error) {
-      console.error("Error loading saved data:", error);
-    }
-  }, []);
+    };
 
-  // Save data to localStorage whenever it changes
-  useEffect(() => {
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  const addExampleSequence = (example: string) => {
     try {
-      if (sequence) {
-        localStorage.setItem("geneforge-sequence", sequence);
-      }
-      
-      if (annotations.length) {
-        localStorage.setItem("geneforge-annotations", JSON.stringify(annotations));
-      }
-      
-      if (notes.length) {
-        localStorage.setItem("geneforge-notes", JSON.stringify(notes));
+      const selectedExample = exampleSequences.find(ex => ex.name === example);
+      if (selectedExample) {
+        editDocument(`Load ${selectedExample.name} example`, {
+          sequence: selectedExample.sequence,
+          annotations: selectedExample.annotations || [],
+          topology: selectedExample.topology,
+          metadata: {}
+        });
+        toast.success(`Loaded example: ${selectedExample.name}`);
       }
     } catch (error) {
-      console.error("Error saving data to localStorage:", error);
+      console.error("Error loading example sequence:", error);
+      toast.error("Failed to load example sequence");
     }
-  }, [sequence, annotations, notes]);
+  };
 
-  // Detect sequence type whenever sequence changes
-  useEffect(() => {
-    if (sequence) {
-      detectSequenceType(sequence);
+  // Replace the current sequence with a record read from a file
+  const loadRecord = (record: SequenceRecord) => {
+    loadProjectRecord(record);
+    
+    if (onProjectNameChange && record.name) {
+      onProjectNameChange(record.name);
     }
-  }, [sequence]);
+  };
 
-  const detectSequenceType = (seq: string) => {
-    if (!seq) {
-      setSequenceType("unknown");
+  // Lay GFF3/BED features over the loaded sequence
+  const importAnnotationFile = (content: string, fileName: string) => {
+    if (!sequence) {
+      toast.error("Load a sequence before importing annotations");
       return;
     }
     
-    const cleanSeq = seq.replace(/\s+/g, "").toUpperCase();
+    const annotationSet = parseAnnotationFile(content, fileName);
+    const sequenceName = metadata.accession || projectName;
+    const candidates = annotationsForSequence(annotationSet, sequenceName);
+    const seqids = Object.keys(annotationSet.bySeqid);
     
-    if (!cleanSeq.length) {
-      setSequenceType("unknown");
+    if (!candidates.length && seqids.length > 1) {
+      toast.error(
+        `${fileName} covers ${seqids.length} sequences (${seqids.slice(0, 3).join(", ")}${seqids.length > 3 ? ", ..." : ""}) ` +
+        `and none is named ${sequenceName}; use Import to choose one`
+      );
       return;
     }
+    const { valid, invalid } = validateAnnotations(candidates, sequence.length, topology === "circular");
     
-    // Check if mostly DNA nucleotides
-    const dnaRegex = /^[ATGCN]+$/;
-    
-    // Check if mostly RNA nucleotides
-    const rnaRegex = /^[AUGCN]+$/;
+    if (!valid.length) {
+      toast.error(`No features in ${fileName} fit within the ${sequence.length} bp sequence`);
+      return;
+    }
     
-    // Check if mostly protein amino acids
-    const proteinRegex = /^[ACDEFGHIKLMNPQRSTVWY]+$/;
+    editDocument(`Import ${fileName}`, { annotations: [...annotations, ...valid] });
+    toast.success(`Added ${valid.length} features from ${annotationSet.name}`);
     
-    if (dnaRegex.test(cleanSeq)) {
-      setSequenceType("dna");
-    } else if (rnaRegex.test(cleanSeq)) {
-      setSequenceType("rna");
-    } else if (proteinRegex.test(cleanSeq)) {
-      setSequenceType("protein");
-    } else {
-      setSequenceType("unknown");
+    if (invalid.length) {
+      toast.warning(`Skipped ${invalid.length} features outside the sequence (1-${sequence.length})`);
     }
   };
 
-  const addExampleSequence = (example: string) => {
-    try {
-      const selectedExample = exampleSequences.find(ex => ex.name === example);
-      if (selectedExample) {
-        setSequence(selectedExample.sequence);
-        setAnnotations(selectedExample.annotations || []);
-        toast.success(`Loaded example: ${selectedExample.name}`);
-      }
-    } catch (error) {
-      console.error("Error loading example sequence:", error);
-      toast.error("Failed to load example sequence");
-    }
-  };
-
-  const handleFileUpload = (content: string) => {
+  const handleFileUpload = (content: string | ArrayBuffer, fileName: string) => {
     try {
       setIsProcessing(true);
-      const cleanedSequence = cleanGeneSequence(content);
-      setSequence(cleanedSequence);
-      toast.success("Sequence uploaded successfully");
+      
+      if (typeof content === "string" && isAnnotationFile(content, fileName)) {
+        importAnnotationFile(content, fileName);
+        return;
+      }
+      
+      const records = parseSequenceFile(content, fileName);
+      
+      // Let the user choose when the file holds several records
+      if (records.length > 1) {
+        setPendingRecords(records);
+        setShowRecordPicker(true);
+        return;
+      }
+      
+      handleRecordSelect(records[0]);
     } catch (error) {
-      toast.error("Failed to process file");
+      toast.error(error instanceof Error ? error.message : "Failed to process file");
       console.error(error);
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const handleSequenceChange = (newSequence: string) => {
+  const handleRecordSelect = (record: SequenceRecord) => {
+    loadRecord(record);
+    toast.success(`Loaded ${record.name} (${record.sequence.length} bp, ${record.annotations.length} features)`);
+  };
+
+  const handleSequenceChange = (newSequence: string, label?: string, options?: SequenceEditOptions) => {
     try {
-      setSequence(newSequence);
+      const changes = setSequence(newSequence, label, options);
+      
+      // One toast that updates in place, so typing through a feature doesn't stack them
+      if (changes.length) {
+        const damaged = changes.some(change => change.kind !== "split");
+        const description = changes.slice(0, 5).map(change => `${change.name}: ${change.detail}`).join("; ");
+        const more = changes.length > 5 ? `; and ${changes.length - 5} more` : "";
+        const show = damaged ? toast.warning : toast.info;
+        show(damaged ? "This edit changed annotated regions" : "Annotations were split", {
+          id: "sequence-edit",
+          description: description + more
+        });
+      }
     } catch (error) {
       console.error("Error updating sequence:", error);
       toast.error("Error updating sequence");
@@ -148,13 +201,13 @@ export function GeneEditor() {
     setSelectedRange(range);
   };
 
-  const handleAnnotationAdd = (annotation: any) => {
+  const handleAnnotationAdd = (annotation: Pick<Annotation, "name" | "color" | "type" | "direction">) => {
     if (!selectedRange) {
       toast.error("Please select a sequence range first");
       return;
     }
     
-    const newAnnotation = {
+    const newAnnotation: Annotation = {
       name: annotation.name || "New Annotation",
       start: selectedRange.start,
       end: selectedRange.end,
@@ -163,15 +216,15 @@ export function GeneEditor() {
       type: annotation.type || "misc"
     };
     
-    setAnnotations([...annotations, newAnnotation]);
+    editDocument(`Add annotation ${newAnnotation.name}`, { annotations: [...annotations, newAnnotation] });
     toast.success(`Added annotation: ${newAnnotation.name}`);
   };
 
   // Handle adding a note
-  const handleNoteAdd = (note: any) => {
+  const handleNoteAdd = (note: Pick<Note, "title" | "content">) => {
     const range = selectedRange || { start: 0, end: sequence.length };
     
-    const newNote = {
+    const newNote: Note = {
       title: note.title || "Note",
       content: note.content || "",
       start: range.start,
@@ -179,10 +232,18 @@ export function GeneEditor() {
       createdAt: new Date().toISOString()
     };
     
-    setNotes([...notes, newNote]);
+    editDocument(`Add note ${newNote.title}`, { notes: [...notes, newNote] });
     toast.success(`Added note: ${newNote.title}`);
   };
 
+  // Make the start of the selection base 1 of the circular sequence
+  const setOriginAtSelection = () => {
+    if (!selectedRange) return;
+    
+    setOrigin(selectedRange.start);
+    toast.success(`Origin moved to position ${selectedRange.start + 1}`);
+  };
+
   // Scroll to a specific position in the editor
   const scrollToPosition = (position: number) => {
     if (editorRef.current) {
@@ -193,13 +254,10 @@ export function GeneEditor() {
 
   // Function to clear the sequence and associated data
   const clearSequence = () => {
-    setSequence("");
-    setAnnotations([]);
-    setNotes([]);
-    localStorage.removeItem("geneforge-sequence");
-    localStorage.removeItem("geneforge-annotations");
-    localStorage.removeItem("geneforge-notes");
-    toast.success("Sequence cleared");
+    clearProject();
+    toast.success("Sequence cleared", {
+      action: { label: "Undo", onClick: undo }
+    });
   };
 
   return (
@@ -211,9 +269,20 @@ export function GeneEditor() {
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-xl font-bold">Sequence Editor</h2>
               <div className="flex items-center space-x-2">
+                <HistoryControls />
                 <Badge variant={sequenceType === "unknown" ? "outline" : "secondary"}>
                   {sequenceType === "unknown" ? "Type: Unknown" : `Type: ${sequenceType.toUpperCase()}`}
                 </Badge>
+                {sequence && (
+                  <Badge
+                    variant="outline"
+                    className="cursor-pointer"
+                    title={`${metadata.definition ? `${metadata.definition}\n` : ""}Click to make ${topology === "circular" ? "linear" : "circular"}`}
+                    onClick={() => setTopology(topology === "circular" ? "linear" : "circular")}
+                  >
+                    {topology === "circular" ? "Circular" : "Linear"}
+                  </Badge>
+                )}
                 <UploadButton onUpload={handleFileUpload} />
                 <Button
                   variant="outline"
@@ -231,18 +300,34 @@ export function GeneEditor() {
               setSequence={handleSequenceChange} 
               onRangeSelect={handleRangeSelection}
               sequenceType={sequenceType}
+              topology={topology}
               notes={notes}
               onNoteAdd={handleNoteAdd}
               onAnnotationAdd={handleAnnotationAdd}
               selectedRange={selectedRange}
               onScrollToPosition={scrollToPosition}
+              projectName={projectName}
+              highlights={rareCodonHighlights}
             />
             
             <div className="mt-2 flex justify-between items-center">
-              <div className="text-sm text-muted-foreground">
-                {selectedRange ? 
-                  `Selected: ${selectedRange.start + 1}-${selectedRange.end} (${selectedRange.end - selectedRange.start} bp)` : 
-                  "No selection"}
+              <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                <span>
+                  {selectedRange ? 
+                    `Selected: ${selectedRange.start + 1}-${selectedRange.end} (${rangeLength(selectedRange, sequence.length)} bp)` : 
+                    "No selection"}
+                </span>
+                {topology === "circular" && selectedRange && selectedRange.start > 0 && (
+                  <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    className="h-6 px-2 text-xs"
+                    onClick={setOriginAtSelection}
+                    title="Rotate the sequence so the selection starts at base 1"
+                  >
+                    Set Origin Here
+                  </Button>
+                )}
               </div>
               <div className="flex space-x-2">
                 <Button 
@@ -267,8 +352,9 @@ export function GeneEditor() {
         </Card>
         
         <Tabs defaultValue="ai">
-          <TabsList className="grid grid-cols-2">
+          <TabsList className="grid grid-cols-3">
             <TabsTrigger value="stats">Sequence Stats</TabsTrigger>
+            <TabsTrigger value="oligo">Oligo</TabsTrigger>
             <TabsTrigger value="ai">AI Assistant</TabsTrigger>
           </TabsList>
           <TabsContent value="stats" className="mt-2">
@@ -278,6 +364,21 @@ export function GeneEditor() {
                   sequence={sequence} 
                   sequenceType={sequenceType} 
                   annotations={annotations}
+                  topology={topology}
+                  selectedRange={selectedRange}
+                  onRangeSelect={handleRangeSelection}
+                  onHighlight={setRareCodons}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+          <TabsContent value="oligo" className="mt-2">
+            <Card>
+              <CardContent className="p-4 pt-2">
+                <OligoAnalyzer
+                  sequence={sequence}
+                  sequenceType={sequenceType}
+                  selectedRange={selectedRange}
                 />
               </CardContent>
             </Card>
@@ -308,10 +409,20 @@ export function GeneEditor() {
             onRangeSelect={handleRangeSelection}
             setSeqvizRef={setSeqvizRef}
             notes={notes}
+            topology={topology}
+            projectName={projectName}
             onScrollToPosition={scrollToPosition}
+            highlights={rareCodonHighlights}
           />
         </CardContent>
       </Card>
+      
+      <RecordPickerDialog
+        records={pendingRecords}
+        isOpen={showRecordPicker}
+        setIsOpen={setShowRecordPicker}
+        onSelect={handleRecordSelect}
+      />
     </div>
   );
 }
@@ -6,6 +6,11 @@ import { Dna, Save, Download, Upload, Coffee, FileText, Menu } from "lucide-reac
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { toast } from "sonner";
 import { AboutDialog } from "./AboutDialog";
+import { ExportDialog } from "./ExportDialog";
+import { ImportDialog } from "./ImportDialog";
+import { useProject } from "@/hooks/use-project";
+import { buildLabReport } from "@/lib/report";
+import { downloadFile, toFileName } from "@/lib/download";
 
 type HeaderProps = {
   project: {
@@ -19,6 +24,10 @@ export function Header({ project, setProject }: HeaderProps) {
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [tempTitle, setTempTitle] = useState(project.name);
   const [isAboutOpen, setIsAboutOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  const { sequence, sequenceType, topology, annotations, notes, metadata } = useProject();
 
   const saveProjectName = () => {
     setProject({ ...project, name: tempTitle });
@@ -48,6 +57,33 @@ export function Header({ project, setProject }: HeaderProps) {
     toast.success("Project saved");
   };
 
+  const generateReport = async () => {
+    if (!sequence) {
+      toast.error("Load a sequence before generating a report");
+      return;
+    }
+
+    setIsGeneratingReport(true);
+    try {
+      const report = await buildLabReport({
+        projectName: project.name,
+        sequence,
+        sequenceType,
+        topology,
+        annotations,
+        notes,
+        metadata
+      });
+      downloadFile(report, toFileName(`${project.name}_report`, "pdf"));
+      toast.success("Lab report generated");
+    } catch (error) {
+      console.error("Error generating report:", error);
+      toast.error("Failed to generate lab report");
+    } finally {
+      setIsGeneratingReport(false);
+    }
+  };
+
   return (
     <header className="border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container flex h-14 items-center">
@@ -71,6 +107,23 @@ export function Header({ project, setProject }: HeaderProps) {
                   <Save className="mr-2 h-4 w-4" />
                   Save Project
                 </Button>
+                <Button variant="ghost" className="justify-start" onClick={() => setIsImportOpen(true)}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import
+                </Button>
+                <Button variant="ghost" className="justify-start" onClick={() => setIsExportOpen(true)}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export
+                </Button>
+                <Button
+                  variant="ghost"
+                  className="justify-start"
+                  onClick={generateReport}
+                  disabled={isGeneratingReport}
+                >
+                  <FileText className="mr-2 h-4 w-4" />
+                  Lab Report
+                </Button>
                 <Button variant="ghost" className="justify-start" onClick={() => setIsAboutOpen(true)}>
                   <Coffee className="mr-2 h-4 w-4" />
                   About
@@ -117,14 +170,18 @@ export function Header({ project, setProject }: HeaderProps) {
               <Save className="h-4 w-4 mr-2" />
               Save
             </Button>
-            <Button variant="outline" size="sm">
+            <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)}>
               <Upload className="h-4 w-4 mr-2" />
               Import
             </Button>
-            <Button variant="outline" size="sm">
+            <Button variant="outline" size="sm" onClick={() => setIsExportOpen(true)}>
               <Download className="h-4 w-4 mr-2" />
               Export
             </Button>
+            <Button variant="outline" size="sm" onClick={generateReport} disabled={isGeneratingReport}>
+              <FileText className="h-4 w-4 mr-2" />
+              {isGeneratingReport ? "Generating..." : "Report"}
+            </Button>
             <Button variant="ghost" size="sm" onClick={() => setIsAboutOpen(true)}>
               <Coffee className="h-4 w-4" />
             </Button>
@@ -132,6 +189,13 @@ export function Header({ project, setProject }: HeaderProps) {
         </div>
       </div>
       <AboutDialog isOpen={isAboutOpen} setIsOpen={setIsAboutOpen} />
+      <ExportDialog isOpen={isExportOpen} setIsOpen={setIsExportOpen} projectName={project.name} />
+      <ImportDialog
+        isOpen={isImportOpen}
+        setIsOpen={setIsImportOpen}
+        onProjectNameChange={(name) => setProject({ ...project, name })}
+        projectName={project.name}
+      />
     </header>
   );
 }
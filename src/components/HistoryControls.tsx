@@ -0,0 +1,95 @@
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { History, Redo2, Undo2 } from "lucide-react";
+import { useProject } from "@/hooks/use-project";
+
+// Undo/redo buttons plus a list of recorded steps that can be jumped between
+export function HistoryControls() {
+  const { history, undo, redo, travelHistory } = useProject();
+  const { past, future } = history;
+
+  const lastUndo = past[past.length - 1];
+  const nextRedo = future[0];
+
+  const time = (value: number) =>
+    new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+  return (
+    <div className="flex items-center">
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={undo} disabled={!lastUndo}>
+              <Undo2 className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>{lastUndo ? `Undo ${lastUndo.label} (Ctrl+Z)` : "Nothing to undo"}</TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={redo} disabled={!nextRedo}>
+              <Redo2 className="h-4 w-4" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>{nextRedo ? `Redo ${nextRedo.label} (Ctrl+Shift+Z)` : "Nothing to redo"}</TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            disabled={!past.length && !future.length}
+            title="Edit history"
+          >
+            <History className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 p-2">
+          <div className="text-sm font-medium px-2 pb-2">Edit History</div>
+          <div className="max-h-72 overflow-y-auto space-y-0.5">
+            <button
+              className={`w-full text-left text-xs px-2 py-1 rounded hover:bg-secondary ${
+                !past.length ? "bg-secondary font-medium" : ""
+              }`}
+              onClick={() => travelHistory(-past.length)}
+            >
+              Earliest state
+            </button>
+            {past.map((entry, index) => (
+              <button
+                key={`past-${index}`}
+                className={`w-full flex justify-between text-left text-xs px-2 py-1 rounded hover:bg-secondary ${
+                  index === past.length - 1 ? "bg-secondary font-medium" : ""
+                }`}
+                onClick={() => travelHistory(index + 1 - past.length)}
+              >
+                <span className="truncate">{entry.label}</span>
+                <span className="text-muted-foreground ml-2">{time(entry.time)}</span>
+              </button>
+            ))}
+            {future.map((entry, index) => (
+              <button
+                key={`future-${index}`}
+                className="w-full flex justify-between text-left text-xs px-2 py-1 rounded text-muted-foreground opacity-60 hover:bg-secondary"
+                onClick={() => travelHistory(index + 1)}
+              >
+                <span className="truncate">{entry.label}</span>
+                <span className="ml-2">{time(entry.time)}</span>
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground px-2 pt-2">
+            Click a step to go back to it. Undone steps stay listed until the next edit.
+          </p>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
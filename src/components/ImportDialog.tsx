@@ -0,0 +1,314 @@
+import { useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { FileUp } from "lucide-react";
+import { toast } from "sonner";
+import { useProject } from "@/hooks/use-project";
+import { AIHistoryEntry, Note, validateAnnotations } from "@/lib/features";
+import {
+  AnnotationSet,
+  binaryFileExtensions,
+  bundleToRecord,
+  isAnnotationFile,
+  isProjectBundle,
+  matchSeqid,
+  parseAnnotationFile,
+  parseProjectBundle,
+  parseSequenceFile,
+  SequenceRecord,
+  sequenceFileExtensions
+} from "@/lib/formats";
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  onProjectNameChange: (name: string) => void;
+  projectName?: string;
+}
+
+// A record ready to import, with the project-only parts of a bundle
+type ImportCandidate = {
+  record: SequenceRecord;
+  notes: Note[];
+  aiHistory: AIHistoryEntry[];
+};
+
+// Project bundles plus every sequence format; annotation-only files add features to the loaded sequence
+const importExtensions = ["json", ...sequenceFileExtensions];
+
+export function ImportDialog({ isOpen, setIsOpen, onProjectNameChange, projectName = "" }: ImportDialogProps) {
+  const { sequence, annotations, notes, topology, metadata, loadRecord, appendRecord, editDocument } = useProject();
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [annotationSet, setAnnotationSet] = useState<AnnotationSet | null>(null);
+  const [seqid, setSeqid] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [showConfirm, setShowConfirm] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const candidate = candidates[selectedIndex];
+
+  const reset = () => {
+    setCandidates([]);
+    setSelectedIndex(0);
+    setAnnotationSet(null);
+    setSeqid("");
+    setFileName("");
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) reset();
+  };
+
+  // Turn file contents into import candidates
+  const readCandidates = (content: string | ArrayBuffer, name: string): ImportCandidate[] => {
+    if (typeof content === "string" && isProjectBundle(content)) {
+      const bundle = parseProjectBundle(content);
+      return [{ record: bundleToRecord(bundle), notes: bundle.notes, aiHistory: bundle.aiHistory || [] }];
+    }
+
+    return parseSequenceFile(content, name).map(record => ({ record, notes: record.notes || [], aiHistory: [] }));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const extension = file.name.split(".").pop()?.toLowerCase() || "";
+    if (!importExtensions.includes(extension)) {
+      toast.error(`Unsupported file type. Please choose ${importExtensions.map(ext => `.${ext}`).join(", ")} files.`);
+      return;
+    }
+
+    const reader = new FileReader();
+
+    reader.onload = (event) => {
+      try {
+        const content = event.target?.result;
+        if (!content) throw new Error("Failed to read file");
+
+        // Annotation files go over the loaded sequence, from the sequence id the user picks
+        if (typeof content === "string" && isAnnotationFile(content, file.name)) {
+          if (!sequence) throw new Error("Load a sequence before importing annotations");
+          const set = parseAnnotationFile(content, file.name);
+          setCandidates([]);
+          setAnnotationSet(set);
+          setSeqid(matchSeqid(set, metadata.accession || projectName) || "");
+          setFileName(file.name);
+          return;
+        }
+
+        setCandidates(readCandidates(content, file.name));
+        setSelectedIndex(0);
+        setAnnotationSet(null);
+        setFileName(file.name);
+      } catch (error) {
+        console.error("Error importing file:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to import file");
+      }
+    };
+
+    reader.onerror = () => {
+      toast.error("Error reading file");
+    };
+
+    if (binaryFileExtensions.includes(extension)) {
+      reader.readAsArrayBuffer(file);
+    } else {
+      reader.readAsText(file);
+    }
+  };
+
+  const replaceProject = () => {
+    if (!candidate) return;
+
+    loadRecord(candidate.record, { notes: candidate.notes, aiHistory: candidate.aiHistory });
+    onProjectNameChange(candidate.record.name);
+    toast.success(`Opened ${candidate.record.name}`);
+    handleOpenChange(false);
+  };
+
+  const handleReplace = () => {
+    // Ask before throwing away the sequence that is currently open
+    if (sequence) {
+      setShowConfirm(true);
+    } else {
+      replaceProject();
+    }
+  };
+
+  const handleAppend = () => {
+    if (!candidate) return;
+
+    const clippedNotes = appendRecord(candidate.record, { notes: candidate.notes, aiHistory: candidate.aiHistory });
+    toast.success(`Added ${candidate.record.name} to the end of the sequence`);
+    if (clippedNotes) {
+      toast.warning(`Clipped ${clippedNotes} note${clippedNotes === 1 ? "" : "s"} that crossed the origin of a circular sequence`);
+    }
+    handleOpenChange(false);
+  };
+
+  const addFeatures = () => {
+    if (!annotationSet || !seqid) return;
+
+    const { valid, invalid } = validateAnnotations(annotationSet.bySeqid[seqid], sequence.length, topology === "circular");
+    if (!valid.length) {
+      toast.error(`No features for ${seqid} fit within the ${sequence.length} bp sequence`);
+      return;
+    }
+
+    editDocument(`Import ${fileName}`, { annotations: [...annotations, ...valid] });
+    toast.success(`Added ${valid.length} features from ${annotationSet.name}`);
+    if (invalid.length) {
+      toast.warning(`Skipped ${invalid.length} features outside the sequence (1-${sequence.length})`);
+    }
+    handleOpenChange(false);
+  };
+
+  const seqids = annotationSet ? Object.keys(annotationSet.bySeqid) : [];
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Import</DialogTitle>
+            <DialogDescription>
+              Open a GeneForge project bundle or a sequence file (GenBank, EMBL, FASTA, SnapGene, SBOL3),
+              or add GFF3/BED features to the open sequence.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              accept={importExtensions.map(ext => `.${ext}`).join(",")}
+              onChange={handleFileChange}
+            />
+            <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+              <FileUp className="h-4 w-4 mr-2" />
+              {fileName || "Choose file..."}
+            </Button>
+
+            {candidates.length > 1 && (
+              <select
+                value={selectedIndex}
+                onChange={(e) => setSelectedIndex(Number(e.target.value))}
+                className="w-full p-2 border rounded text-sm"
+              >
+                {candidates.map((item, index) => (
+                  <option key={index} value={index}>
+                    {item.record.name} ({item.record.sequence.length})
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {annotationSet && (
+              <div className="rounded border p-3 space-y-2">
+                <div className="font-medium">{annotationSet.name}</div>
+                {seqids.length > 1 && (
+                  <>
+                    <div className="text-xs text-muted-foreground">
+                      The file covers {seqids.length} sequences. Choose the one that matches the open sequence;
+                      the others' coordinates don't apply to it.
+                    </div>
+                    <select
+                      value={seqid}
+                      onChange={(e) => setSeqid(e.target.value)}
+                      className="w-full p-2 border rounded text-sm"
+                    >
+                      {!seqid && <option value="">Choose a sequence id...</option>}
+                      {seqids.map(id => (
+                        <option key={id} value={id}>
+                          {id} ({annotationSet.bySeqid[id].length} features)
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant="outline">{annotationSet.format.toUpperCase()}</Badge>
+                  {seqid && <Badge variant="secondary">{annotationSet.bySeqid[seqid].length} features for {seqid}</Badge>}
+                </div>
+              </div>
+            )}
+
+            {candidate && (
+              <div className="rounded border p-3 space-y-2">
+                <div className="font-medium">{candidate.record.name}</div>
+                {candidate.record.description && (
+                  <div className="text-xs text-muted-foreground">{candidate.record.description}</div>
+                )}
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant="outline">{candidate.record.sequence.length} residues</Badge>
+                  <Badge variant="outline">{candidate.record.topology}</Badge>
+                  <Badge variant="secondary">{candidate.record.annotations.length} annotations</Badge>
+                  {candidate.notes.length > 0 && <Badge variant="secondary">{candidate.notes.length} notes</Badge>}
+                  {candidate.aiHistory.length > 0 && (
+                    <Badge variant="secondary">{candidate.aiHistory.length} AI responses</Badge>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            {annotationSet ? (
+              <Button onClick={addFeatures} disabled={!seqid}>
+                Add Features
+              </Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={handleAppend} disabled={!candidate || !sequence}>
+                  Add to Current Sequence
+                </Button>
+                <Button onClick={handleReplace} disabled={!candidate}>
+                  Replace Project
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showConfirm} onOpenChange={setShowConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace the current project?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The open sequence ({sequence.length} residues, {annotations.length} annotations, {notes.length} notes)
+              will be replaced. Export it first if you want to keep a copy. Saved AI responses are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={replaceProject}>Replace</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { FileImage, Image as ImageIcon, Printer } from "lucide-react";
+import { toast } from "sonner";
+import { Annotation } from "@/lib/features";
+import { Topology } from "@/lib/formats";
+import { findCutSites } from "@/lib/enzymes";
+import { buildMapFigure, MapView, printFigures, svgToPng } from "@/lib/mapFigure";
+import { downloadFile, toFileName } from "@/lib/download";
+
+interface MapExportDialogProps {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  projectName: string;
+  sequence: string;
+  annotations: Annotation[];
+  enzymes: string[];
+  topology: Topology;
+}
+
+// PNG sizes offered, as multiples of the SVG size
+const pngScales = [1, 2, 3, 4];
+
+export function MapExportDialog({
+  isOpen,
+  setIsOpen,
+  projectName,
+  sequence,
+  annotations,
+  enzymes,
+  topology
+}: MapExportDialogProps) {
+  const [view, setView] = useState<MapView>(topology);
+  const [title, setTitle] = useState<string>(projectName);
+  const [showLegend, setShowLegend] = useState<boolean>(true);
+  const [showEnzymes, setShowEnzymes] = useState<boolean>(true);
+  const [scale, setScale] = useState<number>(2);
+
+  // Start from the current project each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setView(topology);
+      setTitle(projectName || "Untitled Sequence");
+    }
+  }, [isOpen, topology, projectName]);
+
+  const cutSites = useMemo(
+    () => (isOpen ? findCutSites(sequence, enzymes, topology === "circular") : []),
+    [isOpen, sequence, enzymes, topology]
+  );
+
+  const buildFigure = (figureView: MapView) => buildMapFigure({
+    title,
+    sequenceLength: sequence.length,
+    annotations,
+    cutSites,
+    view: figureView,
+    showLegend,
+    showEnzymes
+  });
+
+  const figure = isOpen && sequence ? buildFigure(view) : null;
+
+  const handleSvg = () => {
+    if (!figure) return;
+    downloadFile(figure.svg, toFileName(`${title}_${view}`, "svg"), "image/svg+xml");
+    toast.success("SVG exported");
+  };
+
+  const handlePng = async () => {
+    if (!figure) return;
+
+    try {
+      const blob = await svgToPng(figure, scale);
+      downloadFile(blob, toFileName(`${title}_${view}`, "png"));
+      toast.success("PNG exported");
+    } catch (error) {
+      console.error("Error exporting PNG:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export PNG");
+    }
+  };
+
+  // Print both maps for circular molecules, just the linear map otherwise
+  const handlePrint = () => {
+    try {
+      const views: MapView[] = topology === "circular" ? ["circular", "linear"] : ["linear"];
+      printFigures(title, views.map(buildFigure));
+    } catch (error) {
+      console.error("Error printing map:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to print map");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Export Map</DialogTitle>
+          <DialogDescription>
+            Save the sequence map as a figure for slides or papers, or print it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-[1fr_220px]">
+          <div className="border rounded bg-white flex items-center justify-center min-h-[300px] max-h-[60vh] overflow-auto">
+            {figure && (
+              <img
+                src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(figure.svg)}`}
+                alt={`${title} ${view} map`}
+                className="max-w-full h-auto"
+              />
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="map-title">Title</Label>
+              <Input id="map-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+
+            <RadioGroup value={view} onValueChange={(value) => setView(value as MapView)}>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="circular" id="map-circular" />
+                <Label htmlFor="map-circular">Circular map</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="linear" id="map-linear" />
+                <Label htmlFor="map-linear">Linear map</Label>
+              </div>
+            </RadioGroup>
+
+            <div className="space-y-2 border-t pt-4">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="map-legend"
+                  checked={showLegend}
+                  onCheckedChange={(checked) => setShowLegend(checked === true)}
+                />
+                <Label htmlFor="map-legend">Color legend</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="map-enzymes"
+                  checked={showEnzymes}
+                  onCheckedChange={(checked) => setShowEnzymes(checked === true)}
+                  disabled={!enzymes.length}
+                />
+                <Label htmlFor="map-enzymes" className={!enzymes.length ? "text-muted-foreground" : ""}>
+                  {enzymes.length ? `Enzymes (${cutSites.length} cut sites)` : "Enzymes (none selected)"}
+                </Label>
+              </div>
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <Label htmlFor="map-scale">PNG resolution</Label>
+              <select
+                id="map-scale"
+                value={scale}
+                onChange={(e) => setScale(Number(e.target.value))}
+                className="w-full p-2 border rounded text-sm"
+              >
+                {pngScales.map(option => (
+                  <option key={option} value={option}>
+                    {option}x{figure ? ` (${figure.width * option} × ${figure.height * option} px)` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handlePrint} disabled={!figure}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          <Button variant="outline" onClick={handleSvg} disabled={!figure}>
+            <FileImage className="h-4 w-4 mr-2" />
+            SVG
+          </Button>
+          <Button onClick={handlePng} disabled={!figure}>
+            <ImageIcon className="h-4 w-4 mr-2" />
+            PNG
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
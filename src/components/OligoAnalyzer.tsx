@@ -0,0 +1,147 @@
+import { useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { analyzeOligo, maxStructureLength } from "@/lib/oligo";
+import { defaultThermoOptions, Structure, ThermoOptions } from "@/lib/thermo";
+import { getRangeSequence } from "@/lib/sequenceUtils";
+
+interface OligoAnalyzerProps {
+  sequence: string;
+  sequenceType: "dna" | "rna" | "protein" | "unknown";
+  selectedRange: { start: number; end: number } | null;
+}
+
+// Selections longer than this are too long to be an oligo
+const maxOligoLength = 500;
+
+const conditionFields: { key: keyof ThermoOptions; label: string; step: number }[] = [
+  { key: "na", label: "Na+ (mM)", step: 1 },
+  { key: "mg", label: "Mg2+ (mM)", step: 0.1 },
+  { key: "dntp", label: "dNTPs (mM)", step: 0.1 },
+  { key: "oligoConc", label: "Oligo (nM)", step: 1 }
+];
+
+// Oligo properties of the selected bases: Tm, mass, absorbance and secondary structure
+export function OligoAnalyzer({ sequence, sequenceType, selectedRange }: OligoAnalyzerProps) {
+  const [conditions, setConditions] = useState<Required<ThermoOptions>>(defaultThermoOptions);
+
+  const oligo = useMemo(
+    () => (selectedRange ? getRangeSequence(sequence, selectedRange).toUpperCase() : ""),
+    [sequence, selectedRange]
+  );
+
+  const properties = useMemo(
+    () => (oligo && oligo.length <= maxOligoLength ? analyzeOligo(oligo, conditions) : null),
+    [oligo, conditions]
+  );
+
+  if (sequenceType !== "dna" && sequenceType !== "rna") {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        The oligo analyzer works on DNA and RNA sequences.
+      </div>
+    );
+  }
+
+  if (!oligo) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Select bases in the editor or map to analyze them as an oligo.
+      </div>
+    );
+  }
+
+  if (!properties) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        The selection is {oligo.length} bp; select at most {maxOligoLength} bases.
+      </div>
+    );
+  }
+
+  const values = [
+    { label: "Length", value: `${properties.length} nt` },
+    { label: "GC Content", value: `${properties.gc.toFixed(1)}%` },
+    { label: "Tm (basic)", value: `${properties.basicTm.toFixed(1)} °C` },
+    { label: "Tm (nearest-neighbor)", value: `${properties.nearestNeighborTm.toFixed(1)} °C` },
+    { label: "Molecular Weight", value: `${properties.molecularWeight.toFixed(1)} g/mol` },
+    { label: "Extinction (260 nm)", value: `${properties.extinction.toLocaleString()} L/(mol·cm)` },
+    { label: "nmol/OD", value: properties.nmolPerOD.toFixed(2) },
+    { label: "µg/OD", value: properties.ugPerOD.toFixed(1) }
+  ];
+
+  const structureRow = (label: string, structure: Structure | null) => {
+    const strong = structure && (structure.dG < -6 || (structure.threePrime && structure.dG < -5));
+    return (
+      <div className="flex items-start justify-between text-sm py-1 border-t first:border-t-0">
+        <span className="font-medium">{label}</span>
+        {structure ? (
+          <span className={`text-right ${strong ? "text-amber-600" : ""}`}>
+            ΔG {structure.dG.toFixed(1)} kcal/mol · {structure.length} bp
+            {structure.threePrime ? " · 3' end" : ""}
+            <span className="block font-mono text-xs text-muted-foreground">
+              {oligo.slice(structure.start, structure.start + structure.length)}
+              {label === "Hairpin" && ` … ${oligo.slice(structure.end - structure.length, structure.end)}`}
+            </span>
+          </span>
+        ) : (
+          <span className="text-muted-foreground">none found</span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="font-mono text-xs break-all max-h-16 overflow-y-auto bg-secondary/30 rounded p-2">
+        5'-{oligo}-3'
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {values.map(item => (
+          <div key={item.label} className="bg-secondary/50 p-2 rounded-lg">
+            <div className="text-xs font-medium text-muted-foreground">{item.label}</div>
+            <div className="text-sm font-bold">{item.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium mb-2">Conditions</h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {conditionFields.map(field => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`oligo-${field.key}`} className="text-xs">{field.label}</Label>
+              <Input
+                id={`oligo-${field.key}`}
+                type="number"
+                min={0}
+                step={field.step}
+                value={conditions[field.key]}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (e.target.value !== "" && value >= 0) setConditions({ ...conditions, [field.key]: value });
+                }}
+                className="h-8 text-sm"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium mb-2">Secondary Structure</h3>
+        {properties.structuresChecked ? (
+          <div className="bg-secondary/30 rounded p-2">
+            {structureRow("Hairpin", properties.hairpin)}
+            {structureRow("Self-dimer", properties.selfDimer)}
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground">
+            Hairpins and dimers are only searched in oligos up to {maxStructureLength} nt.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FilePlus } from "lucide-react";
+import { toast } from "sonner";
+import { useProject } from "@/hooks/use-project";
+import { Annotation } from "@/lib/features";
+import { BindingSite, findBindingSites, PCRPrimer, simulatePCR } from "@/lib/pcr";
+import { getRangeSequence, reverseComplement } from "@/lib/sequenceUtils";
+
+interface PCRDialogProps {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  projectName?: string;
+}
+
+// Sequence of a primer_bind feature: its recorded sequence, or the bases it covers
+function primerSequence(sequence: string, annotation: Annotation): string {
+  const recorded = annotation.qualifiers?.note
+    ?.map(note => note.match(/^sequence:\s*([A-Za-z]+)/)?.[1])
+    .find(Boolean);
+  if (recorded) return recorded.toUpperCase();
+
+  const bases = getRangeSequence(sequence, annotation).toUpperCase();
+  return annotation.direction === -1 ? reverseComplement(bases) : bases;
+}
+
+const describeSite = (site: BindingSite) =>
+  `${site.start + 1}-${site.end} (${site.direction === 1 ? "top" : "bottom"} strand, ${site.annealed} nt annealed` +
+  `${site.mismatches ? `, ${site.mismatches} mismatch${site.mismatches > 1 ? "es" : ""}` : ""}` +
+  `${site.tail ? `, ${site.tail} nt tail` : ""})`;
+
+// Run a virtual PCR on the loaded sequence and open a product as a new sequence
+export function PCRDialog({ isOpen, setIsOpen, projectName = "sequence" }: PCRDialogProps) {
+  const { sequence, annotations, topology, editDocument } = useProject();
+  const [primers, setPrimers] = useState<PCRPrimer[]>([
+    { name: "Forward", sequence: "" },
+    { name: "Reverse", sequence: "" }
+  ]);
+  const [maxMismatches, setMaxMismatches] = useState<number>(2);
+  const [minAnnealing, setMinAnnealing] = useState<number>(15);
+  const [chosen, setChosen] = useState<number>(0);
+
+  const projectPrimers = useMemo(
+    () => annotations.filter(annotation => annotation.type.toLowerCase() === "primer_bind"),
+    [annotations]
+  );
+  const circular = topology === "circular";
+
+  // Start from the project's first two primers when it has some
+  useEffect(() => {
+    if (!isOpen || projectPrimers.length < 2) return;
+    setPrimers(current => current.some(primer => primer.sequence)
+      ? current
+      : projectPrimers.slice(0, 2).map(annotation => ({
+        name: annotation.name,
+        sequence: primerSequence(sequence, annotation)
+      })));
+  }, [isOpen, projectPrimers, sequence]);
+
+  const options = useMemo(
+    () => ({ maxMismatches, minAnnealing, circular }),
+    [maxMismatches, minAnnealing, circular]
+  );
+
+  const bindingSites = useMemo(
+    () => (isOpen ? primers.map(primer => findBindingSites(sequence, primer, options)) : []),
+    [isOpen, sequence, primers, options]
+  );
+
+  const products = useMemo(
+    () => (isOpen ? simulatePCR(sequence, primers.filter(primer => primer.sequence), annotations, options) : []),
+    [isOpen, sequence, primers, annotations, options]
+  );
+
+  useEffect(() => setChosen(0), [products]);
+
+  const product = products[chosen];
+
+  const updatePrimer = (index: number, update: Partial<PCRPrimer>) => {
+    setPrimers(primers.map((primer, i) => (i === index ? { ...primer, ...update } : primer)));
+  };
+
+  const pickProjectPrimer = (index: number, id: string) => {
+    const annotation = projectPrimers.find(item => item.id === id);
+    if (annotation) updatePrimer(index, { name: annotation.name, sequence: primerSequence(sequence, annotation) });
+  };
+
+  // Replace the workspace with the product; undo brings the template back
+  const openProduct = () => {
+    if (!product) return;
+    const name = `${product.forward.primer.name}-${product.reverse.primer.name}`;
+    editDocument(`Open PCR product ${name}`, {
+      sequence: product.sequence,
+      annotations: product.annotations,
+      notes: [],
+      topology: "linear",
+      metadata: {
+        definition: `PCR product of ${projectName} with ${product.forward.primer.name} and ${product.reverse.primer.name}`
+      }
+    });
+    setIsOpen(false);
+    toast.success(`Opened ${product.sequence.length} bp product (undo to return to the template)`);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Simulate PCR</DialogTitle>
+          <DialogDescription>
+            Find where two primers bind and predict the product, 5' tails included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {primers.map((primer, index) => (
+            <div key={index} className="space-y-1">
+              <div className="grid grid-cols-[140px_1fr_160px] gap-2">
+                <Input
+                  value={primer.name}
+                  onChange={(e) => updatePrimer(index, { name: e.target.value })}
+                  className="h-8 text-sm"
+                  placeholder={`Primer ${index + 1}`}
+                />
+                <Input
+                  value={primer.sequence}
+                  onChange={(e) => updatePrimer(index, { sequence: e.target.value.replace(/[^A-Za-z]/g, "").toUpperCase() })}
+                  className="h-8 text-sm font-mono"
+                  placeholder="5'-sequence-3'"
+                />
+                <select
+                  value=""
+                  onChange={(e) => pickProjectPrimer(index, e.target.value)}
+                  className="w-full p-1 border rounded text-xs bg-background"
+                  disabled={!projectPrimers.length}
+                  title="Project primers"
+                >
+                  <option value="">{projectPrimers.length ? "Project primers…" : "No project primers"}</option>
+                  {projectPrimers.map(annotation => (
+                    <option key={annotation.id} value={annotation.id}>{annotation.name}</option>
+                  ))}
+                </select>
+              </div>
+              {primer.sequence && (
+                <div className="text-xs text-muted-foreground pl-1">
+                  {bindingSites[index]?.length
+                    ? `Binds ${bindingSites[index].map(describeSite).join("; ")}`
+                    : "No binding site"}
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center gap-4">
+            <div className="flex items-center space-x-2">
+              <Label htmlFor="pcr-mismatches" className="text-xs">Mismatches</Label>
+              <select
+                id="pcr-mismatches"
+                value={maxMismatches}
+                onChange={(e) => setMaxMismatches(Number(e.target.value))}
+                className="p-1 border rounded text-xs bg-background"
+              >
+                {[0, 1, 2, 3, 4].map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Label htmlFor="pcr-annealing" className="text-xs whitespace-nowrap">Min annealing (nt)</Label>
+              <Input
+                id="pcr-annealing"
+                type="number"
+                min={6}
+                value={minAnnealing}
+                onChange={(e) => Number(e.target.value) >= 6 && setMinAnnealing(Number(e.target.value))}
+                className="h-8 w-20 text-sm"
+              />
+            </div>
+          </div>
+        </div>
+
+        {primers.some(primer => primer.sequence) && (
+          products.length === 0 ? (
+            <div className="text-sm text-muted-foreground py-4 text-center">
+              No product: the primers need to bind opposite strands facing each other.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="max-h-40 overflow-y-auto border rounded">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted/50 sticky top-0">
+                    <tr>
+                      <th className="text-right p-1">Size (bp)</th>
+                      <th className="text-left p-1">Forward</th>
+                      <th className="text-left p-1">Reverse</th>
+                      <th className="text-right p-1">Template</th>
+                      <th className="text-right p-1">Mismatches</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {products.map((item, index) => (
+                      <tr
+                        key={`${item.forward.start}-${item.reverse.end}-${index}`}
+                        className={`border-t cursor-pointer hover:bg-secondary ${index === chosen ? "bg-secondary" : ""}`}
+                        onClick={() => setChosen(index)}
+                      >
+                        <td className="p-1 text-right font-mono">{item.sequence.length.toLocaleString()}</td>
+                        <td className="p-1">{item.forward.primer.name}</td>
+                        <td className="p-1">{item.reverse.primer.name}</td>
+                        <td className="p-1 text-right">{item.forward.start + 1}-{item.reverse.end}</td>
+                        <td className="p-1 text-right">{item.forward.mismatches + item.reverse.mismatches}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {product && (
+                <div className="text-xs space-y-1">
+                  <div className="font-mono break-all max-h-20 overflow-y-auto rounded border bg-muted/30 p-2">
+                    {product.sequence}
+                  </div>
+                  <div className="text-muted-foreground">
+                    Carries {product.annotations.length - 2} annotation{product.annotations.length === 3 ? "" : "s"} from
+                    the template plus both primers.
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Close
+          </Button>
+          <Button onClick={openProduct} disabled={!product}>
+            <FilePlus className="h-4 w-4 mr-2" />
+            Open Product
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
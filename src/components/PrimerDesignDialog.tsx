@@ -0,0 +1,247 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Bookmark } from "lucide-react";
+import { toast } from "sonner";
+import { useProject } from "@/hooks/use-project";
+import { getFeatureColor } from "@/lib/features";
+import { defaultPrimerSettings, designPrimers, PrimerCandidate, PrimerDesign, PrimerSettings } from "@/lib/primers";
+import { Structure } from "@/lib/thermo";
+import { rangeLength } from "@/lib/sequenceUtils";
+
+interface PrimerDesignDialogProps {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+}
+
+type NumericSetting = Exclude<keyof PrimerSettings, "gcClamp">;
+
+// Number inputs, in the order they are laid out
+const settingFields: { key: NumericSetting; label: string; step?: number }[] = [
+  { key: "minLength", label: "Min length" },
+  { key: "maxLength", label: "Max length" },
+  { key: "flank", label: "Search flank (bp)" },
+  { key: "maxTmDifference", label: "Max ΔTm (°C)", step: 0.5 },
+  { key: "minTm", label: "Min Tm (°C)", step: 0.5 },
+  { key: "optimalTm", label: "Optimal Tm (°C)", step: 0.5 },
+  { key: "maxTm", label: "Max Tm (°C)", step: 0.5 },
+  { key: "minGC", label: "Min GC (%)" },
+  { key: "maxGC", label: "Max GC (%)" },
+  { key: "na", label: "Na+ (mM)" },
+  { key: "mg", label: "Mg2+ (mM)", step: 0.1 },
+  { key: "dntp", label: "dNTPs (mM)", step: 0.1 },
+  { key: "oligoConc", label: "Oligo (nM)" }
+];
+
+const formatStructure = (structure: Structure | null) =>
+  structure ? `${structure.dG.toFixed(1)} kcal/mol (${structure.length} bp${structure.threePrime ? ", 3' end" : ""})` : "none";
+
+// Design PCR primers around the selected region and save the chosen pair as primer_bind features
+export function PrimerDesignDialog({ isOpen, setIsOpen }: PrimerDesignDialogProps) {
+  const { sequence, annotations, selectedRange, topology, editDocument } = useProject();
+  const [settings, setSettings] = useState<PrimerSettings>(defaultPrimerSettings);
+  const [design, setDesign] = useState<PrimerDesign | null>(null);
+  const [chosen, setChosen] = useState<number>(0);
+  const [name, setName] = useState<string>("Primer");
+
+  // Results belong to the region they were designed for
+  useEffect(() => {
+    setDesign(null);
+    setChosen(0);
+  }, [selectedRange, sequence]);
+
+  const pair = design?.pairs[chosen];
+
+  const updateSetting = (key: NumericSetting, value: string) => {
+    const number = Number(value);
+    if (value !== "" && !Number.isNaN(number)) setSettings({ ...settings, [key]: number });
+  };
+
+  const runDesign = () => {
+    if (!selectedRange) return;
+    if (settings.minLength > settings.maxLength || settings.minTm > settings.maxTm || settings.minGC > settings.maxGC) {
+      toast.error("Check the ranges: each minimum must be below its maximum");
+      return;
+    }
+
+    const result = designPrimers(sequence, selectedRange, settings, topology === "circular");
+    setDesign(result);
+    setChosen(0);
+    if (!result.pairs.length) {
+      toast.warning(`No pairs found (${result.forwardCount} forward, ${result.reverseCount} reverse candidates); try wider limits`);
+    }
+  };
+
+  const primerFeature = (primer: PrimerCandidate, suffix: string) => ({
+    name: `${name}_${suffix}`,
+    start: primer.start,
+    end: primer.end,
+    direction: primer.direction,
+    color: getFeatureColor("primer_bind"),
+    type: "primer_bind",
+    qualifiers: {
+      note: [`sequence: ${primer.sequence}`, `Tm ${primer.tm.toFixed(1)} °C, GC ${primer.gc.toFixed(0)}%`]
+    }
+  });
+
+  const addToProject = () => {
+    if (!pair) return;
+    editDocument(`Add primers ${name}`, {
+      annotations: [...annotations, primerFeature(pair.forward, "F"), primerFeature(pair.reverse, "R")]
+    });
+    toast.success(`Added ${name}_F and ${name}_R (${pair.productSize} bp product)`);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Design Primers</DialogTitle>
+          <DialogDescription>
+            {selectedRange
+              ? `Primer pairs amplifying ${selectedRange.start + 1}-${selectedRange.end} (${rangeLength(selectedRange, sequence.length)} bp), with nearest-neighbor Tm.`
+              : "Select the region to amplify first."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          {settingFields.map(field => (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`primer-${field.key}`} className="text-xs">{field.label}</Label>
+              <Input
+                id={`primer-${field.key}`}
+                type="number"
+                step={field.step || 1}
+                min={0}
+                value={settings[field.key]}
+                onChange={(e) => updateSetting(field.key, e.target.value)}
+                className="h-8 text-sm"
+              />
+            </div>
+          ))}
+          <div className="flex items-end space-x-2 pb-2">
+            <Checkbox
+              id="primer-clamp"
+              checked={settings.gcClamp}
+              onCheckedChange={(checked) => setSettings({ ...settings, gcClamp: checked === true })}
+            />
+            <Label htmlFor="primer-clamp" className="text-xs">3' GC clamp</Label>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            {design
+              ? `${design.forwardCount} forward and ${design.reverseCount} reverse candidates passed the limits`
+              : "Primers are searched from the ends of the selection outwards."}
+          </span>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setSettings(defaultPrimerSettings)}>
+              Defaults
+            </Button>
+            <Button size="sm" onClick={runDesign} disabled={!selectedRange}>
+              Design
+            </Button>
+          </div>
+        </div>
+
+        {design && design.pairs.length > 0 && (
+          <>
+            <div className="max-h-56 overflow-y-auto border rounded">
+              <table className="w-full text-xs">
+                <thead className="bg-muted/50 sticky top-0">
+                  <tr>
+                    <th className="text-left p-1">#</th>
+                    <th className="text-left p-1">Forward</th>
+                    <th className="text-right p-1">Tm</th>
+                    <th className="text-left p-1">Reverse</th>
+                    <th className="text-right p-1">Tm</th>
+                    <th className="text-right p-1">Product</th>
+                    <th className="text-right p-1">Penalty</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {design.pairs.map((item, index) => (
+                    <tr
+                      key={`${item.forward.start}-${item.forward.end}-${item.reverse.start}-${item.reverse.end}`}
+                      className={`border-t cursor-pointer hover:bg-secondary ${index === chosen ? "bg-secondary" : ""}`}
+                      onClick={() => setChosen(index)}
+                    >
+                      <td className="p-1">{index + 1}</td>
+                      <td className="p-1 font-mono">{item.forward.sequence}</td>
+                      <td className="p-1 text-right">{item.forward.tm.toFixed(1)}</td>
+                      <td className="p-1 font-mono">{item.reverse.sequence}</td>
+                      <td className="p-1 text-right">{item.reverse.tm.toFixed(1)}</td>
+                      <td className="p-1 text-right">{item.productSize}</td>
+                      <td className="p-1 text-right">
+                        {item.penalty.toFixed(2)}
+                        {item.warnings.length + item.forward.warnings.length + item.reverse.warnings.length > 0 && " ⚠"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {pair && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+                {[
+                  { label: "Forward", primer: pair.forward },
+                  { label: "Reverse", primer: pair.reverse }
+                ].map(({ label, primer }) => (
+                  <div key={label} className="rounded border p-2 space-y-0.5">
+                    <div className="font-medium">
+                      {label} · {primer.start + 1}-{primer.end} · {primer.sequence.length} nt
+                    </div>
+                    <div className="font-mono break-all">5'-{primer.sequence}-3'</div>
+                    <div>Tm {primer.tm.toFixed(1)} °C · GC {primer.gc.toFixed(0)}%</div>
+                    <div>Hairpin: {formatStructure(primer.hairpin)}</div>
+                    <div>Self-dimer: {formatStructure(primer.selfDimer)}</div>
+                    {primer.warnings.length > 0 && (
+                      <div className="text-amber-600">{primer.warnings.join("; ")}</div>
+                    )}
+                  </div>
+                ))}
+                <div className="md:col-span-2 text-muted-foreground">
+                  Primer dimer: {formatStructure(pair.heteroDimer)} · ΔTm {pair.tmDifference.toFixed(1)} °C
+                  {pair.warnings.length > 0 && <span className="text-amber-600"> · {pair.warnings.join("; ")}</span>}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex items-center space-x-2">
+            <Label htmlFor="primer-name" className="text-xs whitespace-nowrap">Name</Label>
+            <Input
+              id="primer-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="h-8 w-40 text-sm"
+            />
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Close
+            </Button>
+            <Button onClick={addToProject} disabled={!pair || !name.trim()}>
+              <Bookmark className="h-4 w-4 mr-2" />
+              Add to Project
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,333 @@
+import * as React from "react";
+import { toast } from "sonner";
+import { AIHistoryEntry, Annotation, Note, unwrapAnnotation } from "@/lib/features";
+import { SequenceRecord, Topology } from "@/lib/formats";
+import { detectSequenceType, rotateSequence } from "@/lib/sequenceUtils";
+import {
+  backupStoredDocument,
+  DOCUMENT_VERSION,
+  legacyStorageKeys,
+  parseAIHistory,
+  primerFeatures,
+  readJson,
+  readStoredDocument,
+  SequenceDocument,
+  storageKeys,
+  withIds
+} from "@/lib/document";
+import { emptyHistory, HistoryState, pushEntry, travel } from "@/lib/history";
+import { diffSequences, remapAnnotations, remapNotes, rotateAnnotations, rotateNotes } from "@/lib/edits";
+import {
+  DocumentChanges,
+  DocumentState,
+  EditOptions,
+  ImportExtras,
+  ProjectContext,
+  ProjectContextValue,
+  Range,
+  SequenceEditOptions
+} from "@/hooks/use-project";
+
+const emptyDocumentState: DocumentState = {
+  sequence: "",
+  annotations: [],
+  notes: [],
+  topology: "linear",
+  metadata: {}
+};
+
+// Holds the sequence being edited so the header and the editor share one copy
+export function ProjectProvider({ children }: { children: React.ReactNode }) {
+  const [documentState, setDocumentState] = React.useState<DocumentState>(emptyDocumentState);
+  const [history, setHistory] = React.useState<HistoryState<DocumentState>>(emptyHistory);
+  const [selectedRange, setSelectedRange] = React.useState<Range | null>(null);
+  const [aiHistory, setAiHistory] = React.useState<AIHistoryEntry[]>([]);
+  const [isLoaded, setIsLoaded] = React.useState<boolean>(false);
+
+  // Mirrors of the latest state, so edits made in the same tick build on each other
+  const documentRef = React.useRef<DocumentState>(emptyDocumentState);
+  const historyRef = React.useRef<HistoryState<DocumentState>>(history);
+
+  const { sequence, annotations, notes, topology, metadata } = documentState;
+  const sequenceType = React.useMemo(() => detectSequenceType(sequence), [sequence]);
+
+  const showDocument = React.useCallback((next: DocumentState) => {
+    documentRef.current = next;
+    setDocumentState(next);
+  }, []);
+
+  const updateHistory = React.useCallback((next: HistoryState<DocumentState>) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const editDocument = React.useCallback((label: string, changes: DocumentChanges, options: EditOptions = {}) => {
+    const before = documentRef.current;
+    const after: DocumentState = {
+      ...before,
+      ...changes,
+      annotations: changes.annotations ? withIds(changes.annotations, "feature") : before.annotations,
+      notes: changes.notes ? withIds(changes.notes, "note") : before.notes
+    };
+
+    const changed = (Object.keys(after) as (keyof DocumentState)[]).some(key => after[key] !== before[key]);
+    if (!changed) return;
+
+    showDocument(after);
+    updateHistory(pushEntry(historyRef.current, { label, before, after, group: options.group, time: Date.now() }));
+  }, [showDocument, updateHistory]);
+
+  const setSequence = React.useCallback((value: string, label = "Edit sequence", options: SequenceEditOptions = {}) => {
+    const current = documentRef.current;
+    const edit = diffSequences(current.sequence, value, options.caret);
+    if (!edit) return [];
+
+    const length = current.sequence.length;
+    const remapped = remapAnnotations(current.annotations, edit, { length, split: options.split });
+    const remappedNotes = remapNotes(current.notes, edit, length);
+
+    editDocument(label, {
+      sequence: value,
+      annotations: remapped.annotations,
+      notes: remappedNotes.notes
+    }, options);
+
+    return [...remapped.changes, ...remappedNotes.changes];
+  }, [editDocument]);
+
+  const setAnnotations = React.useCallback((items: Annotation[]) => {
+    editDocument("Edit annotations", { annotations: items });
+  }, [editDocument]);
+
+  const setNotes = React.useCallback((items: Note[]) => {
+    editDocument("Edit notes", { notes: items });
+  }, [editDocument]);
+
+  const setTopology = React.useCallback((value: Topology) => {
+    editDocument(`Make ${value}`, { topology: value });
+  }, [editDocument]);
+
+  const setMetadata = React.useCallback((value: Record<string, string>) => {
+    editDocument("Edit details", { metadata: value });
+  }, [editDocument]);
+
+  const setOrigin = React.useCallback((origin: number) => {
+    const current = documentRef.current;
+    const length = current.sequence.length;
+    if (origin <= 0 || origin >= length) return;
+
+    editDocument(`Set origin at ${origin + 1}`, {
+      sequence: rotateSequence(current.sequence, origin),
+      annotations: rotateAnnotations(current.annotations, origin, length),
+      notes: rotateNotes(current.notes, origin, length)
+    });
+    setSelectedRange(null);
+  }, [editDocument]);
+
+  const travelHistory = React.useCallback((steps: number) => {
+    const result = travel(historyRef.current, steps);
+    if (!result) return;
+
+    updateHistory(result.history);
+    showDocument(result.state);
+    // The old selection may point past the end of the restored sequence
+    setSelectedRange(null);
+  }, [showDocument, updateHistory]);
+
+  const undo = React.useCallback(() => travelHistory(-1), [travelHistory]);
+  const redo = React.useCallback(() => travelHistory(1), [travelHistory]);
+
+  const document = React.useMemo<SequenceDocument>(() => ({
+    version: DOCUMENT_VERSION,
+    sequence,
+    alphabet: sequenceType,
+    topology,
+    features: annotations,
+    notes,
+    metadata
+  }), [sequence, sequenceType, topology, annotations, notes, metadata]);
+
+  // On mount, restore the saved document and AI history
+  React.useEffect(() => {
+    try {
+      setAiHistory(parseAIHistory(readJson(storageKeys.aiHistory)));
+      const saved = readStoredDocument();
+      if (saved) {
+        showDocument({
+          sequence: saved.sequence,
+          annotations: saved.features,
+          notes: saved.notes,
+          topology: saved.topology,
+          metadata: saved.metadata
+        });
+      }
+    } catch (error) {
+      console.error("Error loading saved data:", error);
+      const reason = error instanceof Error ? error.message : "unreadable data";
+
+      // Saving would write the empty workspace over the stored one, so keep a copy first,
+      // and don't save at all when even that fails
+      if (!backupStoredDocument()) {
+        toast.error(`The saved project could not be loaded (${reason}). Changes won't be saved until it is fixed.`);
+        return;
+      }
+      toast.error(`The saved project could not be loaded (${reason}). A copy was kept as ${storageKeys.backup}.`);
+    }
+
+    setIsLoaded(true);
+  }, [showDocument]);
+
+  // Save the document whenever it changes, once the saved one has been read
+  React.useEffect(() => {
+    if (!isLoaded) return;
+
+    try {
+      localStorage.setItem(storageKeys.document, JSON.stringify(document));
+      localStorage.setItem(storageKeys.aiHistory, JSON.stringify(aiHistory));
+      Object.values(legacyStorageKeys).forEach(key => localStorage.removeItem(key));
+    } catch (error) {
+      console.error("Error saving data to localStorage:", error);
+    }
+  }, [isLoaded, document, aiHistory]);
+
+  // AI history isn't part of the undoable document, so imports only ever add to it and
+  // entries already kept (same prompt and time) aren't added twice
+  const mergeAiHistory = React.useCallback((entries: AIHistoryEntry[] = []) => {
+    setAiHistory(current => [
+      ...current,
+      ...entries.filter(entry => !current.some(kept => kept.createdAt === entry.createdAt && kept.prompt === entry.prompt))
+    ]);
+  }, []);
+
+  // Replace the workspace with an imported record
+  const loadRecord = React.useCallback((record: SequenceRecord, extras: ImportExtras = {}) => {
+    editDocument(`Open ${record.name}`, {
+      sequence: record.sequence,
+      annotations: [...record.annotations, ...primerFeatures(record)],
+      notes: extras.notes || record.notes || [],
+      topology: record.topology,
+      metadata: record.metadata || {}
+    });
+    mergeAiHistory(extras.aiHistory);
+    setSelectedRange(null);
+  }, [editDocument, mergeAiHistory]);
+
+  // Add an imported record to the end of the current sequence
+  const appendRecord = React.useCallback((record: SequenceRecord, extras: ImportExtras = {}) => {
+    const current = documentRef.current;
+    const offset = current.sequence.length;
+    const shift = <T extends { start: number; end: number }>(item: T): T => ({
+      ...item,
+      start: item.start + offset,
+      end: item.end + offset
+    });
+
+    // Neither the open sequence nor the record has its origin where the two are joined, so
+    // anything across either origin is split first: features into a two-part join, notes
+    // down to their longer part
+    let clippedNotes = 0;
+    const unwrapNote = <T extends Note>(note: T, length: number): T => {
+      if (note.start <= note.end) return note;
+      clippedNotes++;
+      return length - note.start >= note.end ? { ...note, end: length } : { ...note, start: 0 };
+    };
+    const currentCircular = current.topology === "circular";
+    const currentAnnotations = currentCircular
+      ? current.annotations.map(annotation => unwrapAnnotation(annotation, offset))
+      : current.annotations;
+    const currentNotes = currentCircular ? current.notes.map(note => unwrapNote(note, offset)) : current.notes;
+
+    const length = record.sequence.length;
+    const circular = record.topology === "circular";
+
+    // Appended items get fresh ids so importing the same file twice can't clash
+    const shiftedAnnotations = [...record.annotations, ...primerFeatures(record)]
+      .map(annotation => (circular ? unwrapAnnotation(annotation, length) : annotation))
+      .map(annotation => ({
+        ...shift(annotation),
+        id: undefined,
+        ...(annotation.locations ? { locations: annotation.locations.map(shift) } : {})
+      }));
+    const shiftedNotes = (extras.notes || record.notes || [])
+      .map(note => (circular ? unwrapNote(note, length) : note))
+      .map(note => ({ ...shift(note), id: undefined }));
+
+    editDocument(`Append ${record.name}`, {
+      sequence: current.sequence + record.sequence,
+      annotations: [...currentAnnotations, ...shiftedAnnotations],
+      notes: [...currentNotes, ...shiftedNotes]
+    });
+    mergeAiHistory(extras.aiHistory);
+    setSelectedRange({ start: offset, end: offset + record.sequence.length });
+    return clippedNotes;
+  }, [editDocument, mergeAiHistory]);
+
+  // Clear the sequence and associated data. The saved copy is overwritten by
+  // the save effect, and the clear itself can be undone. AI history is kept;
+  // it is cleared separately from the assistant's History tab.
+  const clearProject = React.useCallback(() => {
+    editDocument("Clear sequence", emptyDocumentState);
+    setSelectedRange(null);
+  }, [editDocument]);
+
+  const contextValue = React.useMemo<ProjectContextValue>(
+    () => ({
+      sequence,
+      setSequence,
+      sequenceType,
+      annotations,
+      setAnnotations,
+      notes,
+      setNotes,
+      topology,
+      setTopology,
+      setOrigin,
+      metadata,
+      setMetadata,
+      selectedRange,
+      setSelectedRange,
+      aiHistory,
+      setAiHistory,
+      document,
+      editDocument,
+      history,
+      undo,
+      redo,
+      travelHistory,
+      loadRecord,
+      appendRecord,
+      clearProject,
+    }),
+    [
+      sequence,
+      sequenceType,
+      annotations,
+      notes,
+      topology,
+      metadata,
+      selectedRange,
+      aiHistory,
+      setSequence,
+      setAnnotations,
+      setNotes,
+      setTopology,
+      setOrigin,
+      setMetadata,
+      document,
+      editDocument,
+      history,
+      undo,
+      redo,
+      travelHistory,
+      loadRecord,
+      appendRecord,
+      clearProject,
+    ]
+  );
+
+  return (
+    <ProjectContext.Provider value={contextValue}>
+      {children}
+    </ProjectContext.Provider>
+  );
+}
@@ -0,0 +1,143 @@
+import { useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { analyzeProtein, HydropathyWindow, hydropathyProfile, proteinCharge } from "@/lib/protein";
+import { SequenceRange } from "@/lib/sequenceUtils";
+
+interface ProteinPropertiesProps {
+  protein: string;
+  // Residue ranges, only given when the residues are the workspace sequence itself
+  selectedRange?: SequenceRange | null;
+  onRangeSelect?: (range: SequenceRange) => void;
+}
+
+const windowSizes = [5, 7, 9, 11, 13, 15, 19, 21];
+
+// Windows of 19 averaging above this suggest a transmembrane helix (Kyte & Doolittle)
+const transmembraneThreshold = 1.6;
+
+const chartConfig = {
+  score: { label: "Hydropathy", color: "#8B5CF6" }
+} satisfies ChartConfig;
+
+// ProtParam-style properties and a Kyte-Doolittle hydropathy plot of a protein
+export function ProteinProperties({ protein, selectedRange, onRangeSelect }: ProteinPropertiesProps) {
+  const [pH, setPH] = useState<number>(7.0);
+  const [windowSize, setWindowSize] = useState<number>(9);
+
+  const properties = useMemo(() => analyzeProtein(protein), [protein]);
+  const charge = useMemo(() => proteinCharge(protein, pH), [protein, pH]);
+  const data = useMemo(
+    () => hydropathyProfile(protein, windowSize).map(point => ({ ...point, position: point.center + 1 })),
+    [protein, windowSize]
+  );
+
+  if (!properties.length) {
+    return <div className="text-xs text-muted-foreground">No standard amino acids to analyze</div>;
+  }
+
+  const values = [
+    { label: "Molecular Weight", value: `${(properties.molecularWeight / 1000).toFixed(2)} kDa` },
+    { label: "Isoelectric Point", value: properties.isoelectricPoint.toFixed(2) },
+    { label: "Ext. Coeff. (reduced)", value: `${properties.extinctionReduced.toLocaleString()} M⁻¹cm⁻¹` },
+    { label: "Ext. Coeff. (cystines)", value: `${properties.extinctionOxidized.toLocaleString()} M⁻¹cm⁻¹` },
+    { label: "Abs 0.1% (1 g/L)", value: properties.absorbance.toFixed(3) },
+    {
+      label: "Instability Index",
+      value: `${properties.instabilityIndex.toFixed(1)} (${properties.instabilityIndex > 40 ? "unstable" : "stable"})`
+    },
+    { label: "Aliphatic Index", value: properties.aliphaticIndex.toFixed(1) },
+    { label: "GRAVY", value: properties.gravy.toFixed(3) }
+  ];
+
+  const handleClick = (state: { activePayload?: { payload: HydropathyWindow }[] } | null) => {
+    const point = state?.activePayload?.[0]?.payload;
+    if (point && onRangeSelect) onRangeSelect({ start: point.start, end: point.end });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {values.map(item => (
+          <div key={item.label} className="bg-secondary/50 p-2 rounded-lg">
+            <div className="text-xs font-medium text-muted-foreground">{item.label}</div>
+            <div className="text-sm font-bold">{item.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-4 text-xs">
+        <div className="flex items-center space-x-2">
+          <Label htmlFor="protein-ph" className="text-xs">Charge at pH</Label>
+          <Input
+            id="protein-ph"
+            type="number"
+            min={0}
+            max={14}
+            step={0.1}
+            value={pH}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (e.target.value !== "" && value >= 0 && value <= 14) setPH(value);
+            }}
+            className="h-7 w-20 text-xs"
+          />
+          <span className="font-bold">{charge > 0 ? "+" : ""}{charge.toFixed(2)}</span>
+        </div>
+        <select
+          value={windowSize}
+          onChange={(e) => setWindowSize(Number(e.target.value))}
+          className="p-1 border rounded bg-background"
+          title="Hydropathy window"
+        >
+          {windowSizes.map(size => (
+            <option key={size} value={size}>{size} residue window</option>
+          ))}
+        </select>
+      </div>
+
+      {data.length > 0 ? (
+        <ChartContainer config={chartConfig} className="h-32 w-full aspect-auto">
+          <LineChart data={data} onClick={handleClick} margin={{ top: 4, right: 8, bottom: 0, left: -16 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="position" type="number" domain={[1, protein.length]} tickLine={false} allowDataOverflow />
+            <YAxis domain={[-4.5, 4.5]} tickLine={false} width={48} />
+            {selectedRange && selectedRange.start < selectedRange.end && (
+              <ReferenceArea x1={selectedRange.start + 1} x2={selectedRange.end} fill="#6366F1" fillOpacity={0.15} />
+            )}
+            <ReferenceLine y={0} />
+            <ReferenceLine y={transmembraneThreshold} strokeDasharray="3 3" />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => {
+                    const point = payload?.[0]?.payload as HydropathyWindow | undefined;
+                    return point ? `${point.start + 1}-${point.end}` : "";
+                  }}
+                />
+              }
+            />
+            <Line
+              dataKey="score"
+              type="monotone"
+              stroke="var(--color-score)"
+              dot={false}
+              strokeWidth={1.5}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ChartContainer>
+      ) : (
+        <div className="text-xs text-muted-foreground">The protein is shorter than the window</div>
+      )}
+
+      <div className="text-xs text-muted-foreground">
+        Kyte-Doolittle hydropathy; the dashed line at {transmembraneThreshold} marks likely transmembrane
+        segments with a 19 residue window.
+        {onRangeSelect && " Click the plot to select a window."}
+      </div>
+    </div>
+  );
+}
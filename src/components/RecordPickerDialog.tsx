@@ -0,0 +1,125 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { FileText } from "lucide-react";
+import { SequenceRecord } from "@/lib/formats";
+
+interface RecordPickerDialogProps {
+  records: SequenceRecord[];
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  onSelect: (record: SequenceRecord) => void;
+}
+
+// True when the lower-cased query appears in the record's name or description
+const matchesFilter = (record: SequenceRecord, query: string) =>
+  !query ||
+  record.name.toLowerCase().includes(query) ||
+  (record.description || "").toLowerCase().includes(query);
+
+export function RecordPickerDialog({ records, isOpen, setIsOpen, onSelect }: RecordPickerDialogProps) {
+  const [filter, setFilter] = useState("");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const query = filter.trim().toLowerCase();
+  const visibleRecords = records
+    .map((record, index) => ({ record, index }))
+    .filter(({ record }) => matchesFilter(record, query));
+
+  // Changing the filter moves the selection to the first record still shown
+  const handleFilterChange = (value: string) => {
+    setFilter(value);
+    setSelectedIndex(records.findIndex(record => matchesFilter(record, value.trim().toLowerCase())));
+  };
+
+  // Only a record the user can see is loaded
+  const selected = visibleRecords.find(({ index }) => index === selectedIndex);
+
+  const handleLoad = () => {
+    const record = selected?.record;
+    if (record) {
+      onSelect(record);
+      setIsOpen(false);
+      setFilter("");
+      setSelectedIndex(0);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Choose a record</DialogTitle>
+          <DialogDescription>
+            This file contains {records.length} records. Pick the one to open in the editor.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          placeholder="Filter by name or description"
+          value={filter}
+          onChange={(e) => handleFilterChange(e.target.value)}
+        />
+
+        <ScrollArea className="h-72 rounded border">
+          <div className="p-1">
+            {visibleRecords.map(({ record, index }) => (
+              <button
+                key={index}
+                onClick={() => setSelectedIndex(index)}
+                onDoubleClick={() => {
+                  setSelectedIndex(index);
+                  onSelect(record);
+                  setIsOpen(false);
+                }}
+                className={`w-full text-left p-2 rounded flex items-start gap-2 ${
+                  index === selectedIndex ? "bg-primary/10" : "hover:bg-muted"
+                }`}
+              >
+                <FileText className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm truncate">{record.name}</span>
+                    <Badge variant="outline" className="text-xs shrink-0">
+                      {record.sequence.length} {record.sequence.length === 1 ? "residue" : "residues"}
+                    </Badge>
+                    {record.annotations.length > 0 && (
+                      <Badge variant="secondary" className="text-xs shrink-0">
+                        {record.annotations.length} features
+                      </Badge>
+                    )}
+                  </div>
+                  {record.description && (
+                    <div className="text-xs text-muted-foreground truncate">{record.description}</div>
+                  )}
+                </div>
+              </button>
+            ))}
+            {!visibleRecords.length && (
+              <div className="text-center py-8 text-sm text-muted-foreground">No matching records</div>
+            )}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleLoad} disabled={!selected}>
+            Load Record
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,17 +1,21 @@
 
-import { useState, useEffect, useRef, KeyboardEvent } from "react";
+import { useState, useEffect, useMemo, useRef, KeyboardEvent } from "react";
 import { Textarea } from "@/components/ui/textarea";
 import { findRegions } from "@/lib/sequenceUtils";
+import { commonEnzymes, findCutSites } from "@/lib/enzymes";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { 
   Bookmark, 
   BookOpenText, 
-  Translate, 
-  DNA, 
+  Languages, 
   Plus, 
   NotebookPen,
-  Code
+  Code,
+  ArrowRightLeft,
+  TestTube,
+  Wand2,
+  GitCompare
 } from "lucide-react";
 import { 
   Dialog, 
@@ -24,23 +28,29 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
+import { Annotation, Note } from "@/lib/features";
+import { SequenceEditOptions } from "@/hooks/use-project";
+import { TranslationDialog } from "./TranslationDialog";
+import { PrimerDesignDialog } from "./PrimerDesignDialog";
+import { PCRDialog } from "./PCRDialog";
+import { CodonOptimizerDialog } from "./CodonOptimizerDialog";
+import { AlignmentDialog } from "./AlignmentDialog";
 
 interface SequenceEditorProps {
   sequence: string;
-  setSequence: (sequence: string) => void;
+  // The label names the step in the edit history; typing shares a group so it undoes in one go
+  setSequence: (sequence: string, label?: string, options?: SequenceEditOptions) => void;
   onRangeSelect: (range: { start: number; end: number } | null) => void;
   sequenceType: "dna" | "rna" | "protein" | "unknown";
-  notes?: Array<{
-    title: string;
-    content: string;
-    start: number;
-    end: number;
-    createdAt: string;
-  }>;
-  onNoteAdd?: (note: any) => void;
-  onAnnotationAdd?: (annotation: any) => void;
+  topology?: "linear" | "circular";
+  notes?: Note[];
+  onNoteAdd?: (note: Pick<Note, "title" | "content" | "start" | "end">) => void;
+  onAnnotationAdd?: (annotation: Pick<Annotation, "name" | "color" | "type" | "direction">) => void;
   selectedRange: { start: number; end: number } | null;
   onScrollToPosition?: (position: number) => void;
+  projectName?: string;
+  // Ranges marked behind the text, e.g. rare codons; end < start when they wrap the origin
+  highlights?: { start: number; end: number; color?: string; name?: string }[];
 }
 
 export function SequenceEditor({ 
@@ -48,17 +58,26 @@ export function SequenceEditor({
   setSequence, 
   onRangeSelect,
   sequenceType,
+  topology = "linear",
   notes = [],
   onNoteAdd,
   onAnnotationAdd,
   selectedRange,
-  onScrollToPosition
+  onScrollToPosition,
+  projectName,
+  highlights = []
 }: SequenceEditorProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
   const [formattedSequence, setFormattedSequence] = useState<string>(sequence);
   const [displayMode, setDisplayMode] = useState<"raw" | "triplet">("raw");
   const [showNoteDialog, setShowNoteDialog] = useState(false);
   const [showAnnotationDialog, setShowAnnotationDialog] = useState(false);
+  const [showTranslationDialog, setShowTranslationDialog] = useState(false);
+  const [showPrimerDialog, setShowPrimerDialog] = useState(false);
+  const [showPCRDialog, setShowPCRDialog] = useState(false);
+  const [showOptimizerDialog, setShowOptimizerDialog] = useState(false);
+  const [showAlignmentDialog, setShowAlignmentDialog] = useState(false);
   const [noteTitle, setNoteTitle] = useState("");
   const [noteContent, setNoteContent] = useState("");
   const [annotationName, setAnnotationName] = useState("");
@@ -80,7 +99,8 @@ export function SequenceEditor({
 
   // Effect to position cursor at the selected range if needed
   useEffect(() => {
-    if (selectedRange && textareaRef.current) {
+    // The textarea can't show a selection that runs through the origin
+    if (selectedRange && selectedRange.start <= selectedRange.end && textareaRef.current) {
       let adjustedStart = selectedRange.start;
       let adjustedEnd = selectedRange.end;
       
@@ -115,11 +135,60 @@ export function SequenceEditor({
       
       // Only search for highlighted regions if it's DNA
       if (sequenceType === "dna") {
-        const foundRegions = findRegions(sequence);
-        setRegions(foundRegions);
+        const circular = topology === "circular";
+        setRegions({
+          ...findRegions(sequence, circular),
+          restrictionSites: findCutSites(sequence, commonEnzymes, circular).map(cut => cut.site)
+        });
       }
     }
-  }, [sequence, displayMode, sequenceType]);
+  }, [sequence, displayMode, sequenceType, topology]);
+
+  // Highlighted stretches of the displayed text, in order; triplet spaces inside a range are marked too
+  const highlightSegments = useMemo(() => {
+    const spaced = displayMode === "triplet" && (sequenceType === "dna" || sequenceType === "rna");
+    const toDisplay = (position: number) => (spaced ? position + Math.floor(position / 3) : position);
+
+    return highlights
+      .flatMap(highlight => highlight.start > highlight.end
+        ? [{ ...highlight, end: sequence.length }, { ...highlight, start: 0 }]
+        : [highlight])
+      .filter(highlight => highlight.end > highlight.start)
+      .map(highlight => ({
+        start: toDisplay(highlight.start),
+        end: toDisplay(highlight.end - 1) + 1,
+        color: highlight.color || "#FBBF24"
+      }))
+      .sort((a, b) => a.start - b.start);
+  }, [highlights, displayMode, sequenceType, sequence.length]);
+
+  // Text behind the textarea with the highlighted stretches marked; the text itself is transparent
+  const renderHighlights = () => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    highlightSegments.forEach((segment, index) => {
+      const start = Math.max(segment.start, position);
+      if (segment.end <= start) return;
+      parts.push(formattedSequence.slice(position, start));
+      parts.push(
+        <mark key={index} className="text-transparent rounded-sm" style={{ backgroundColor: `${segment.color}66` }}>
+          {formattedSequence.slice(start, segment.end)}
+        </mark>
+      );
+      position = segment.end;
+    });
+    parts.push(formattedSequence.slice(position));
+
+    return (
+      <div
+        ref={backdropRef}
+        aria-hidden
+        className="absolute inset-0 overflow-y-scroll rounded-md border border-transparent bg-background px-3 py-2 text-sm font-mono text-transparent whitespace-pre-wrap break-words pointer-events-none"
+      >
+        {parts}
+      </div>
+    );
+  };
 
   // Handle selection within the textarea
   const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
@@ -156,11 +225,13 @@ export function SequenceEditor({
     
     // Remove formatting for storage
     let cleanValue = newValue;
+    let caret = e.target.selectionEnd;
     if (displayMode === "triplet") {
       cleanValue = newValue.replace(/\s+/g, "");
+      caret = newValue.substring(0, caret).replace(/\s+/g, "").length;
     }
     
-    setSequence(cleanValue);
+    setSequence(cleanValue, "Typing", { group: "typing", caret });
   };
 
   // Handle keyboard shortcuts
@@ -183,7 +254,7 @@ export function SequenceEditor({
   };
 
   // Function to add common sequence elements
-  const addSequenceElement = (element: string) => {
+  const addSequenceElement = (element: string, name: string) => {
     // If there's a selection, replace it with the element
     if (textareaRef.current) {
       const start = textareaRef.current.selectionStart;
@@ -194,7 +265,7 @@ export function SequenceEditor({
         element + 
         sequence.substring(end);
       
-      setSequence(newSequence);
+      setSequence(newSequence, `Insert ${name}`, { caret: start + element.length, split: true });
       
       // Set cursor after the inserted element
       setTimeout(() => {
@@ -205,7 +276,7 @@ export function SequenceEditor({
       }, 0);
     } else {
       // If no selection, append to the end
-      setSequence(sequence + element);
+      setSequence(sequence + element, `Insert ${name}`);
     }
   };
 
@@ -286,70 +357,6 @@ export function SequenceEditor({
     }
   };
 
-  // Translate DNA to amino acids
-  const translateDNA = () => {
-    if (sequenceType !== "dna") {
-      toast.error("Translation only works for DNA sequences");
-      return;
-    }
-
-    if (!selectedRange) {
-      toast.error("Please select a DNA range to translate");
-      return;
-    }
-
-    // Get the selected DNA segment
-    const dnaSegment = sequence.substring(selectedRange.start, selectedRange.end);
-    
-    // Basic translation function
-    const translateCodon = (codon: string): string => {
-      const geneticCode: Record<string, string> = {
-        'TTT': 'F', 'TTC': 'F', 'TTA': 'L', 'TTG': 'L',
-        'CTT': 'L', 'CTC': 'L', 'CTA': 'L', 'CTG': 'L',
-        'ATT': 'I', 'ATC': 'I', 'ATA': 'I', 'ATG': 'M',
-        'GTT': 'V', 'GTC': 'V', 'GTA': 'V', 'GTG': 'V',
-        'TCT': 'S', 'TCC': 'S', 'TCA': 'S', 'TCG': 'S',
-        'CCT': 'P', 'CCC': 'P', 'CCA': 'P', 'CCG': 'P',
-        'ACT': 'T', 'ACC': 'T', 'ACA': 'T', 'ACG': 'T',
-        'GCT': 'A', 'GCC': 'A', 'GCA': 'A', 'GCG': 'A',
-        'TAT': 'Y', 'TAC': 'Y', 'TAA': '*', 'TAG': '*',
-        'CAT': 'H', 'CAC': 'H', 'CAA': 'Q', 'CAG': 'Q',
-        'AAT': 'N', 'AAC': 'N', 'AAA': 'K', 'AAG': 'K',
-        'GAT': 'D', 'GAC': 'D', 'GAA': 'E', 'GAG': 'E',
-        'TGT': 'C', 'TGC': 'C', 'TGA': '*', 'TGG': 'W',
-        'CGT': 'R', 'CGC': 'R', 'CGA': 'R', 'CGG': 'R',
-        'AGT': 'S', 'AGC': 'S', 'AGA': 'R', 'AGG': 'R',
-        'GGT': 'G', 'GGC': 'G', 'GGA': 'G', 'GGG': 'G'
-      };
-      
-      return geneticCode[codon.toUpperCase()] || 'X';
-    };
-    
-    // Perform translation
-    let protein = '';
-    for (let i = 0; i < dnaSegment.length - 2; i += 3) {
-      const codon = dnaSegment.substring(i, i + 3);
-      if (codon.length === 3) {
-        protein += translateCodon(codon);
-      }
-    }
-    
-    // Show the translation result
-    toast.success(`Translation: ${protein}`);
-    
-    // Add as an annotation if significant
-    if (protein.length > 5 && onAnnotationAdd) {
-      if (window.confirm("Add this translation as an annotation?")) {
-        onAnnotationAdd({
-          name: `Translation (${protein.length} aa)`,
-          color: "#10B981", // emerald color
-          type: "CDS",
-          direction: 1
-        });
-      }
-    }
-  };
-
   // Render notes as tooltips where applicable
   const renderNotes = () => {
     if (!notes.length) return null;
@@ -455,14 +462,82 @@ export function SequenceEditor({
                   <Button 
                     variant="outline" 
                     size="sm" 
-                    onClick={translateDNA}
+                    onClick={() => setShowTranslationDialog(true)}
+                    className="h-6 w-6 p-0"
+                    disabled={sequenceType !== "dna" && sequenceType !== "rna"}
+                  >
+                    <Languages className="h-3 w-3" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Translate</TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+            
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={() => setShowPrimerDialog(true)}
                     className="h-6 w-6 p-0"
                     disabled={sequenceType !== "dna" || !selectedRange}
                   >
-                    <Translate className="h-3 w-3" />
+                    <ArrowRightLeft className="h-3 w-3" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Design Primers</TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+            
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={() => setShowPCRDialog(true)}
+                    className="h-6 w-6 p-0"
+                    disabled={sequenceType !== "dna"}
+                  >
+                    <TestTube className="h-3 w-3" />
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>Translate DNA</TooltipContent>
+                <TooltipContent>Simulate PCR</TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+            
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={() => setShowOptimizerDialog(true)}
+                    className="h-6 w-6 p-0"
+                    disabled={sequenceType === "unknown"}
+                  >
+                    <Wand2 className="h-3 w-3" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Optimize Codons</TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+            
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={() => setShowAlignmentDialog(true)}
+                    className="h-6 w-6 p-0"
+                    disabled={!sequence}
+                  >
+                    <GitCompare className="h-3 w-3" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Align Sequences</TooltipContent>
               </Tooltip>
             </TooltipProvider>
           </div>
@@ -477,7 +552,7 @@ export function SequenceEditor({
                     variant="outline" 
                     size="sm" 
                     className="h-6 text-xs px-2"
-                    onClick={() => addSequenceElement(element.sequence)}
+                    onClick={() => addSequenceElement(element.sequence, element.name)}
                   >
                     {element.name}
                   </Button>
@@ -492,18 +567,58 @@ export function SequenceEditor({
       </div>
       
       <div className="relative">
+        {highlightSegments.length > 0 && renderHighlights()}
         <Textarea
           ref={textareaRef}
           value={formattedSequence}
           onChange={handleChange}
           onSelect={handleSelect}
           onKeyDown={handleKeyDown}
+          onScroll={(e) => {
+            if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
           placeholder="Paste or type your DNA, RNA, or protein sequence here..."
-          className="font-mono resize-none h-60 sequence-editor"
+          className={`font-mono resize-none h-60 sequence-editor ${
+            highlightSegments.length > 0 ? "relative bg-transparent overflow-y-scroll" : ""
+          }`}
           spellCheck="false"
         />
         {renderNotes()}
       </div>
+      {highlightSegments.length > 0 && (
+        <div className="text-xs text-muted-foreground">
+          Highlighted: {[...new Set(highlights.map(highlight => highlight.name || "range"))].join(", ")} ({highlights.length})
+        </div>
+      )}
+      
+      <TranslationDialog
+        isOpen={showTranslationDialog}
+        setIsOpen={setShowTranslationDialog}
+        projectName={projectName}
+      />
+      
+      <PrimerDesignDialog
+        isOpen={showPrimerDialog}
+        setIsOpen={setShowPrimerDialog}
+      />
+      
+      <PCRDialog
+        isOpen={showPCRDialog}
+        setIsOpen={setShowPCRDialog}
+        projectName={projectName}
+      />
+      
+      <CodonOptimizerDialog
+        isOpen={showOptimizerDialog}
+        setIsOpen={setShowOptimizerDialog}
+        projectName={projectName}
+      />
+      
+      <AlignmentDialog
+        isOpen={showAlignmentDialog}
+        setIsOpen={setShowAlignmentDialog}
+        projectName={projectName}
+      />
       
       {/* Add Note Dialog */}
       <Dialog open={showNoteDialog} onOpenChange={setShowNoteDialog}>
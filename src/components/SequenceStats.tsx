@@ -1,6 +1,7 @@
 
-import { useState, useEffect } from "react";
-import { calculateGCContent, countBases, findORFs } from "@/lib/sequenceUtils";
+import { useState, useEffect, useMemo } from "react";
+import { calculateGCContent, countBases, findORFs, ORF, ORFOptions } from "@/lib/sequenceUtils";
+import { geneticCodes } from "@/lib/geneticCode";
 import {
   Table,
   TableBody,
@@ -11,19 +12,45 @@ import {
 } from "@/components/ui/table";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Annotation } from "@/lib/features";
+import { GCPlot } from "./GCPlot";
+import { CodonUsage } from "./CodonUsage";
+import { ProteinProperties } from "./ProteinProperties";
+import { annotationSequence, translate } from "@/lib/translation";
 
 interface SequenceStatsProps {
   sequence: string;
   sequenceType: "dna" | "rna" | "protein" | "unknown";
-  annotations: any[];
+  annotations: Annotation[];
+  topology?: "linear" | "circular";
+  selectedRange?: { start: number; end: number } | null;
+  onRangeSelect?: (range: { start: number; end: number }) => void;
+  onHighlight?: (ranges: { start: number; end: number }[]) => void;
 }
 
-export function SequenceStats({ sequence, sequenceType, annotations }: SequenceStatsProps) {
+export function SequenceStats({
+  sequence,
+  sequenceType,
+  annotations,
+  topology = "linear",
+  selectedRange,
+  onRangeSelect,
+  onHighlight
+}: SequenceStatsProps) {
+  const [orfOptions, setOrfOptions] = useState<Required<Omit<ORFOptions, "circular">>>({
+    minLength: 30,
+    table: 1,
+    startCodons: "ATG",
+    includeNested: false
+  });
+  const [proteinSource, setProteinSource] = useState<string>("");
   const [stats, setStats] = useState({
     length: 0,
     gcContent: 0,
     baseCounts: {} as Record<string, number>,
-    orfs: [] as { start: number; end: number; length: number }[],
+    orfs: [] as ORF[],
   });
 
   useEffect(() => {
@@ -32,14 +59,14 @@ export function SequenceStats({ sequence, sequenceType, annotations }: SequenceS
     const length = sequence.length;
     let gcContent = 0;
     let baseCounts = {};
-    let orfs = [];
+    let orfs: ORF[] = [];
     
     if (sequenceType === "dna" || sequenceType === "rna") {
       gcContent = calculateGCContent(sequence);
       baseCounts = countBases(sequence, sequenceType);
       
       if (sequenceType === "dna") {
-        orfs = findORFs(sequence);
+        orfs = findORFs(sequence, { ...orfOptions, circular: topology === "circular" });
       }
     } else if (sequenceType === "protein") {
       // Count amino acids
@@ -52,7 +79,20 @@ export function SequenceStats({ sequence, sequenceType, annotations }: SequenceS
       baseCounts,
       orfs,
     });
-  }, [sequence, sequenceType]);
+  }, [sequence, sequenceType, topology, orfOptions]);
+
+  const cdsFeatures = useMemo(
+    () => (sequenceType === "dna" ? annotations.filter(annotation => annotation.type.toLowerCase() === "cds") : []),
+    [annotations, sequenceType]
+  );
+  const cds = cdsFeatures.find(annotation => annotation.id === proteinSource) || cdsFeatures[0];
+
+  // Protein of the chosen CDS, up to its first stop codon
+  const cdsProtein = useMemo(() => {
+    if (!cds) return "";
+    const table = Number(cds.qualifiers?.transl_table?.[0]) || 1;
+    return translate(annotationSequence(sequence, cds), { table, initiator: true }).split("*")[0];
+  }, [sequence, cds]);
 
   if (!sequence) {
     return (
@@ -67,7 +107,7 @@ export function SequenceStats({ sequence, sequenceType, annotations }: SequenceS
       <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
         <div className="bg-secondary/50 p-3 rounded-lg">
           <div className="text-sm font-medium text-muted-foreground">Length</div>
-          <div className="text-2xl font-bold">{stats.length} bp</div>
+          <div className="text-2xl font-bold">{stats.length} {sequenceType === "protein" ? "aa" : "bp"}</div>
         </div>
         
         {(sequenceType === "dna" || sequenceType === "rna") && (
@@ -110,30 +150,138 @@ export function SequenceStats({ sequence, sequenceType, annotations }: SequenceS
         </div>
       </div>
       
+      {/* Physicochemical properties of a protein sequence */}
+      {sequenceType === "protein" && (
+        <div>
+          <h3 className="text-sm font-medium mb-2">Protein Properties</h3>
+          <ProteinProperties protein={sequence} selectedRange={selectedRange} onRangeSelect={onRangeSelect} />
+        </div>
+      )}
+      
+      {/* The same for the translation of a CDS */}
+      {cds && (
+        <div>
+          <h3 className="text-sm font-medium mb-2">CDS Protein</h3>
+          <select
+            value={cds.id}
+            onChange={(e) => setProteinSource(e.target.value)}
+            className="w-full p-1 border rounded bg-background text-xs mb-2"
+            title="CDS to translate"
+          >
+            {cdsFeatures.map(annotation => (
+              <option key={annotation.id} value={annotation.id}>{annotation.name}</option>
+            ))}
+          </select>
+          <ProteinProperties protein={cdsProtein} />
+        </div>
+      )}
+      
+      {/* Codon usage against an expression host */}
+      {(sequenceType === "dna" || sequenceType === "rna") && (
+        <div>
+          <h3 className="text-sm font-medium mb-2">Codons</h3>
+          <CodonUsage
+            sequence={sequence}
+            annotations={annotations}
+            selectedRange={selectedRange}
+            onHighlight={onHighlight}
+          />
+        </div>
+      )}
+      
+      {/* Windowed GC content and skew */}
+      {(sequenceType === "dna" || sequenceType === "rna") && (
+        <div>
+          <h3 className="text-sm font-medium mb-2">GC Profile</h3>
+          <GCPlot
+            sequence={sequence}
+            topology={topology}
+            selectedRange={selectedRange}
+            onRangeSelect={onRangeSelect}
+          />
+        </div>
+      )}
+      
       {/* ORFs for DNA */}
-      {sequenceType === "dna" && stats.orfs.length > 0 && (
+      {sequenceType === "dna" && (
         <div>
           <h3 className="text-sm font-medium mb-2">Open Reading Frames</h3>
-          <div className="max-h-40 overflow-y-auto rounded border">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Start</TableHead>
-                  <TableHead>End</TableHead>
-                  <TableHead>Length</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {stats.orfs.map((orf, index) => (
-                  <TableRow key={index}>
-                    <TableCell>{orf.start + 1}</TableCell>
-                    <TableCell>{orf.end}</TableCell>
-                    <TableCell>{orf.length} bp</TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-2 text-xs">
+            <select
+              value={orfOptions.minLength}
+              onChange={(e) => setOrfOptions({ ...orfOptions, minLength: Number(e.target.value) })}
+              className="p-1 border rounded bg-background"
+              title="Minimum ORF length"
+            >
+              {[30, 75, 150, 300, 600].map(bp => (
+                <option key={bp} value={bp}>≥ {bp} bp ({bp / 3 - 1} aa)</option>
+              ))}
+            </select>
+            <select
+              value={orfOptions.startCodons}
+              onChange={(e) => setOrfOptions({ ...orfOptions, startCodons: e.target.value as ORFOptions["startCodons"] })}
+              className="p-1 border rounded bg-background"
+              title="Start codons"
+            >
+              <option value="ATG">ATG only</option>
+              <option value="alternative">ATG, GTG, TTG</option>
+              <option value="table">Table start codons</option>
+            </select>
+            <select
+              value={orfOptions.table}
+              onChange={(e) => setOrfOptions({ ...orfOptions, table: Number(e.target.value) })}
+              className="p-1 border rounded bg-background"
+              title="Genetic code"
+            >
+              {geneticCodes.map(code => (
+                <option key={code.id} value={code.id}>{code.id}. {code.name}</option>
+              ))}
+            </select>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="orf-nested"
+                checked={orfOptions.includeNested}
+                onCheckedChange={(checked) => setOrfOptions({ ...orfOptions, includeNested: checked === true })}
+              />
+              <Label htmlFor="orf-nested" className="text-xs">Nested ORFs</Label>
+            </div>
           </div>
+          
+          {stats.orfs.length > 0 ? (
+            <div className="max-h-40 overflow-y-auto rounded border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Frame</TableHead>
+                    <TableHead>Start</TableHead>
+                    <TableHead>End</TableHead>
+                    <TableHead>Length</TableHead>
+                    <TableHead>Protein</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stats.orfs.map((orf, index) => (
+                    <TableRow
+                      key={index}
+                      className={onRangeSelect ? "cursor-pointer" : ""}
+                      onClick={() => onRangeSelect?.({ start: orf.start, end: orf.end })}
+                      title="Select this ORF"
+                    >
+                      <TableCell>
+                        <Badge variant="outline">{orf.strand === 1 ? "+" : "-"}{orf.frame}</Badge>
+                      </TableCell>
+                      <TableCell>{orf.start + 1}</TableCell>
+                      <TableCell>{orf.end}</TableCell>
+                      <TableCell>{orf.length} bp</TableCell>
+                      <TableCell>{orf.proteinLength} aa</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-xs text-muted-foreground">No ORFs match these settings</div>
+          )}
         </div>
       )}
     </div>
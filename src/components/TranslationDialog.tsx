@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Copy, Download, FilePlus, Bookmark } from "lucide-react";
+import { toast } from "sonner";
+import { useProject } from "@/hooks/use-project";
+import { geneticCodes, getGeneticCode } from "@/lib/geneticCode";
+import { alignTranslation, annotationSequence, FrameTranslation, translateFrames } from "@/lib/translation";
+import { getRangeSequence, reverseComplement } from "@/lib/sequenceUtils";
+import { getFeatureColor } from "@/lib/features";
+import { writeFasta } from "@/lib/formats/fasta";
+import { downloadFile, toFileName } from "@/lib/download";
+
+interface TranslationDialogProps {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  projectName?: string;
+}
+
+const lineWidth = 60;
+
+const frameLabel = (translation: FrameTranslation) => `${translation.strand === 1 ? "+" : "-"}${translation.frame}`;
+
+export function TranslationDialog({ isOpen, setIsOpen, projectName = "sequence" }: TranslationDialogProps) {
+  const { sequence, annotations, selectedRange, editDocument } = useProject();
+  const [source, setSource] = useState<string>("selection");
+  const [frames, setFrames] = useState<1 | 3 | 6>(1);
+  const [table, setTable] = useState<number>(1);
+  const [initiator, setInitiator] = useState<boolean>(true);
+
+  const annotation = annotations.find(item => item.id === source);
+
+  // Start from the selection when there is one, otherwise the first CDS
+  useEffect(() => {
+    if (!isOpen) return;
+    const cds = annotations.find(item => item.type.toLowerCase() === "cds");
+    setSource(selectedRange || !cds ? "selection" : cds.id);
+  }, [isOpen, annotations, selectedRange]);
+
+  // GenBank CDS features carry their own /transl_table, e.g. 2 for vertebrate mitochondria
+  useEffect(() => {
+    const fromQualifier = Number(annotation?.qualifiers?.transl_table?.[0]);
+    if (fromQualifier && geneticCodes.some(code => code.id === fromQualifier)) {
+      setTable(fromQualifier);
+    }
+  }, [annotation]);
+
+  const region = useMemo(() => {
+    if (annotation) return annotationSequence(sequence, annotation).toUpperCase();
+    if (selectedRange) return getRangeSequence(sequence, selectedRange).toUpperCase();
+    return "";
+  }, [sequence, annotation, selectedRange]);
+
+  const regionName = annotation
+    ? annotation.name
+    : selectedRange
+      ? `${selectedRange.start + 1}-${selectedRange.end}`
+      : "";
+
+  const translations = useMemo(
+    () => (region ? translateFrames(region, frames, { table, initiator }) : []),
+    [region, frames, table, initiator]
+  );
+
+  // Protein letters under the middle base of each codon, in blocks of 60 bases
+  const alignedBlocks = useMemo(() => {
+    const tracks = translations.map(translation => ({
+      label: frameLabel(translation),
+      strand: translation.strand,
+      text: alignTranslation(translation, region.length)
+    }));
+    const complement = reverseComplement(region).split("").reverse().join("");
+    const width = String(region.length).length;
+    const blocks: string[] = [];
+
+    for (let start = 0; start < region.length; start += lineWidth) {
+      const slice = (text: string) => text.slice(start, start + lineWidth);
+      const lines = [
+        ...tracks.filter(track => track.strand === 1).map(track => `${track.label.padEnd(width)}  ${slice(track.text)}`),
+        `${String(start + 1).padStart(width)}  ${slice(region)}`,
+        ...(frames === 6 ? [`${"".padStart(width)}  ${slice(complement)}`] : []),
+        ...tracks.filter(track => track.strand === -1).map(track => `${track.label.padEnd(width)}  ${slice(track.text)}`)
+      ];
+      blocks.push(lines.join("\n"));
+    }
+
+    return blocks;
+  }, [translations, region, frames]);
+
+  const copyProtein = async (translation: FrameTranslation) => {
+    try {
+      await navigator.clipboard.writeText(translation.protein);
+      toast.success(`Copied frame ${frameLabel(translation)} (${translation.protein.length} aa)`);
+    } catch {
+      toast.error("Could not copy to the clipboard");
+    }
+  };
+
+  const exportFasta = () => {
+    const fasta = writeFasta(translations.map(translation => ({
+      name: `${regionName}_frame${frameLabel(translation)}`,
+      description: `translation table ${table}`,
+      sequence: translation.protein
+    })));
+    downloadFile(fasta, toFileName(`${projectName}_${regionName}_translation`, "fasta"));
+  };
+
+  // Replace the workspace with the protein; undo brings the DNA back
+  const openAsSequence = (translation: FrameTranslation) => {
+    const protein = translation.protein.replace(/\*+$/, "");
+    editDocument(`Open translation of ${regionName}`, {
+      sequence: protein,
+      annotations: [],
+      notes: [],
+      topology: "linear",
+      metadata: { definition: `Translation of ${projectName} ${regionName} (frame ${frameLabel(translation)}, table ${table})` }
+    });
+    setIsOpen(false);
+    toast.success(`Opened ${protein.length} aa protein (undo to return to the DNA)`);
+  };
+
+  // Mark the selection as a CDS, keeping the protein as its /translation
+  const annotateSelection = (translation: FrameTranslation) => {
+    if (!selectedRange) return;
+
+    editDocument(`Add annotation ${regionName} CDS`, {
+      annotations: [
+        ...annotations,
+        {
+          name: `Translation (${translation.protein.replace(/\*+$/, "").length} aa)`,
+          start: selectedRange.start,
+          end: selectedRange.end,
+          direction: translation.strand,
+          color: getFeatureColor("CDS"),
+          type: "CDS",
+          qualifiers: {
+            translation: [translation.protein.replace(/\*+$/, "")],
+            ...(table !== 1 ? { transl_table: [String(table)] } : {})
+          }
+        }
+      ]
+    });
+    toast.success("Added CDS annotation with its translation");
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Translate</DialogTitle>
+          <DialogDescription>
+            Translate the selection or an annotation with any NCBI genetic code.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2 text-sm">
+          <select
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            className="w-full p-2 border rounded text-sm bg-background"
+            title="Region to translate"
+          >
+            <option value="selection" disabled={!selectedRange}>
+              {selectedRange ? `Selection (${selectedRange.start + 1}-${selectedRange.end})` : "Selection (none)"}
+            </option>
+            {annotations.map(item => (
+              <option key={item.id} value={item.id}>{item.name} ({item.type})</option>
+            ))}
+          </select>
+          <select
+            value={frames}
+            onChange={(e) => setFrames(Number(e.target.value) as 1 | 3 | 6)}
+            className="w-full p-2 border rounded text-sm bg-background"
+            title="Reading frames"
+          >
+            <option value={1}>Frame +1</option>
+            <option value={3}>Three forward frames</option>
+            <option value={6}>Six frames</option>
+          </select>
+          <select
+            value={table}
+            onChange={(e) => setTable(Number(e.target.value))}
+            className="w-full p-2 border rounded text-sm bg-background md:col-span-2"
+            title="Genetic code"
+          >
+            {geneticCodes.map(code => (
+              <option key={code.id} value={code.id}>{code.id}. {code.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="translation-initiator"
+            checked={initiator}
+            onCheckedChange={(checked) => setInitiator(checked === true)}
+          />
+          <Label htmlFor="translation-initiator" className="text-sm">
+            Read an initial {getGeneticCode(table).starts.join("/")} as Met
+          </Label>
+        </div>
+
+        {!region ? (
+          <div className="text-sm text-muted-foreground py-6 text-center">
+            Select part of the sequence or pick an annotation to translate.
+          </div>
+        ) : (
+          <>
+            <pre className="max-h-64 overflow-auto rounded border bg-muted/30 p-2 text-xs font-mono leading-snug">
+              {alignedBlocks.join("\n\n")}
+            </pre>
+
+            <div className="max-h-48 overflow-y-auto space-y-2">
+              {translations.map(translation => (
+                <div key={frameLabel(translation)} className="rounded border p-2">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs font-medium">
+                      Frame {frameLabel(translation)} · {translation.protein.length} aa
+                      {translation.protein.slice(0, -1).includes("*") ? " · internal stops" : ""}
+                    </span>
+                    <div className="flex space-x-1">
+                      <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => copyProtein(translation)}>
+                        <Copy className="h-3 w-3 mr-1" /> Copy
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => openAsSequence(translation)}>
+                        <FilePlus className="h-3 w-3 mr-1" /> Open
+                      </Button>
+                      {!annotation && translation.frame === 1 && (
+                        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => annotateSelection(translation)}>
+                          <Bookmark className="h-3 w-3 mr-1" /> Annotate
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="font-mono text-xs break-all">{translation.protein}</div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Close
+          </Button>
+          <Button onClick={exportFasta} disabled={!translations.length}>
+            <Download className="h-4 w-4 mr-2" />
+            Export FASTA
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
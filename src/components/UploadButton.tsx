@@ -3,9 +3,10 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Upload } from "lucide-react";
 import { toast } from "sonner";
+import { binaryFileExtensions, sequenceFileExtensions } from "@/lib/formats";
 
 interface UploadButtonProps {
-  onUpload: (content: string) => void;
+  onUpload: (content: string | ArrayBuffer, fileName: string) => void;
 }
 
 export function UploadButton({ onUpload }: UploadButtonProps) {
@@ -20,8 +21,8 @@ export function UploadButton({ onUpload }: UploadButtonProps) {
     try {
       // Check if file type is supported
       const fileExt = file.name.split('.').pop()?.toLowerCase();
-      if (fileExt !== 'txt' && fileExt !== 'fasta' && fileExt !== 'fa' && fileExt !== 'gb') {
-        toast.error("Unsupported file type. Please upload .txt, .fasta, .fa, or .gb files.");
+      if (!fileExt || !sequenceFileExtensions.includes(fileExt)) {
+        toast.error(`Unsupported file type. Please upload ${sequenceFileExtensions.map(ext => `.${ext}`).join(", ")} files.`);
         setIsLoading(false);
         return;
       }
@@ -30,9 +31,9 @@ export function UploadButton({ onUpload }: UploadButtonProps) {
       const reader = new FileReader();
       
       reader.onload = (event) => {
-        const content = event.target?.result as string;
+        const content = event.target?.result;
         if (content) {
-          onUpload(content);
+          onUpload(content, file.name);
         } else {
           toast.error("Failed to read file");
         }
@@ -44,7 +45,12 @@ export function UploadButton({ onUpload }: UploadButtonProps) {
         setIsLoading(false);
       };
       
-      reader.readAsText(file);
+      // SnapGene files are binary, everything else is plain text
+      if (binaryFileExtensions.includes(fileExt)) {
+        reader.readAsArrayBuffer(file);
+      } else {
+        reader.readAsText(file);
+      }
       
     } catch (error) {
       console.error("Error uploading file:", error);
@@ -63,7 +69,7 @@ export function UploadButton({ onUpload }: UploadButtonProps) {
         id="file-upload"
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
         onChange={handleFileChange}
-        accept=".txt,.fasta,.fa,.gb"
+        accept={sequenceFileExtensions.map(ext => `.${ext}`).join(",")}
         disabled={isLoading}
       />
       <Button
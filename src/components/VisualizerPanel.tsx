@@ -18,25 +18,29 @@ import {
   Minimize2,
   FastForward,
   ArrowUp,
-  ArrowDown
+  ArrowDown,
+  ImageDown,
+  FlaskConical
 } from "lucide-react";
 import { toast } from "sonner";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { MapExportDialog } from "./MapExportDialog";
+import { EnzymePicker } from "./EnzymePicker";
+import { DigestDialog } from "./DigestDialog";
+import { Annotation, Note } from "@/lib/features";
 
 interface VisualizerPanelProps {
   sequence: string;
-  annotations: any[];
+  annotations: Annotation[];
   selectedRange: { start: number; end: number } | null;
   onRangeSelect: (range: { start: number; end: number } | null) => void;
   setSeqvizRef: (ref: any) => void;
-  notes?: Array<{
-    title: string;
-    content: string;
-    start: number;
-    end: number;
-    createdAt: string;
-  }>;
+  notes?: Note[];
+  topology?: "linear" | "circular";
+  projectName?: string;
   onScrollToPosition?: (position: number) => void;
+  // Extra ranges to shade on the map, e.g. rare codons
+  highlights?: { start: number; end: number; color?: string; name?: string }[];
 }
 
 export function VisualizerPanel({ 
@@ -46,30 +50,40 @@ export function VisualizerPanel({
   onRangeSelect,
   setSeqvizRef,
   notes = [],
-  onScrollToPosition
+  topology = "circular",
+  projectName = "",
+  onScrollToPosition,
+  highlights = []
 }: VisualizerPanelProps) {
   const [viewer, setViewer] = useState<"circular" | "linear" | "both">("both");
   const [enzymes, setEnzymes] = useState<string[]>([]);
   const [showComplement, setShowComplement] = useState<boolean>(true);
   const [renderError, setRenderError] = useState<boolean>(false);
   const [showNotes, setShowNotes] = useState<boolean>(true);
-  const [activeNote, setActiveNote] = useState<any>(null);
+  const [activeNote, setActiveNote] = useState<Note | null>(null);
   const [showNoteDialog, setShowNoteDialog] = useState<boolean>(false);
   const [isFullscreen, setIsFullscreen] = useState<boolean>(false);
+  const [hiddenTracks, setHiddenTracks] = useState<string[]>([]);
+  const [showMapExport, setShowMapExport] = useState<boolean>(false);
+  const [showDigest, setShowDigest] = useState<boolean>(false);
   const containerRef = useRef<HTMLDivElement>(null);
   
-  // Common restriction enzymes
-  const commonEnzymes = ["EcoRI", "BamHI", "HindIII", "XbaI", "PstI", "SalI"];
+  // Overlay tracks imported from GFF3/BED files
+  const tracks = Array.from(new Set(annotations.map(a => a.track).filter(Boolean))) as string[];
   
-  // Toggle restriction enzymes
-  const toggleEnzyme = (enzyme: string) => {
-    if (enzymes.includes(enzyme)) {
-      setEnzymes(enzymes.filter(e => e !== enzyme));
+  const toggleTrack = (track: string) => {
+    if (hiddenTracks.includes(track)) {
+      setHiddenTracks(hiddenTracks.filter(t => t !== track));
     } else {
-      setEnzymes([...enzymes, enzyme]);
+      setHiddenTracks([...hiddenTracks, track]);
     }
   };
   
+  // Linear molecules read better without the plasmid map
+  useEffect(() => {
+    setViewer(topology === "linear" ? "linear" : "both");
+  }, [topology]);
+  
   // Reset error state when sequence changes
   useEffect(() => {
     setRenderError(false);
@@ -107,10 +121,17 @@ export function VisualizerPanel({
     };
   }, []);
   
-  // Handle SeqViz selection
+  // Handle SeqViz selection. Counter-clockwise drags are turned around so the
+  // range always reads forwards, wrapping the origin when start > end.
   const handleSelection = (selection: any) => {
     if (selection && selection.start !== undefined && selection.end !== undefined) {
-      onRangeSelect({ start: selection.start, end: selection.end });
+      if (selection.start === selection.end) {
+        onRangeSelect(null);
+      } else if (selection.clockwise === false) {
+        onRangeSelect({ start: selection.end, end: selection.start });
+      } else {
+        onRangeSelect({ start: selection.start, end: selection.end });
+      }
     } else {
       onRangeSelect(null);
     }
@@ -217,7 +238,9 @@ export function VisualizerPanel({
   }
 
   // Combine annotations and note highlights
-  const combinedHighlights = [...notesToHighlights()];
+  const combinedHighlights = [...notesToHighlights(), ...highlights];
+  
+  const visibleAnnotations = (annotations || []).filter(a => !a.track || !hiddenTracks.includes(a.track));
 
   return (
     <div className="h-full flex flex-col" ref={containerRef}>
@@ -233,6 +256,16 @@ export function VisualizerPanel({
               </TabsList>
             </Tabs>
             
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => setShowMapExport(true)}
+              title="Export map as SVG, PNG or print"
+            >
+              <ImageDown className="h-4 w-4" />
+            </Button>
+            
             <Button
               variant="outline"
               size="sm"
@@ -277,17 +310,41 @@ export function VisualizerPanel({
             )}
           </Button>
           
-          {commonEnzymes.map(enzyme => (
+          {tracks.map(track => (
             <Button
-              key={enzyme}
-              variant={enzymes.includes(enzyme) ? "default" : "outline"}
+              key={track}
+              variant={hiddenTracks.includes(track) ? "outline" : "default"}
               size="sm"
               className="text-xs h-7"
-              onClick={() => toggleEnzyme(enzyme)}
+              onClick={() => toggleTrack(track)}
             >
-              {enzyme}
+              {hiddenTracks.includes(track) ? (
+                <EyeOff className="w-3 h-3 mr-1" />
+              ) : (
+                <Eye className="w-3 h-3 mr-1" />
+              )}
+              {track}
             </Button>
           ))}
+          
+          <EnzymePicker
+            sequence={safeSequence}
+            topology={topology}
+            selectedRange={selectedRange}
+            enzymes={enzymes}
+            setEnzymes={setEnzymes}
+          />
+          
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-xs h-7"
+            onClick={() => setShowDigest(true)}
+            disabled={!enzymes.length}
+          >
+            <FlaskConical className="w-3 h-3 mr-1" />
+            Digest
+          </Button>
         </div>
       </div>
 
@@ -305,7 +362,7 @@ export function VisualizerPanel({
             <SeqViz
               name="GeneForge Sequence"
               seq={safeSequence}
-              annotations={annotations || []}
+              annotations={visibleAnnotations}
               highlights={combinedHighlights}
               viewer={viewer}
               showComplement={showComplement}
@@ -343,6 +400,25 @@ export function VisualizerPanel({
           </ErrorBoundary>
         </div>
       </div>
+      
+      <MapExportDialog
+        isOpen={showMapExport}
+        setIsOpen={setShowMapExport}
+        projectName={projectName}
+        sequence={safeSequence}
+        annotations={visibleAnnotations}
+        enzymes={enzymes}
+        topology={topology}
+      />
+      
+      <DigestDialog
+        isOpen={showDigest}
+        setIsOpen={setShowDigest}
+        sequence={safeSequence}
+        topology={topology}
+        enzymes={enzymes}
+        onRangeSelect={onRangeSelect}
+      />
     </div>
   );
 }
@@ -0,0 +1,89 @@
+import * as React from "react";
+import { AIHistoryEntry, Annotation, DocumentNote, Feature, Note } from "@/lib/features";
+import { SequenceRecord, Topology } from "@/lib/formats";
+import { SequenceType } from "@/lib/sequenceUtils";
+import { SequenceDocument } from "@/lib/document";
+import { HistoryState } from "@/lib/history";
+import { FeatureChange } from "@/lib/edits";
+
+// start > end marks a selection running through the origin of a circular sequence
+export type Range = { start: number; end: number };
+
+// The undoable part of the workspace
+export type DocumentState = {
+  sequence: string;
+  annotations: Feature[];
+  notes: DocumentNote[];
+  topology: Topology;
+  metadata: Record<string, string>;
+};
+
+export type DocumentChanges = Partial<Omit<DocumentState, "annotations" | "notes">> & {
+  annotations?: Annotation[];
+  notes?: Note[];
+};
+
+export type EditOptions = {
+  // Edits sharing a group within a second of each other undo as one step
+  group?: string;
+};
+
+export type SequenceEditOptions = EditOptions & {
+  // Cursor position after the edit, to tell where in a run of repeated bases it happened
+  caret?: number;
+  // Split features around inserted bases rather than growing them
+  split?: boolean;
+};
+
+// Parts of an imported project that don't live on the sequence record itself
+export type ImportExtras = {
+  notes?: Note[];
+  aiHistory?: AIHistoryEntry[];
+};
+
+export type ProjectContextValue = {
+  sequence: string;
+  // Moves annotations and notes along with the edit and reports the ones it damaged
+  setSequence: (sequence: string, label?: string, options?: SequenceEditOptions) => FeatureChange[];
+  sequenceType: SequenceType;
+  // Annotations and notes get ids when set, so readers can hand over plain ones
+  annotations: Feature[];
+  setAnnotations: (annotations: Annotation[]) => void;
+  notes: DocumentNote[];
+  setNotes: (notes: Note[]) => void;
+  topology: Topology;
+  setTopology: (topology: Topology) => void;
+  // Make the given base the first one of a circular sequence
+  setOrigin: (origin: number) => void;
+  metadata: Record<string, string>;
+  setMetadata: (metadata: Record<string, string>) => void;
+  selectedRange: Range | null;
+  setSelectedRange: (range: Range | null) => void;
+  aiHistory: AIHistoryEntry[];
+  setAiHistory: (aiHistory: AIHistoryEntry[]) => void;
+  document: SequenceDocument;
+  // Apply several changes as one undoable step
+  editDocument: (label: string, changes: DocumentChanges, options?: EditOptions) => void;
+  history: HistoryState<DocumentState>;
+  undo: () => void;
+  redo: () => void;
+  // Undo (negative) or redo (positive) several steps at once
+  travelHistory: (steps: number) => void;
+  loadRecord: (record: SequenceRecord, extras?: ImportExtras) => void;
+  // Returns how many notes had to be clipped because they wrapped an origin
+  appendRecord: (record: SequenceRecord, extras?: ImportExtras) => number;
+  clearProject: () => void;
+};
+
+// Shared by ProjectProvider and useProject
+export const ProjectContext = React.createContext<ProjectContextValue | null>(null);
+
+export function useProject() {
+  const context = React.useContext(ProjectContext);
+  if (!context) {
+    throw new Error("useProject must be used within a ProjectProvider.");
+  }
+
+  return context;
+}
+
@@ -0,0 +1,296 @@
+// Pairwise alignment with affine gaps (Gotoh): global (Needleman-Wunsch), global
+// with free end gaps for reads against longer sequences, and local (Smith-Waterman).
+// Gap costs follow EMBOSS: the first gapped position costs `gapOpen`, each further
+// one `gapExtend`.
+
+export type AlignmentMode = "global" | "semiglobal" | "local";
+
+export interface ScoringMatrix {
+  id: string;
+  name: string;
+  type: "dna" | "protein";
+  score: (a: string, b: string) => number;
+}
+
+export interface AlignmentOptions {
+  mode: AlignmentMode;
+  matrix: ScoringMatrix;
+  gapOpen: number;
+  gapExtend: number;
+}
+
+export interface Alignment {
+  mode: AlignmentMode;
+  score: number;
+  // Both sequences with "-" for gaps, the same length
+  query: string;
+  target: string;
+  // Aligned parts of each input (0-based, end exclusive)
+  queryStart: number;
+  queryEnd: number;
+  targetStart: number;
+  targetEnd: number;
+  length: number;
+  identities: number;
+  // Identities plus substitutions that score above zero
+  similarities: number;
+  gaps: number;
+}
+
+// Largest query × target the dialog will attempt; the traceback needs a byte per cell
+export const maxAlignmentCells = 20_000_000;
+
+const aminoAcids = "ARNDCQEGHILKMFPSTWYV";
+
+// Score for pairs with a letter outside the matrix (X, B, Z, *)
+const unknownScore = -1;
+
+function proteinMatrix(id: string, name: string, rows: string): ScoringMatrix {
+  const values = rows.trim().split(/\s+/).map(Number);
+  const lookup: Record<string, number> = {};
+  for (let i = 0; i < aminoAcids.length; i++) {
+    for (let j = 0; j < aminoAcids.length; j++) {
+      lookup[aminoAcids[i] + aminoAcids[j]] = values[i * aminoAcids.length + j];
+    }
+  }
+  return { id, name, type: "protein", score: (a, b) => lookup[a + b] ?? unknownScore };
+}
+
+function dnaMatrix(id: string, name: string, match: number, mismatch: number): ScoringMatrix {
+  // N matches nothing and costs nothing
+  return { id, name, type: "dna", score: (a, b) => (a === "N" || b === "N" ? 0 : a === b ? match : mismatch) };
+}
+
+// Rows and columns in ARNDCQEGHILKMFPSTWYV order
+const blosum62 = `
+ 4 -1 -2 -2  0 -1 -1  0 -2 -1 -1 -1 -1 -2 -1  1  0 -3 -2  0
+-1  5  0 -2 -3  1  0 -2  0 -3 -2  2 -1 -3 -2 -1 -1 -3 -2 -3
+-2  0  6  1 -3  0  0  0  1 -3 -3  0 -2 -3 -2  1  0 -4 -2 -3
+-2 -2  1  6 -3  0  2 -1 -1 -3 -4 -1 -3 -3 -1  0 -1 -4 -3 -3
+ 0 -3 -3 -3  9 -3 -4 -3 -3 -1 -1 -3 -1 -2 -3 -1 -1 -2 -2 -1
+-1  1  0  0 -3  5  2 -2  0 -3 -2  1  0 -3 -1  0 -1 -2 -1 -2
+-1  0  0  2 -4  2  5 -2  0 -3 -3  1 -2 -3 -1  0 -1 -3 -2 -2
+ 0 -2  0 -1 -3 -2 -2  6 -2 -4 -4 -2 -3 -3 -2  0 -2 -2 -3 -3
+-2  0  1 -1 -3  0  0 -2  8 -3 -3 -1 -2 -1 -2 -1 -2 -2  2 -3
+-1 -3 -3 -3 -1 -3 -3 -4 -3  4  2 -3  1  0 -3 -2 -1 -3 -1  3
+-1 -2 -3 -4 -1 -2 -3 -4 -3  2  4 -2  2  0 -3 -2 -1 -2 -1  1
+-1  2  0 -1 -3  1  1 -2 -1 -3 -2  5 -1 -3 -1  0 -1 -3 -2 -2
+-1 -1 -2 -3 -1  0 -2 -3 -2  1  2 -1  5  0 -2 -1 -1 -1 -1  1
+-2 -3 -3 -3 -2 -3 -3 -3 -1  0  0 -3  0  6 -4 -2 -2  1  3 -1
+-1 -2 -2 -1 -3 -1 -1 -2 -2 -3 -3 -1 -2 -4  7 -1 -1 -4 -3 -2
+ 1 -1  1  0 -1  0  0  0 -1 -2 -2  0 -1 -2 -1  4  1 -3 -2 -2
+ 0 -1  0 -1 -1 -1 -1 -2 -2 -1 -1 -1 -1 -2 -1  1  5 -2 -2  0
+-3 -3 -4 -4 -2 -2 -3 -2 -2 -3 -2 -3 -1  1 -4 -3 -2 11  2 -3
+-2 -2 -2 -3 -2 -1 -2 -3  2 -1 -1 -2 -1  3 -3 -2 -2  2  7 -1
+ 0 -3 -3 -3 -1 -2 -2 -3 -3  3  1 -2  1 -1 -2 -2  0 -3 -1  4`;
+
+const pam250 = `
+ 2 -2  0  0 -2  0  0  1 -1 -1 -2 -1 -1 -3  1  1  1 -6 -3  0
+-2  6  0 -1 -4  1 -1 -3  2 -2 -3  3  0 -4  0  0 -1  2 -4 -2
+ 0  0  2  2 -4  1  1  0  2 -2 -3  1 -2 -3  0  1  0 -4 -2 -2
+ 0 -1  2  4 -5  2  3  1  1 -2 -4  0 -3 -6 -1  0  0 -7 -4 -2
+-2 -4 -4 -5 12 -5 -5 -3 -3 -2 -6 -5 -5 -4 -3  0 -2 -8  0 -2
+ 0  1  1  2 -5  4  2 -1  3 -2 -2  1 -1 -5  0 -1 -1 -5 -4 -2
+ 0 -1  1  3 -5  2  4  0  1 -2 -3  0 -2 -5 -1  0  0 -7 -4 -2
+ 1 -3  0  1 -3 -1  0  5 -2 -3 -4 -2 -3 -5  0  1  0 -7 -5 -1
+-1  2  2  1 -3  3  1 -2  6 -2 -2  0 -2 -2  0 -1 -1 -3  0 -2
+-1 -2 -2 -2 -2 -2 -2 -3 -2  5  2 -2  2  1 -2 -1  0 -5 -1  4
+-2 -3 -3 -4 -6 -2 -3 -4 -2  2  6 -3  4  2 -3 -3 -2 -2 -1  2
+-1  3  1  0 -5  1  0 -2  0 -2 -3  5  0 -5 -1  0  0 -3 -4 -2
+-1  0 -2 -3 -5 -1 -2 -3 -2  2  4  0  6  0 -2 -2 -1 -4 -2  2
+-3 -4 -3 -6 -4 -5 -5 -5 -2  1  2 -5  0  9 -5 -3 -3  0  7 -1
+ 1  0  0 -1 -3  0 -1  0  0 -2 -3 -1 -2 -5  6  1  0 -6 -5 -1
+ 1  0  1  0  0 -1  0  1 -1 -1 -3  0 -2 -3  1  2  1 -2 -3 -1
+ 1 -1  0  0 -2 -1  0  0 -1  0 -2  0 -1 -3  0  1  3 -5 -3  0
+-6  2 -4 -7 -8 -5 -7 -7 -3 -5 -2 -3 -4  0 -6 -2 -5 17  0 -6
+-3 -4 -2 -4  0 -4 -4 -5  0 -1 -1 -4 -2  7 -5 -3 -3  0 10 -2
+ 0 -2 -2 -2 -2 -2 -2 -1 -2  4  2 -2  2 -1 -1 -1  0 -6 -2  4`;
+
+export const scoringMatrices: ScoringMatrix[] = [
+  dnaMatrix("dna-5-4", "DNA +5/-4 (EDNAFULL)", 5, -4),
+  dnaMatrix("dna-2-3", "DNA +2/-3 (BLASTN)", 2, -3),
+  dnaMatrix("dna-1-2", "DNA +1/-2 (megablast)", 1, -2),
+  dnaMatrix("dna-1-1", "DNA +1/-1", 1, -1),
+  proteinMatrix("blosum62", "BLOSUM62", blosum62),
+  proteinMatrix("pam250", "PAM250", pam250)
+];
+
+export function getScoringMatrix(id: string): ScoringMatrix {
+  return scoringMatrices.find(matrix => matrix.id === id) || scoringMatrices[0];
+}
+
+// Default gap costs of EMBOSS needle and water
+export const defaultGapOpen = 10;
+export const defaultGapExtend = 0.5;
+
+// Traceback states, two bits each per cell
+const MATCH = 0;
+const QUERY_GAP_STATE = 1; // query letter against a gap
+const TARGET_GAP_STATE = 2; // target letter against a gap
+const START = 3;
+
+// Align `query` against `target`. Throws when the matrices would be too large.
+export function align(queryInput: string, targetInput: string, options: AlignmentOptions): Alignment {
+  const query = queryInput.toUpperCase().replace(/U/g, "T");
+  const target = targetInput.toUpperCase().replace(/U/g, "T");
+  const n = query.length;
+  const m = target.length;
+  if (!n || !m) throw new Error("Both sequences need at least one letter");
+  if ((n + 1) * (m + 1) > maxAlignmentCells) {
+    throw new Error(`${n.toLocaleString()} × ${m.toLocaleString()} is too large to align; select a shorter region`);
+  }
+
+  const { mode, matrix, gapOpen, gapExtend } = options;
+  const local = mode === "local";
+  const freeEnds = mode === "semiglobal";
+  const width = m + 1;
+  const traceback = new Uint8Array((n + 1) * width);
+  const none = -Infinity;
+
+  // Best score ending in each state, for the previous and current row
+  let prevM = new Float64Array(width).fill(none);
+  let prevX = new Float64Array(width).fill(none);
+  let prevY = new Float64Array(width).fill(none);
+  let curM = new Float64Array(width);
+  let curX = new Float64Array(width);
+  let curY = new Float64Array(width);
+
+  // Row 0: only gaps in the query
+  prevM[0] = 0;
+  for (let j = 1; j <= m; j++) {
+    prevY[j] = local ? none : freeEnds ? 0 : -(gapOpen + (j - 1) * gapExtend);
+    traceback[j] = (j === 1 ? MATCH : TARGET_GAP_STATE) << 4;
+  }
+
+  let best = { score: local ? 0 : none, i: n, j: m, state: MATCH };
+  const consider = (score: number, i: number, j: number, state: number) => {
+    if (score > best.score) best = { score, i, j, state };
+  };
+
+  for (let i = 1; i <= n; i++) {
+    curM[0] = none;
+    curY[0] = none;
+    curX[0] = local ? none : freeEnds ? 0 : -(gapOpen + (i - 1) * gapExtend);
+    traceback[i * width] = (i === 1 ? MATCH : QUERY_GAP_STATE) << 2;
+    const letter = query[i - 1];
+
+    for (let j = 1; j <= m; j++) {
+      let pointers = 0;
+
+      // Pair query[i-1] with target[j-1]
+      let from = prevM[j - 1];
+      let pointer = MATCH;
+      if (prevX[j - 1] > from) { from = prevX[j - 1]; pointer = QUERY_GAP_STATE; }
+      if (prevY[j - 1] > from) { from = prevY[j - 1]; pointer = TARGET_GAP_STATE; }
+      if (local && from < 0) { from = 0; pointer = START; }
+      curM[j] = from + matrix.score(letter, target[j - 1]);
+      pointers |= pointer;
+
+      // Query letter against a gap, coming from the row above
+      let x = prevM[j] - gapOpen;
+      pointer = MATCH;
+      if (prevX[j] - gapExtend > x) { x = prevX[j] - gapExtend; pointer = QUERY_GAP_STATE; }
+      if (prevY[j] - gapOpen > x) { x = prevY[j] - gapOpen; pointer = TARGET_GAP_STATE; }
+      curX[j] = x;
+      pointers |= pointer << 2;
+
+      // Target letter against a gap, coming from the left
+      let y = curM[j - 1] - gapOpen;
+      pointer = MATCH;
+      if (curY[j - 1] - gapExtend > y) { y = curY[j - 1] - gapExtend; pointer = TARGET_GAP_STATE; }
+      if (curX[j - 1] - gapOpen > y) { y = curX[j - 1] - gapOpen; pointer = QUERY_GAP_STATE; }
+      curY[j] = y;
+      pointers |= pointer << 4;
+
+      traceback[i * width + j] = pointers;
+
+      if (local) consider(curM[j], i, j, MATCH);
+      else if (freeEnds && (i === n || j === m)) {
+        consider(curM[j], i, j, MATCH);
+        consider(curX[j], i, j, QUERY_GAP_STATE);
+        consider(curY[j], i, j, TARGET_GAP_STATE);
+      }
+    }
+
+    [prevM, curM] = [curM, prevM];
+    [prevX, curX] = [curX, prevX];
+    [prevY, curY] = [curY, prevY];
+  }
+
+  if (mode === "global") {
+    consider(prevM[m], n, m, MATCH);
+    consider(prevX[m], n, m, QUERY_GAP_STATE);
+    consider(prevY[m], n, m, TARGET_GAP_STATE);
+  }
+
+  // Walk back from the best cell
+  const alignedQuery: string[] = [];
+  const alignedTarget: string[] = [];
+  let { i, j, state } = best;
+
+  // Overhangs past the end of a free-end alignment
+  if (freeEnds) {
+    for (let k = n; k > i; k--) { alignedQuery.push(query[k - 1]); alignedTarget.push("-"); }
+    for (let k = m; k > j; k--) { alignedQuery.push("-"); alignedTarget.push(target[k - 1]); }
+  }
+  const queryEnd = local ? i : n;
+  const targetEnd = local ? j : m;
+
+  while (i > 0 || j > 0) {
+    if (!local) {
+      if (i === 0) state = TARGET_GAP_STATE;
+      else if (j === 0) state = QUERY_GAP_STATE;
+    }
+    const pointers = traceback[i * width + j];
+
+    if (state === MATCH) {
+      if (local && i === 0) break;
+      const previous = pointers & 3;
+      alignedQuery.push(query[i - 1]);
+      alignedTarget.push(target[j - 1]);
+      i--;
+      j--;
+      if (previous === START) break;
+      state = previous;
+    } else if (state === QUERY_GAP_STATE) {
+      alignedQuery.push(query[i - 1]);
+      alignedTarget.push("-");
+      state = (pointers >> 2) & 3;
+      i--;
+    } else {
+      alignedQuery.push("-");
+      alignedTarget.push(target[j - 1]);
+      state = (pointers >> 4) & 3;
+      j--;
+    }
+  }
+
+  const queryText = alignedQuery.reverse().join("");
+  const targetText = alignedTarget.reverse().join("");
+
+  let identities = 0;
+  let similarities = 0;
+  let gaps = 0;
+  for (let k = 0; k < queryText.length; k++) {
+    const a = queryText[k];
+    const b = targetText[k];
+    if (a === "-" || b === "-") gaps++;
+    else if (a === b) { identities++; similarities++; }
+    else if (matrix.score(a, b) > 0) similarities++;
+  }
+
+  return {
+    mode,
+    score: best.score,
+    query: queryText,
+    target: targetText,
+    queryStart: local ? i : 0,
+    queryEnd,
+    targetStart: local ? j : 0,
+    targetEnd,
+    length: queryText.length,
+    identities,
+    similarities,
+    gaps
+  };
+}
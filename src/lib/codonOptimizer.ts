@@ -0,0 +1,300 @@
+import {
+  codonAdaptationIndex,
+  countCodons,
+  defaultRareThreshold,
+  getCodonHost,
+  relativeAdaptiveness
+} from "@/lib/codonUsage";
+import { commonEnzymes, findRecognitionSites, getEnzyme } from "@/lib/enzymes";
+import { getGeneticCode } from "@/lib/geneticCode";
+import { calculateGCContent, SequenceRange } from "@/lib/sequenceUtils";
+
+export interface OptimizerSettings {
+  // Codon usage host id (see codonHosts)
+  host: string;
+  // NCBI translation table number
+  table: number;
+  // Enzymes whose recognition sequences must not appear
+  avoidEnzymes: string[];
+  // Longest run of a single base allowed
+  maxHomopolymer: number;
+  // GC content every window of gcWindow bases must stay within (%)
+  gcWindow: number;
+  gcMin: number;
+  gcMax: number;
+  // Codons below this relative adaptiveness are only used to satisfy the constraints
+  rareThreshold: number;
+}
+
+export const defaultOptimizerSettings: OptimizerSettings = {
+  host: "ecoli",
+  table: 1,
+  avoidEnzymes: commonEnzymes,
+  maxHomopolymer: 5,
+  gcWindow: 50,
+  gcMin: 30,
+  gcMax: 70,
+  rareThreshold: defaultRareThreshold
+};
+
+// A stretch of a coding sequence that breaks one of the settings
+export interface SequenceIssue extends SequenceRange {
+  kind: "site" | "homopolymer" | "gc";
+  description: string;
+}
+
+export interface CodingAssessment {
+  cai: number | null;
+  gc: number;
+  issues: SequenceIssue[];
+}
+
+// Penalties for a candidate codon; any constraint outweighs codon preference, which is below 1.
+// Homopolymers are charged per base over the limit and GC per window out of range, so a
+// longer run or a wider GC excursion always costs more than a shorter one.
+const penalties = { site: 100, homopolymer: 10, gc: 10, rare: 1 };
+
+// Partial back-translations kept at each residue
+const beamWidth = 24;
+
+// Runs of one base longer than `maxLength`
+function homopolymers(dna: string, maxLength: number): SequenceRange[] {
+  const runs: SequenceRange[] = [];
+  const regex = new RegExp(`([ACGT])\\1{${maxLength},}`, "g");
+  let match;
+  while ((match = regex.exec(dna)) !== null) {
+    runs.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return runs;
+}
+
+// GC content of every full window, by window start
+function windowGC(dna: string, window: number): number[] {
+  if (dna.length < window) return [];
+  const isGC = (base: string) => (base === "G" || base === "C" ? 1 : 0);
+  let count = 0;
+  for (let i = 0; i < window; i++) count += isGC(dna[i]);
+  const values = [(count / window) * 100];
+  for (let i = window; i < dna.length; i++) {
+    count += isGC(dna[i]) - isGC(dna[i - window]);
+    values.push((count / window) * 100);
+  }
+  return values;
+}
+
+// Sites, homopolymers and GC windows in a coding sequence that break the settings
+export function findSequenceIssues(sequence: string, settings: OptimizerSettings): SequenceIssue[] {
+  const dna = sequence.toUpperCase().replace(/U/g, "T");
+  const issues: SequenceIssue[] = [];
+
+  for (const site of findRecognitionSites(dna, settings.avoidEnzymes)) {
+    issues.push({ kind: "site", start: site.start, end: site.end, description: `${site.enzyme} site` });
+  }
+
+  for (const run of homopolymers(dna, settings.maxHomopolymer)) {
+    issues.push({ ...run, kind: "homopolymer", description: `${run.end - run.start} × ${dna[run.start]}` });
+  }
+
+  // Overlapping windows outside the range are merged into one issue
+  let open: { start: number; end: number; extreme: number } | null = null;
+  const close = () => {
+    if (open) issues.push({ kind: "gc", start: open.start, end: open.end, description: `${open.extreme.toFixed(0)}% GC` });
+  };
+  windowGC(dna, settings.gcWindow).forEach((gc, start) => {
+    if (gc >= settings.gcMin && gc <= settings.gcMax) return;
+    if (open && start <= open.end) {
+      open.end = start + settings.gcWindow;
+      open.extreme = gc < settings.gcMin ? Math.min(open.extreme, gc) : Math.max(open.extreme, gc);
+    } else {
+      close();
+      open = { start, end: start + settings.gcWindow, extreme: gc };
+    }
+  });
+  close();
+
+  return issues.sort((a, b) => a.start - b.start);
+}
+
+// CAI, GC content and constraint violations of a coding sequence. With `upstream` and
+// `downstream` the flanking bases are checked too, and issues spanning a junction are kept.
+export function assessCoding(
+  sequence: string,
+  settings: OptimizerSettings,
+  flanks: { upstream?: string; downstream?: string } = {}
+): CodingAssessment {
+  const upstream = (flanks.upstream || "").toUpperCase().replace(/U/g, "T");
+  const downstream = (flanks.downstream || "").toUpperCase().replace(/U/g, "T");
+  const dna = sequence.toUpperCase().replace(/U/g, "T");
+  const issues = findSequenceIssues(upstream + dna + downstream, settings)
+    .filter(issue => issue.end > upstream.length && issue.start < upstream.length + dna.length)
+    .map(issue => ({ ...issue, start: issue.start - upstream.length, end: issue.end - upstream.length }));
+
+  return {
+    cai: codonAdaptationIndex(countCodons(sequence), getCodonHost(settings.host), settings.table),
+    gc: calculateGCContent(sequence),
+    issues
+  };
+}
+
+// Letters of a protein that no codon of the table encodes, such as X, B or Z
+export function untranslatableResidues(protein: string, table: number): string[] {
+  const encoded = new Set(Object.values(getGeneticCode(table).codons));
+  const residues = protein.toUpperCase().replace(/[^A-Z*]/g, "").split("");
+  return [...new Set(residues.filter(residue => !encoded.has(residue)))];
+}
+
+// One partial back-translation: its last bases, the length of the run they end in,
+// and the codon it added to its parent
+interface BeamState {
+  tail: string;
+  run: number;
+  score: number;
+  codon: string;
+  parent: BeamState | null;
+}
+
+// Back-translate a protein for the host. A beam search keeps the best partial sequences
+// at every residue, so a codon that only looks good locally (TTT before another Phe, say)
+// can lose to a synonym that keeps clear of the avoided sites, long homopolymers and GC
+// extremes further on. The same input always gives the same sequence.
+// `upstream` and `downstream` are the bases around the coding sequence, so both
+// junctions are checked too; `firstCodon` keeps an existing start codon. Residues no
+// codon encodes (X from an ambiguous codon, say) keep their codon from `original`, the
+// coding sequence being recoded; without one they can't be back-translated and it throws.
+export function optimizeCodons(
+  protein: string,
+  settings: OptimizerSettings,
+  options: { upstream?: string; downstream?: string; firstCodon?: string; original?: string } = {}
+): string {
+  const code = getGeneticCode(settings.table);
+  const weights = relativeAdaptiveness(getCodonHost(settings.host), settings.table);
+
+  // Synonymous codons, most adapted first
+  const synonyms: Record<string, string[]> = {};
+  for (const [codon, aminoAcid] of Object.entries(code.codons)) {
+    (synonyms[aminoAcid] = synonyms[aminoAcid] || []).push(codon);
+  }
+  for (const codons of Object.values(synonyms)) {
+    codons.sort((a, b) => weights[b] - weights[a] || a.localeCompare(b));
+  }
+
+  const longestSite = Math.max(
+    0,
+    ...settings.avoidEnzymes.map(name => getEnzyme(name)?.recognition.length || 0)
+  );
+  // Bases the checks need to look back over
+  const context = Math.max(longestSite + 2, settings.gcWindow, settings.maxHomopolymer + 3);
+  const outOfRange = (window: string) => {
+    let count = 0;
+    for (let i = 0; i < window.length; i++) if (window[i] === "G" || window[i] === "C") count++;
+    const gc = (count / window.length) * 100;
+    return gc < settings.gcMin || gc > settings.gcMax;
+  };
+
+  // Penalty for adding `codon` after a state: preference plus whatever the new bases break
+  const extend = (state: BeamState, codon: string): BeamState => {
+    const extended = state.tail + codon;
+    let score = state.score;
+    if (weights[codon] !== undefined) {
+      score += 1 - weights[codon];
+      if (weights[codon] < settings.rareThreshold) score += penalties.rare;
+    }
+
+    // Sites that end inside the new codon
+    if (longestSite) {
+      const tail = extended.slice(-(longestSite + 2));
+      score += penalties.site * findRecognitionSites(tail, settings.avoidEnzymes)
+        .filter(site => site.end > tail.length - 3).length;
+    }
+
+    // Every base that takes the run it ends past the limit, however long the run already is
+    let run = state.run;
+    for (let i = 0; i < 3; i++) {
+      const previous = extended[extended.length - 4 + i];
+      run = previous === codon[i] ? run + 1 : 1;
+      if (run > settings.maxHomopolymer) score += penalties.homopolymer;
+    }
+
+    // The windows ending at each new base
+    for (let end = extended.length - 2; end <= extended.length; end++) {
+      if (end >= settings.gcWindow && outOfRange(extended.slice(end - settings.gcWindow, end))) {
+        score += penalties.gc;
+      }
+    }
+
+    return { tail: extended.slice(-context), run, score, codon, parent: state };
+  };
+
+  // Sites, runs and GC windows that cross from the coding sequence into the downstream bases
+  const downstream = (options.downstream || "").toUpperCase().replace(/U/g, "T").slice(0, context);
+  const junctionPenalty = (state: BeamState) => {
+    if (!downstream) return 0;
+    const joined = state.tail + downstream;
+    const junction = state.tail.length;
+    let penalty = penalties.site * findRecognitionSites(joined, settings.avoidEnzymes)
+      .filter(site => site.start < junction && site.end > junction).length;
+
+    let run = state.run;
+    for (let i = 0; i < downstream.length && downstream[i] === joined[junction - 1]; i++) {
+      run++;
+      if (run > settings.maxHomopolymer) penalty += penalties.homopolymer;
+    }
+
+    for (let end = junction + 1; end <= joined.length && end - settings.gcWindow < junction; end++) {
+      if (end >= settings.gcWindow && outOfRange(joined.slice(end - settings.gcWindow, end))) {
+        penalty += penalties.gc;
+      }
+    }
+    return penalty;
+  };
+
+  // Bases that decide which sites and runs the next codons can make
+  const recentBases = Math.max(longestSite, settings.maxHomopolymer) + 3;
+
+  const upstream = (options.upstream || "").toUpperCase().replace(/U/g, "T").slice(-context);
+  let trailing = 0;
+  while (trailing < upstream.length && upstream[upstream.length - 1 - trailing] === upstream[upstream.length - 1]) {
+    trailing++;
+  }
+  let beam: BeamState[] = [{ tail: upstream, run: trailing, score: 0, codon: "", parent: null }];
+
+  const original = (options.original || "").toUpperCase().replace(/U/g, "T");
+  const residues = protein.toUpperCase().replace(/[^A-Z*]/g, "");
+  for (let i = 0; i < residues.length; i++) {
+    const kept = original.slice(3 * i, 3 * i + 3);
+    if (!synonyms[residues[i]] && kept.length < 3) {
+      throw new Error(`No codon encodes ${residues[i]} at residue ${i + 1}`);
+    }
+    const candidates = i === 0 && options.firstCodon
+      ? [options.firstCodon.toUpperCase()]
+      : synonyms[residues[i]] || [kept];
+
+    // Only the better of two states ending in the same bases is kept, so the beam holds
+    // different recent codons rather than variants of codons far back. Sorting is stable,
+    // so ties keep the parent's rank and then the most adapted codon.
+    const best = new Map<string, BeamState>();
+    for (const state of beam) {
+      for (const codon of candidates) {
+        const next = extend(state, codon);
+        const key = `${next.run}:${next.tail.slice(-recentBases)}`;
+        const kept = best.get(key);
+        if (!kept || next.score < kept.score) best.set(key, next);
+      }
+    }
+    beam = [...best.values()].sort((a, b) => a.score - b.score).slice(0, beamWidth);
+  }
+
+  let last = beam[0];
+  let lowest = Infinity;
+  for (const state of beam) {
+    const total = state.score + junctionPenalty(state);
+    if (total < lowest) {
+      lowest = total;
+      last = state;
+    }
+  }
+
+  const codons: string[] = [];
+  for (let state: BeamState | null = last; state?.parent; state = state.parent) codons.push(state.codon);
+  return codons.reverse().join("");
+}
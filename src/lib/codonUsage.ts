@@ -0,0 +1,302 @@
+import { getGeneticCode } from "@/lib/geneticCode";
+import { Annotation } from "@/lib/features";
+import { rangeLength, SequenceRange } from "@/lib/sequenceUtils";
+
+// Codon usage of expression hosts, for CAI, tAI and rare codon checks. Usage is
+// in codons per thousand from the Codon Usage Database (https://www.kazusa.or.jp/codon/),
+// listed in TCAG order like the tables in geneticCode.ts.
+
+export interface CodonHost {
+  id: string;
+  name: string;
+  organism: string;
+  // Codon -> occurrences per thousand codons
+  usage: Record<string, number>;
+  // Anticodon (5'-3', DNA letters) -> tRNA gene copies, when known; needed for tAI
+  trnaGenes?: Record<string, number>;
+}
+
+const bases = "TCAG";
+const allCodons = [...bases].flatMap(first => [...bases].flatMap(second => [...bases].map(third => first + second + third)));
+
+const hostData: { id: string; name: string; organism: string; usage: number[]; trnaGenes?: Record<string, number> }[] = [
+  {
+    id: "ecoli",
+    name: "E. coli",
+    organism: "Escherichia coli K-12",
+    usage: [
+      22.1, 16.2, 13.9, 13.3, 8.5, 8.6, 7.2, 8.9, 16.2, 12.2, 2.0, 0.2, 5.1, 6.5, 1.0, 15.3,
+      11.0, 11.0, 3.9, 52.6, 7.0, 5.5, 8.4, 23.2, 12.9, 9.7, 15.3, 28.8, 20.9, 22.0, 3.6, 5.4,
+      30.3, 25.0, 4.4, 27.8, 9.0, 23.4, 7.1, 14.4, 17.7, 21.7, 33.6, 10.3, 8.8, 16.1, 2.1, 1.2,
+      18.3, 15.3, 10.9, 26.4, 15.3, 25.5, 20.3, 33.7, 32.1, 19.1, 39.6, 17.8, 24.7, 29.6, 8.0, 11.1
+    ],
+    // GtRNAdb, elongator tRNAs; the lysidine tRNA-Ile (LAU) reads AUA and is listed as TAT
+    trnaGenes: {
+      GGC: 2, TGC: 3, ACG: 4, CCG: 1, CCT: 1, TCT: 1, GTT: 4, GTC: 3, GCA: 1, CTG: 2, TTG: 2,
+      TTC: 4, CCC: 1, GCC: 4, TCC: 1, GTG: 1, GAT: 3, TAT: 2, CAA: 1, CAG: 4, GAG: 1, TAA: 1,
+      TAG: 1, TTT: 6, CAT: 2, GAA: 2, CGG: 1, GGG: 1, TGG: 1, CGA: 1, GCT: 1, GGA: 2, TGA: 1,
+      CGT: 1, GGT: 2, TGT: 1, CCA: 1, GTA: 3, GAC: 2, TAC: 5
+    }
+  },
+  {
+    id: "scerevisiae",
+    name: "S. cerevisiae",
+    organism: "Saccharomyces cerevisiae",
+    usage: [
+      26.1, 18.4, 26.2, 27.2, 23.5, 14.2, 18.7, 8.6, 18.8, 14.8, 1.1, 0.5, 8.1, 4.8, 0.7, 10.4,
+      12.3, 5.4, 13.4, 10.5, 13.5, 6.8, 18.3, 5.3, 13.6, 7.8, 27.3, 12.1, 6.4, 2.6, 3.0, 1.7,
+      30.1, 17.2, 17.8, 20.9, 20.3, 12.7, 17.8, 8.0, 35.7, 24.8, 41.9, 30.8, 14.2, 9.8, 21.3, 9.2,
+      22.1, 11.8, 11.8, 10.8, 21.2, 12.6, 16.2, 6.2, 37.6, 20.2, 45.6, 19.2, 23.9, 9.8, 10.9, 6.0
+    ],
+    // GtRNAdb, nuclear elongator tRNAs
+    trnaGenes: {
+      AGC: 11, TGC: 5, ACG: 6, CCG: 1, CCT: 1, TCT: 11, GTT: 10, GTC: 15, GCA: 4, CTG: 1, TTG: 9,
+      CTC: 2, TTC: 14, CCC: 2, GCC: 16, TCC: 3, GTG: 7, AAT: 13, TAT: 2, CAA: 10, GAG: 1, TAA: 7,
+      TAG: 3, CTT: 14, TTT: 7, CAT: 5, GAA: 10, AGG: 2, TGG: 10, AGA: 11, CGA: 1, GCT: 4, TGA: 3,
+      AGT: 11, CGT: 1, TGT: 4, CCA: 6, GTA: 8, AAC: 14, CAC: 2, TAC: 2
+    }
+  },
+  {
+    id: "human",
+    name: "Human",
+    organism: "Homo sapiens",
+    usage: [
+      17.6, 20.3, 7.7, 12.9, 15.2, 17.7, 12.2, 4.4, 12.2, 15.3, 1.0, 0.8, 10.6, 12.6, 1.6, 13.2,
+      13.2, 19.6, 7.2, 39.6, 17.5, 19.8, 16.9, 6.9, 10.9, 15.1, 12.3, 34.2, 4.5, 10.4, 6.2, 11.4,
+      16.0, 20.8, 7.5, 22.0, 13.1, 18.9, 15.1, 6.1, 17.0, 19.1, 24.4, 31.9, 12.1, 19.5, 12.2, 12.0,
+      11.0, 14.5, 7.1, 28.1, 18.4, 27.7, 15.8, 7.4, 21.8, 25.1, 29.0, 39.6, 10.8, 22.2, 16.5, 16.5
+    ],
+    // GtRNAdb hg19, nuclear elongator tRNAs without pseudogenes
+    trnaGenes: {
+      AGC: 29, CGC: 5, TGC: 9, ACG: 7, CCG: 4, CCT: 5, TCG: 6, TCT: 6, GTT: 33, GTC: 19, GCA: 30,
+      CTG: 21, TTG: 11, CTC: 15, TTC: 14, CCC: 8, GCC: 15, TCC: 9, GTG: 11, AAT: 16, GAT: 3, TAT: 5,
+      AAG: 13, CAA: 7, CAG: 10, TAA: 7, TAG: 4, CTT: 17, TTT: 16, CAT: 13, GAA: 12, AGG: 11, CGG: 4,
+      TGG: 7, AGA: 11, CGA: 4, GCT: 8, TGA: 4, AGT: 11, CGT: 6, TGT: 6, CCA: 9, GTA: 14, AAC: 11,
+      CAC: 16, TAC: 5
+    }
+  },
+  {
+    id: "cho",
+    name: "CHO",
+    organism: "Cricetulus griseus",
+    usage: [
+      19.6, 22.0, 6.4, 14.1, 16.0, 16.5, 10.3, 3.3, 13.1, 16.4, 0.5, 0.5, 9.1, 10.3, 1.0, 13.0,
+      13.3, 18.3, 7.6, 38.8, 16.7, 16.6, 15.6, 4.6, 10.2, 13.1, 10.3, 33.6, 5.7, 9.4, 6.7, 10.2,
+      17.4, 24.5, 6.9, 23.3, 14.4, 19.6, 15.8, 4.9, 17.4, 20.6, 24.1, 36.1, 12.5, 17.2, 10.1, 10.2,
+      11.0, 15.6, 7.9, 29.7, 20.0, 26.6, 15.9, 4.6, 24.2, 27.1, 28.7, 40.5, 11.0, 20.9, 16.4, 12.9
+    ]
+  },
+  {
+    id: "pichia",
+    name: "Pichia",
+    organism: "Komagataella pastoris",
+    usage: [
+      24.1, 20.6, 15.6, 31.5, 24.4, 16.5, 15.2, 7.4, 16.0, 18.1, 0.8, 0.5, 7.7, 2.6, 0.3, 10.3,
+      15.9, 7.6, 10.7, 14.9, 15.8, 6.8, 18.9, 3.9, 11.8, 9.1, 25.4, 16.3, 6.9, 2.2, 4.2, 1.9,
+      31.1, 19.4, 11.1, 18.7, 22.4, 14.5, 13.8, 6.0, 25.1, 26.7, 29.9, 33.8, 12.5, 7.6, 20.1, 6.6,
+      26.9, 14.9, 9.9, 12.3, 28.9, 16.6, 15.1, 3.9, 35.7, 25.9, 37.4, 29.0, 25.5, 8.1, 19.1, 5.8
+    ]
+  }
+];
+
+export const codonHosts: CodonHost[] = hostData.map(({ usage, ...host }) => ({
+  ...host,
+  usage: Object.fromEntries(allCodons.map((codon, index) => [codon, usage[index]]))
+}));
+
+export function getCodonHost(id: string): CodonHost {
+  return codonHosts.find(host => host.id === id) || codonHosts[0];
+}
+
+// Relative adaptiveness below this marks a rare codon by default
+export const defaultRareThreshold = 0.2;
+
+// Stand-in for codons a host never uses, so one of them doesn't zero the CAI
+const minAdaptiveness = 0.01;
+
+// Codons of a region and the top-strand position of each of their bases
+export interface CodingRegion {
+  bases: string;
+  positions: number[];
+  strand: 1 | -1;
+}
+
+// Bases of a range or feature read 5'-3' on its own strand, joining segments and
+// running through the origin where the range wraps
+export function codingRegion(
+  sequence: string,
+  region: SequenceRange & Partial<Pick<Annotation, "direction" | "locations">>
+): CodingRegion {
+  const length = sequence.length;
+  const parts = region.locations?.length ? region.locations : [region];
+  const positions = parts.flatMap(part =>
+    Array.from({ length: rangeLength(part, length) }, (_, i) => (part.start + i) % length)
+  );
+  if (region.direction === -1) positions.reverse();
+
+  const complement: Record<string, string> = { A: "T", T: "A", G: "C", C: "G" };
+  const upper = sequence.toUpperCase().replace(/U/g, "T");
+  const bases = positions
+    .map(position => (region.direction === -1 ? complement[upper[position]] || "N" : upper[position]))
+    .join("");
+
+  return { bases, positions, strand: region.direction === -1 ? -1 : 1 };
+}
+
+// Counts of each of the 64 codons in frame from the first base; codons with other letters are skipped
+export function countCodons(bases: string): Record<string, number> {
+  const counts: Record<string, number> = Object.fromEntries(allCodons.map(codon => [codon, 0]));
+  const seq = bases.toUpperCase().replace(/U/g, "T");
+  for (let i = 0; i + 3 <= seq.length; i += 3) {
+    const codon = seq.slice(i, i + 3);
+    if (codon in counts) counts[codon]++;
+  }
+  return counts;
+}
+
+// Codons of each amino acid (and "*" for stops) in a translation table
+function synonymousCodons(table: number): Record<string, string[]> {
+  const groups: Record<string, string[]> = {};
+  for (const [codon, aminoAcid] of Object.entries(getGeneticCode(table).codons)) {
+    (groups[aminoAcid] = groups[aminoAcid] || []).push(codon);
+  }
+  return groups;
+}
+
+// Usage of each codon relative to the host's most used synonym (Sharp & Li 1987)
+export function relativeAdaptiveness(host: CodonHost, table = 1): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const synonyms of Object.values(synonymousCodons(table))) {
+    const best = Math.max(...synonyms.map(codon => host.usage[codon]));
+    for (const codon of synonyms) {
+      weights[codon] = best ? Math.max(host.usage[codon] / best, minAdaptiveness) : 1;
+    }
+  }
+  return weights;
+}
+
+// Geometric mean of per-codon weights over a set of counts
+function geometricMean(counts: Record<string, number>, weights: Record<string, number>, codons: string[]): number | null {
+  let total = 0;
+  let logSum = 0;
+  for (const codon of codons) {
+    if (!counts[codon]) continue;
+    total += counts[codon];
+    logSum += counts[codon] * Math.log(weights[codon]);
+  }
+  return total ? Math.exp(logSum / total) : null;
+}
+
+// Codon Adaptation Index against the host, leaving out stops and amino acids with a single codon
+export function codonAdaptationIndex(counts: Record<string, number>, host: CodonHost, table = 1): number | null {
+  const weights = relativeAdaptiveness(host, table);
+  const codons = Object.entries(synonymousCodons(table))
+    .filter(([aminoAcid, synonyms]) => aminoAcid !== "*" && synonyms.length > 1)
+    .flatMap(([, synonyms]) => synonyms);
+  return geometricMean(counts, weights, codons);
+}
+
+// Wobble penalties of dos Reis et al. 2004, by the pairing at the codon's third base
+const wobble = { IU: 0, GU: 0.41, IC: 0.28, IA: 0.9999, UG: 0.68 };
+
+const complementBase: Record<string, string> = { A: "T", T: "A", G: "C", C: "G" };
+
+// tRNA adaptiveness of each codon from the host's tRNA gene copies, or null when they are not bundled.
+// An A at the wobble position is read as inosine.
+export function trnaAdaptiveness(host: CodonHost): Record<string, number> | null {
+  const genes = host.trnaGenes;
+  if (!genes) return null;
+
+  const raw = Object.fromEntries(allCodons.map(codon => {
+    const core = complementBase[codon[1]] + complementBase[codon[0]];
+    const copies = (wobbleBase: string) => genes[wobbleBase + core] || 0;
+    const third = codon[2];
+    const weight = third === "T" ? copies("A") * (1 - wobble.IU) + copies("G") * (1 - wobble.GU)
+      : third === "C" ? copies("G") + copies("A") * (1 - wobble.IC)
+      : third === "A" ? copies("T") + copies("A") * (1 - wobble.IA)
+      : copies("C") + copies("T") * (1 - wobble.UG);
+    return [codon, weight];
+  }));
+
+  const best = Math.max(...Object.values(raw));
+  const nonZero = Object.values(raw).filter(weight => weight > 0).map(weight => weight / best);
+  // Codons without a matching tRNA get the geometric mean of the others
+  const fallback = Math.exp(nonZero.reduce((sum, weight) => sum + Math.log(weight), 0) / nonZero.length);
+  return Object.fromEntries(Object.entries(raw).map(([codon, weight]) => [codon, weight ? weight / best : fallback]));
+}
+
+// tRNA Adaptation Index, leaving out stops and ATG; null when the host has no tRNA data
+export function trnaAdaptationIndex(counts: Record<string, number>, host: CodonHost, table = 1): number | null {
+  const weights = trnaAdaptiveness(host);
+  if (!weights) return null;
+  const stops = new Set(getGeneticCode(table).stops);
+  return geometricMean(counts, weights, allCodons.filter(codon => codon !== "ATG" && !stops.has(codon)));
+}
+
+export interface CodonStat {
+  codon: string;
+  aminoAcid: string;
+  count: number;
+  perThousand: number;
+  // Share of the amino acid's codons
+  fraction: number;
+  // Relative synonymous codon usage: 1 when all synonyms are used equally
+  rscu: number;
+  hostPerThousand: number;
+  // Relative adaptiveness in the host
+  adaptiveness: number;
+  rare: boolean;
+}
+
+// Usage of every codon, grouped by amino acid with stops last
+export function codonUsage(
+  counts: Record<string, number>,
+  host: CodonHost,
+  table = 1,
+  rareThreshold = defaultRareThreshold
+): CodonStat[] {
+  const weights = relativeAdaptiveness(host, table);
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+  return Object.entries(synonymousCodons(table))
+    .sort(([a], [b]) => (a === "*" ? 1 : b === "*" ? -1 : a.localeCompare(b)))
+    .flatMap(([aminoAcid, synonyms]) => {
+      const aminoAcidTotal = synonyms.reduce((sum, codon) => sum + counts[codon], 0);
+      return synonyms.map(codon => ({
+        codon,
+        aminoAcid,
+        count: counts[codon],
+        perThousand: total ? (counts[codon] / total) * 1000 : 0,
+        fraction: aminoAcidTotal ? counts[codon] / aminoAcidTotal : 0,
+        rscu: aminoAcidTotal ? (counts[codon] * synonyms.length) / aminoAcidTotal : 0,
+        hostPerThousand: host.usage[codon],
+        adaptiveness: weights[codon],
+        rare: aminoAcid !== "*" && weights[codon] < rareThreshold
+      }));
+    });
+}
+
+// Top-strand ranges of the region's codons the host rarely uses
+export function rareCodonRanges(
+  region: CodingRegion,
+  sequenceLength: number,
+  host: CodonHost,
+  table = 1,
+  rareThreshold = defaultRareThreshold
+): SequenceRange[] {
+  const weights = relativeAdaptiveness(host, table);
+  const stops = new Set(getGeneticCode(table).stops);
+  const ranges: SequenceRange[] = [];
+
+  for (let i = 0; i + 3 <= region.bases.length; i += 3) {
+    const codon = region.bases.slice(i, i + 3);
+    if (weights[codon] === undefined || stops.has(codon) || weights[codon] >= rareThreshold) continue;
+    // First and last base in top-strand order
+    const [first, last] = region.strand === 1
+      ? [region.positions[i], region.positions[i + 2]]
+      : [region.positions[i + 2], region.positions[i]];
+    ranges.push({ start: first, end: (last + 1) % sequenceLength || sequenceLength });
+  }
+
+  return ranges;
+}
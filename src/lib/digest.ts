@@ -0,0 +1,64 @@
+import { CutSite, findCutSites } from "@/lib/enzymes";
+import { SequenceRange } from "@/lib/sequenceUtils";
+
+// A piece of the molecule left by a digest. Fragments of circular molecules can
+// run through the origin (start > end); a circle cut once gives a single
+// fragment with start === end that covers the whole sequence.
+export interface Fragment extends SequenceRange {
+  length: number;
+  // Cuts at the left and right ends, missing at the ends of a linear molecule
+  left?: CutSite;
+  right?: CutSite;
+}
+
+export interface DigestResult {
+  enzymes: string[];
+  cuts: CutSite[];
+  fragments: Fragment[];
+  // A circular molecule none of the enzymes cut
+  uncut: boolean;
+}
+
+// Cut a sequence with one or more enzymes at once and list the fragments in order
+export function digest(sequence: string, enzymeNames: string[], circular = false): DigestResult {
+  const length = sequence.length;
+  const allCuts = findCutSites(sequence, enzymeNames, circular);
+
+  // Enzymes sharing a cut position make a single cut
+  const cuts = allCuts.filter((cut, index) => index === 0 || cut.position !== allCuts[index - 1].position);
+
+  if (!cuts.length) {
+    return {
+      enzymes: enzymeNames,
+      cuts,
+      fragments: length ? [{ start: 0, end: length, length }] : [],
+      uncut: circular && length > 0
+    };
+  }
+
+  const fragments: Fragment[] = [];
+
+  if (circular) {
+    cuts.forEach((cut, index) => {
+      const next = cuts[(index + 1) % cuts.length];
+      const span = next.position - cut.position;
+      fragments.push({
+        start: cut.position,
+        end: next.position,
+        length: span > 0 ? span : span + length,
+        left: cut,
+        right: next
+      });
+    });
+  } else {
+    let previous: CutSite | undefined;
+    for (const cut of [...cuts, undefined]) {
+      const start = previous ? previous.position : 0;
+      const end = cut ? cut.position : length;
+      if (end > start) fragments.push({ start, end, length: end - start, left: previous, right: cut });
+      previous = cut;
+    }
+  }
+
+  return { enzymes: enzymeNames, cuts, fragments, uncut: false };
+}
@@ -0,0 +1,292 @@
+import { z } from "zod";
+import { AIHistoryEntry, Annotation, DocumentNote, Feature, Note, getFeatureColor } from "@/lib/features";
+import { SequenceRecord, Topology } from "@/lib/formats/types";
+import { detectSequenceType, SequenceType } from "@/lib/sequenceUtils";
+
+// Bump when the stored shape changes and add a step to migrateDocument
+export const DOCUMENT_VERSION = 2;
+
+// The sequence being edited, with everything attached to it
+export interface SequenceDocument {
+  version: typeof DOCUMENT_VERSION;
+  sequence: string;
+  alphabet: SequenceType;
+  topology: Topology;
+  features: Feature[];
+  notes: DocumentNote[];
+  metadata: Record<string, string>;
+}
+
+const position = z.number().int().nonnegative();
+
+// zod only infers exact types under strictNullChecks, so parsed values are cast to the interfaces
+const featureSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  start: position,
+  end: position,
+  direction: z.union([z.literal(1), z.literal(-1), z.literal(0)]),
+  color: z.string(),
+  type: z.string().min(1),
+  qualifiers: z.record(z.array(z.string())).optional(),
+  locations: z.array(z.object({ start: position, end: position })).optional(),
+  track: z.string().optional()
+});
+
+const noteSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  content: z.string(),
+  start: position,
+  end: position,
+  createdAt: z.string()
+});
+
+const aiHistorySchema = z.object({
+  prompt: z.string(),
+  response: z.string(),
+  start: position.optional(),
+  end: position.optional(),
+  createdAt: z.string()
+});
+
+const documentSchema = z.object({
+  version: z.literal(DOCUMENT_VERSION),
+  sequence: z.string(),
+  alphabet: z.enum(["dna", "rna", "protein", "unknown"]),
+  topology: z.enum(["linear", "circular"]),
+  features: z.array(featureSchema),
+  notes: z.array(noteSchema),
+  metadata: z.record(z.string())
+});
+
+export function createId(prefix: string): string {
+  const random = typeof crypto !== "undefined" && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  return `${prefix}-${random}`;
+}
+
+// Give every item an id, keeping the ones it already has
+export function withIds<T extends { id?: string }>(items: T[], prefix: string): (T & { id: string })[] {
+  return items.map(item => (item.id ? item as T & { id: string } : { ...item, id: createId(prefix) }));
+}
+
+type Loose = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Loose =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toPosition = (value: unknown): number | undefined => {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) && number >= 0 ? Math.round(number) : undefined;
+};
+
+// Fill in what older annotations left out (ids, type, color, strand) and check the result
+export function normalizeFeature(value: unknown): Feature | null {
+  if (!isObject(value)) return null;
+
+  const start = toPosition(value.start);
+  const end = toPosition(value.end);
+  if (start === undefined || end === undefined) return null;
+
+  const type = typeof value.type === "string" && value.type ? value.type : "misc_feature";
+  const direction = value.direction === -1 || value.direction === 0 ? value.direction : 1;
+
+  const result = featureSchema.safeParse({
+    ...value,
+    id: typeof value.id === "string" && value.id ? value.id : createId("feature"),
+    name: typeof value.name === "string" ? value.name : type,
+    start,
+    end,
+    direction,
+    color: typeof value.color === "string" && value.color ? value.color : getFeatureColor(type),
+    type
+  });
+
+  return result.success ? result.data as Feature : null;
+}
+
+// Fill in what older notes left out (ids, timestamps) and check the result
+export function normalizeNote(value: unknown): DocumentNote | null {
+  if (!isObject(value)) return null;
+
+  const start = toPosition(value.start);
+  const end = toPosition(value.end);
+  if (start === undefined || end === undefined) return null;
+
+  const result = noteSchema.safeParse({
+    id: typeof value.id === "string" && value.id ? value.id : createId("note"),
+    title: typeof value.title === "string" ? value.title : "Note",
+    content: typeof value.content === "string" ? value.content : "",
+    start,
+    end,
+    createdAt: typeof value.createdAt === "string" ? value.createdAt : new Date().toISOString()
+  });
+
+  return result.success ? result.data as DocumentNote : null;
+}
+
+// Keep the valid entries of an untrusted list, reporting how many were dropped
+function parseList<T>(value: unknown, normalize: (item: unknown) => T | null, label: string): T[] {
+  if (!Array.isArray(value)) return [];
+
+  const items = value.map(normalize).filter((item): item is T => item !== null);
+  if (items.length < value.length) {
+    console.warn(`Dropped ${value.length - items.length} invalid ${label}`);
+  }
+  return items;
+}
+
+export function parseFeatures(value: unknown): Feature[] {
+  return parseList(value, normalizeFeature, "features");
+}
+
+export function parseNotes(value: unknown): DocumentNote[] {
+  return parseList(value, normalizeNote, "notes");
+}
+
+export function parseAIHistory(value: unknown): AIHistoryEntry[] {
+  return parseList(value, item => {
+    const result = aiHistorySchema.safeParse(item);
+    return result.success ? result.data as AIHistoryEntry : null;
+  }, "AI history entries");
+}
+
+export function parseMetadata(value: unknown): Record<string, string> {
+  if (!isObject(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+  );
+}
+
+// Bring stored data of any known version up to the current document shape.
+// Version 1 is the original layout, one localStorage key per field with
+// `annotations` instead of `features` and no ids.
+export function migrateDocument(data: unknown): SequenceDocument {
+  if (!isObject(data)) {
+    throw new Error("Saved document is not an object");
+  }
+
+  const version = typeof data.version === "number" ? data.version : 1;
+  if (version > DOCUMENT_VERSION) {
+    throw new Error(`Saved document version ${version} is newer than this app supports`);
+  }
+
+  let current: Loose = data;
+
+  if (version < 2) {
+    current = { ...current, version: 2, features: current.annotations };
+  }
+
+  const sequence = typeof current.sequence === "string" ? current.sequence : "";
+
+  const document: SequenceDocument = {
+    version: DOCUMENT_VERSION,
+    sequence,
+    alphabet: ["dna", "rna", "protein", "unknown"].includes(current.alphabet as string)
+      ? current.alphabet as SequenceType
+      : detectSequenceType(sequence),
+    topology: current.topology === "circular" ? "circular" : "linear",
+    features: parseFeatures(current.features),
+    notes: parseNotes(current.notes),
+    metadata: parseMetadata(current.metadata)
+  };
+
+  return documentSchema.parse(document) as SequenceDocument;
+}
+
+// Build a document from the editor's working state
+export function toDocument(
+  sequence: string,
+  topology: Topology,
+  annotations: Annotation[],
+  notes: Note[],
+  metadata: Record<string, string>
+): SequenceDocument {
+  return {
+    version: DOCUMENT_VERSION,
+    sequence,
+    alphabet: detectSequenceType(sequence),
+    topology,
+    features: withIds(annotations, "feature"),
+    notes: withIds(notes, "note"),
+    metadata
+  };
+}
+
+// localStorage keys for the working project
+export const storageKeys = {
+  document: "geneforge-document",
+  aiHistory: "geneforge-ai-history",
+  // The saved document as it was when it could not be loaded
+  backup: "geneforge-document-backup",
+};
+
+// One key per field, as saved before the versioned document existed
+export const legacyStorageKeys = {
+  sequence: "geneforge-sequence",
+  annotations: "geneforge-annotations",
+  notes: "geneforge-notes",
+  topology: "geneforge-topology",
+  metadata: "geneforge-metadata",
+};
+
+// Parse a stored JSON value, treating unreadable data as missing
+export function readJson(key: string): unknown {
+  const value = localStorage.getItem(key);
+  if (value === null) return undefined;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.warn(`Ignoring unreadable saved data in ${key}`);
+    return undefined;
+  }
+}
+
+// Load the saved document, migrating the old one-key-per-field layout if that is all there is
+export function readStoredDocument(): SequenceDocument | null {
+  const stored = readJson(storageKeys.document);
+  if (stored !== undefined) {
+    return migrateDocument(stored);
+  }
+
+  const sequence = localStorage.getItem(legacyStorageKeys.sequence);
+  if (sequence === null) return null;
+
+  return migrateDocument({
+    version: 1,
+    sequence,
+    annotations: readJson(legacyStorageKeys.annotations),
+    notes: readJson(legacyStorageKeys.notes),
+    topology: localStorage.getItem(legacyStorageKeys.topology),
+    metadata: readJson(legacyStorageKeys.metadata)
+  });
+}
+
+// Copy the saved document aside, as stored, before anything writes over it; false when that fails
+export function backupStoredDocument(): boolean {
+  try {
+    const raw = localStorage.getItem(storageKeys.document) ?? JSON.stringify(
+      Object.fromEntries(Object.entries(legacyStorageKeys).map(([field, key]) => [field, localStorage.getItem(key)]))
+    );
+    localStorage.setItem(storageKeys.backup, raw);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Primers from imported files are shown as primer_bind features
+export function primerFeatures(record: SequenceRecord): Annotation[] {
+  return (record.primers || []).map(primer => ({
+    name: primer.name,
+    start: primer.start,
+    end: primer.end,
+    direction: primer.direction,
+    color: primer.color || getFeatureColor("primer_bind"),
+    type: "primer_bind",
+    qualifiers: { note: [`sequence: ${primer.sequence}`] }
+  }));
+}
@@ -0,0 +1,21 @@
+// Offer a string or blob to the user as a file download
+export function downloadFile(content: string | Blob, fileName: string, mimeType = "text/plain") {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Make a project name safe to use as a file name
+export function toFileName(name: string, extension: string): string {
+  const base = name.trim().replace(/[^\w.-]+/g, "_").replace(/^_+|_+$/g, "") || "sequence";
+  return `${base}.${extension}`;
+}
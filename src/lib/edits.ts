@@ -0,0 +1,231 @@
+import { Annotation, FeatureLocation, Note } from "@/lib/features";
+
+// A single replacement: `deleted` bases at `position` were replaced by `inserted` new ones
+export interface SequenceEdit {
+  position: number;
+  deleted: number;
+  inserted: number;
+}
+
+// Something an edit did to a feature or note that the user should hear about
+export interface FeatureChange {
+  name: string;
+  kind: "removed" | "truncated" | "frameshift" | "split";
+  detail: string;
+}
+
+export interface RemapOptions {
+  // Sequence length before the edit
+  length: number;
+  // Insertions inside a feature split it around the new bases instead of extending it
+  split?: boolean;
+}
+
+// Feature types whose reading frame an edit can break
+const codingTypes = ["cds", "orf", "mat_peptide", "sig_peptide"];
+
+// Work out which bases changed between two versions of a sequence. `caret` is
+// where the cursor ended up, used to place edits inside runs like AAAA.
+export function diffSequences(before: string, after: string, caret?: number): SequenceEdit | null {
+  if (before === after) return null;
+
+  const shorter = Math.min(before.length, after.length);
+
+  let suffix = 0;
+  if (caret !== undefined && caret >= 0 && caret <= after.length && before.endsWith(after.slice(caret))) {
+    suffix = Math.min(after.length - caret, shorter);
+  } else {
+    while (suffix < shorter && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+  }
+
+  let prefix = 0;
+  while (prefix < shorter - suffix && before[prefix] === after[prefix]) prefix++;
+
+  return {
+    position: prefix,
+    deleted: before.length - prefix - suffix,
+    inserted: after.length - prefix - suffix
+  };
+}
+
+// New position of a feature start: insertions at the start push it along
+function mapStart(position: number, edit: SequenceEdit): number {
+  if (position < edit.position) return position;
+  if (position >= edit.position + edit.deleted) return position - edit.deleted + edit.inserted;
+  return edit.position + edit.inserted;
+}
+
+// New position of a feature end: insertions at the end stay outside it
+function mapEnd(position: number, edit: SequenceEdit): number {
+  if (position <= edit.position) return position;
+  if (position >= edit.position + edit.deleted) return position - edit.deleted + edit.inserted;
+  return edit.position;
+}
+
+// Whether a position falls strictly inside a range, across the origin for wrapped ones
+function isInside(range: FeatureLocation, position: number): boolean {
+  return range.start > range.end
+    ? position > range.start || position < range.end
+    : position > range.start && position < range.end;
+}
+
+// Bases of the range removed by the edit
+function basesLost(range: FeatureLocation, edit: SequenceEdit, length: number): number {
+  const segments = range.start > range.end
+    ? [{ start: range.start, end: length }, { start: 0, end: range.end }]
+    : [range];
+
+  return segments.reduce((total, segment) => total + Math.max(
+    0,
+    Math.min(segment.end, edit.position + edit.deleted) - Math.max(segment.start, edit.position)
+  ), 0);
+}
+
+// Move a range through an edit, or return null when the edit swallowed it
+function mapRange(range: FeatureLocation, edit: SequenceEdit, length: number, newLength: number): FeatureLocation | null {
+  let start = mapStart(range.start, edit);
+  let end = mapEnd(range.end, edit);
+
+  if (range.start > range.end) {
+    // Whatever is left of the parts either side of the origin
+    if (start >= newLength) start = 0;
+    if (end === 0) end = newLength;
+    return start === end || basesLost(range, edit, length) === length - range.start + range.end
+      ? null
+      : { start, end };
+  }
+
+  return end > start ? { start, end } : null;
+}
+
+// Split a segment in two around freshly inserted bases
+function splitAround(segment: FeatureLocation, edit: SequenceEdit): FeatureLocation[] {
+  if (!isInside(segment, edit.position)) return [segment];
+  return [
+    { start: segment.start, end: edit.position },
+    { start: edit.position + edit.inserted, end: segment.end }
+  ];
+}
+
+// Shift, extend, truncate or split annotations so they stay on the same bases
+// after an edit, and report the ones the edit damaged
+export function remapAnnotations<T extends Annotation>(
+  annotations: T[],
+  edit: SequenceEdit,
+  { length, split = false }: RemapOptions
+): { annotations: T[]; changes: FeatureChange[] } {
+  const newLength = length - edit.deleted + edit.inserted;
+  const editEnd = edit.position + edit.deleted;
+  const changes: FeatureChange[] = [];
+  const result: T[] = [];
+
+  for (const annotation of annotations) {
+    const span = mapRange(annotation, edit, length, newLength);
+    let locations = annotation.locations
+      ?.map(location => mapRange(location, edit, length, newLength))
+      .filter((location): location is FeatureLocation => location !== null);
+
+    if (!span || (locations && !locations.length)) {
+      changes.push({ name: annotation.name, kind: "removed", detail: "deleted by the edit" });
+      continue;
+    }
+
+    // Joined features only count bases in their segments, not the gaps between them
+    const parts = annotation.locations || [annotation];
+    const lost = parts.reduce((total, part) => total + basesLost(part, edit, length), 0);
+    const coversStart = edit.position <= annotation.start && annotation.start < editEnd;
+    const coversEnd = edit.position < annotation.end && annotation.end <= editEnd;
+    // The whole edit happened within the feature
+    const within = edit.deleted
+      ? lost === edit.deleted && !coversStart && !coversEnd
+      : parts.some(part => isInside(part, edit.position));
+
+    if (within && split && edit.inserted && !edit.deleted) {
+      locations = (locations || [span]).flatMap(segment => splitAround(segment, edit));
+      changes.push({
+        name: annotation.name,
+        kind: "split",
+        detail: `split around ${edit.inserted} bp inserted at ${edit.position + 1}`
+      });
+    } else if (lost && (coversStart || coversEnd)) {
+      changes.push({ name: annotation.name, kind: "truncated", detail: `lost ${lost} bp at its ${coversStart ? "start" : "end"}` });
+    } else if (within && codingTypes.includes(annotation.type.toLowerCase())) {
+      const delta = edit.inserted - edit.deleted;
+      if (delta % 3 !== 0) {
+        changes.push({
+          name: annotation.name,
+          kind: "frameshift",
+          detail: `${Math.abs(delta)} bp ${delta > 0 ? "inserted" : "deleted"} breaks the reading frame`
+        });
+      }
+    }
+
+    result.push({
+      ...annotation,
+      start: span.start,
+      end: span.end,
+      ...(locations ? { locations } : {})
+    });
+  }
+
+  return { annotations: result, changes };
+}
+
+// Keep notes on the same bases after an edit; notes emptied by it are dropped
+export function remapNotes<T extends Note>(
+  notes: T[],
+  edit: SequenceEdit,
+  length: number
+): { notes: T[]; changes: FeatureChange[] } {
+  const newLength = length - edit.deleted + edit.inserted;
+  const changes: FeatureChange[] = [];
+  const result: T[] = [];
+
+  for (const note of notes) {
+    // Notes on the whole sequence keep covering all of it
+    if (note.start === 0 && note.end === length && newLength > 0) {
+      result.push({ ...note, end: newLength });
+      continue;
+    }
+
+    const range = mapRange(note, edit, length, newLength);
+    if (!range) {
+      changes.push({ name: note.title, kind: "removed", detail: "its bases were deleted" });
+      continue;
+    }
+
+    result.push({ ...note, start: range.start, end: range.end });
+  }
+
+  return { notes: result, changes };
+}
+
+// Position of a base once `origin` has become base 0 of a circular sequence
+function rotatePosition(position: number, origin: number, length: number): number {
+  return (position - origin + length) % length;
+}
+
+// Re-base a range on a new origin; a range ending at the new origin now ends at the last base
+function rotateRange<T extends FeatureLocation>(range: T, origin: number, length: number): T {
+  // Ranges covering the whole sequence keep doing so
+  if (range.start === 0 && range.end === length) return range;
+
+  const start = rotatePosition(range.start, origin, length);
+  const end = rotatePosition(range.end, origin, length) || length;
+  return { ...range, start, end };
+}
+
+// Move annotations onto the coordinates of a circular sequence re-read from `origin`
+export function rotateAnnotations<T extends Annotation>(annotations: T[], origin: number, length: number): T[] {
+  return annotations.map(annotation => ({
+    ...rotateRange(annotation, origin, length),
+    ...(annotation.locations
+      ? { locations: annotation.locations.map(location => rotateRange(location, origin, length)) }
+      : {})
+  }));
+}
+
+// Move notes onto the coordinates of a circular sequence re-read from `origin`
+export function rotateNotes<T extends Note>(notes: T[], origin: number, length: number): T[] {
+  return notes.map(note => rotateRange(note, origin, length));
+}
@@ -0,0 +1,199 @@
+import { Enzymes } from "seqviz";
+import { reverseComplement, SequenceRange } from "@/lib/sequenceUtils";
+
+// Enzymes offered as quick toggles and summarised in reports
+export const commonEnzymes = ["EcoRI", "BamHI", "HindIII", "XbaI", "PstI", "SalI"];
+
+export type Overhang = "5'" | "3'" | "blunt";
+
+// Host methylation that blocks or impairs cutting at some or all sites
+export type Methylation = "dam" | "dcm" | "cpg";
+
+// A restriction enzyme. `site` is the IUPAC recognition sequence, padded with N
+// up to the cut for enzymes that cut outside it; `fcut` and `rcut` are where the
+// top and bottom strands are cut, counted from the start of `site`.
+export interface Enzyme {
+  name: string;
+  site: string;
+  fcut: number;
+  rcut: number;
+  overhang: Overhang;
+  overhangLength: number;
+  // Recognition sequence without the N padding
+  recognition: string;
+  // Cuts outside its recognition sequence (Type IIS)
+  typeIIS: boolean;
+  palindromic: boolean;
+  degenerate: boolean;
+  methylation: Methylation[];
+}
+
+// A place where an enzyme cuts. `position` is the cut in the top strand and
+// `bottomPosition` the cut in the bottom strand, both in top-strand coordinates;
+// `site` is the recognition sequence it bound to.
+export interface CutSite {
+  enzyme: string;
+  position: number;
+  bottomPosition: number;
+  strand: 1 | -1;
+  site: SequenceRange;
+}
+
+const iupac: Record<string, string> = {
+  A: "A", C: "C", G: "G", T: "T", U: "T",
+  R: "[AG]", Y: "[CT]", S: "[CG]", W: "[AT]", K: "[GT]", M: "[AC]",
+  B: "[CGT]", D: "[AGT]", H: "[ACT]", V: "[ACG]", N: "[ACGT]"
+};
+
+// Methylation sensitivities from NEB's tables, for the enzymes where E. coli
+// strains commonly used for cloning make a difference
+const methylationSensitivity: Record<Methylation, string[]> = {
+  dam: ["BclI", "BsaBI", "ClaI", "DpnII", "MboI", "NruI", "TaqI", "XbaI"],
+  dcm: ["Acc65I", "ApaI", "AvaII", "PflMI", "SfiI", "StuI"],
+  cpg: [
+    "AatII", "AciI", "AscI", "BssHII", "BstUI", "ClaI", "EagI", "HhaI", "HpaII",
+    "MluI", "NotI", "NruI", "PvuI", "SacII", "SmaI", "XhoI"
+  ]
+};
+
+function toEnzyme({ name, rseq, fcut, rcut }: { name: string; rseq: string; fcut: number; rcut: number }): Enzyme {
+  const site = rseq.toUpperCase();
+  const leading = site.length - site.replace(/^N+/, "").length;
+  const recognition = site.replace(/^N+|N+$/g, "");
+  const coreEnd = leading + recognition.length;
+
+  return {
+    name,
+    site,
+    fcut,
+    rcut,
+    overhang: fcut === rcut ? "blunt" : fcut < rcut ? "5'" : "3'",
+    overhangLength: Math.abs(rcut - fcut),
+    recognition,
+    typeIIS: [fcut, rcut].some(cut => cut < leading || cut > coreEnd),
+    palindromic: reverseComplement(site) === site,
+    degenerate: /[^ACGT]/.test(recognition),
+    methylation: (Object.keys(methylationSensitivity) as Methylation[])
+      .filter(type => methylationSensitivity[type].includes(name))
+  };
+}
+
+// The SeqViz catalog, less the few enzymes that only cut modified DNA (written
+// with lower-case bases, e.g. DpnI's GmATC) since sequences carry no methylation
+export const enzymeCatalog: Enzyme[] = Object.values(
+  Enzymes as Record<string, { name: string; rseq: string; fcut: number; rcut: number }>
+)
+  .filter(enzyme => !/[a-z]/.test(enzyme.rseq))
+  .map(toEnzyme)
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+// Look up a catalog enzyme by name, ignoring case
+export function getEnzyme(name: string): Enzyme | undefined {
+  const lower = name.toLowerCase();
+  return enzymeCatalog.find(enzyme => enzyme.name.toLowerCase() === lower);
+}
+
+// Find every cut of the named enzymes on both strands, sorted by top-strand position
+export function findCutSites(sequence: string, enzymeNames: string[], circular = false): CutSite[] {
+  const seq = sequence.toUpperCase().replace(/U/g, "T");
+  const length = seq.length;
+  const sites: CutSite[] = [];
+
+  for (const name of enzymeNames) {
+    const enzyme = getEnzyme(name);
+    if (!enzyme || !length) continue;
+
+    const { site } = enzyme;
+    // Search across the origin on circular sequences
+    const haystack = circular ? seq + seq.slice(0, site.length - 1) : seq;
+    const leading = site.length - site.replace(/^N+/, "").length;
+    const found = new Set<string>();
+
+    const search = (pattern: string, strand: 1 | -1) => {
+      const regex = new RegExp(`(?=${pattern.split("").map(base => iupac[base] || base).join("")})`, "g");
+      let match;
+      while ((match = regex.exec(haystack)) !== null) {
+        if (match.index >= length) break;
+        regex.lastIndex = match.index + 1;
+
+        // On the bottom strand the site reads backwards from the end of the match
+        const top = strand === 1 ? enzyme.fcut : site.length - enzyme.rcut;
+        const bottom = strand === 1 ? enzyme.rcut : site.length - enzyme.fcut;
+        const coreStart = strand === 1 ? leading : site.length - leading - enzyme.recognition.length;
+        let position = match.index + top;
+        let bottomPosition = match.index + bottom;
+        let start = match.index + coreStart;
+        let end = start + enzyme.recognition.length;
+
+        if (circular) {
+          position = ((position % length) + length) % length;
+          bottomPosition = ((bottomPosition % length) + length) % length;
+          start %= length;
+          end = end > length ? end - length : end;
+        } else if (Math.min(position, bottomPosition) < 0 || Math.max(position, bottomPosition) > length) {
+          // Type IIS enzymes can reach past the end of a linear molecule
+          continue;
+        }
+
+        // Degenerate sites can match the same place on both strands
+        const key = `${position}:${bottomPosition}`;
+        if (found.has(key)) continue;
+        found.add(key);
+
+        sites.push({ enzyme: enzyme.name, position, bottomPosition, strand, site: { start, end } });
+      }
+    };
+
+    search(site, 1);
+    if (!enzyme.palindromic) search(reverseComplement(site), -1);
+  }
+
+  return sites.sort((a, b) => a.position - b.position);
+}
+
+// Number of times each enzyme cuts, keyed by enzyme name
+export function countCuts(sequence: string, enzymeNames: string[], circular = false): Record<string, number> {
+  const counts: Record<string, number> = Object.fromEntries(
+    enzymeNames.map(name => [getEnzyme(name)?.name || name, 0])
+  );
+  for (const site of findCutSites(sequence, enzymeNames, circular)) {
+    counts[site.enzyme] = (counts[site.enzyme] || 0) + 1;
+  }
+  return counts;
+}
+
+// Lookahead patterns for recognition sequences, built once; the optimizer checks many short strings
+const recognitionRegexes = new Map<string, RegExp>();
+
+// Recognition sequences of the named enzymes on either strand of a linear
+// sequence, whether or not the cut itself falls inside it
+export function findRecognitionSites(sequence: string, enzymeNames: string[]): (SequenceRange & { enzyme: string })[] {
+  const seq = sequence.toUpperCase().replace(/U/g, "T");
+  const sites: (SequenceRange & { enzyme: string })[] = [];
+
+  for (const name of enzymeNames) {
+    const enzyme = getEnzyme(name);
+    if (!enzyme) continue;
+
+    const patterns = new Set([enzyme.recognition, reverseComplement(enzyme.recognition)]);
+    const starts = new Set<number>();
+    for (const pattern of patterns) {
+      let regex = recognitionRegexes.get(pattern);
+      if (!regex) {
+        regex = new RegExp(`(?=${pattern.split("").map(base => iupac[base] || base).join("")})`, "g");
+        recognitionRegexes.set(pattern, regex);
+      }
+      regex.lastIndex = 0;
+      let match;
+      while ((match = regex.exec(seq)) !== null) {
+        regex.lastIndex = match.index + 1;
+        starts.add(match.index);
+      }
+    }
+    for (const start of starts) {
+      sites.push({ enzyme: enzyme.name, start, end: start + enzyme.recognition.length });
+    }
+  }
+
+  return sites.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,200 @@
+// Strand of a feature, using the same convention as SeqViz annotations
+export type Strand = 1 | -1 | 0;
+
+// A single contiguous segment of a feature (0-based, end exclusive)
+export interface FeatureLocation {
+  start: number;
+  end: number;
+}
+
+// Annotation shape shared by the editor, the file readers and SeqViz
+export interface Annotation {
+  // Stable id, assigned once the annotation is part of a document
+  id?: string;
+  name: string;
+  start: number;
+  end: number;
+  direction: Strand;
+  color: string;
+  type: string;
+  // Multi-valued qualifiers, e.g. { gene: ["bla"], note: ["..."] }
+  qualifiers?: Record<string, string[]>;
+  // Segments of join/order locations in top-strand order
+  locations?: FeatureLocation[];
+  // Overlay track the feature was imported from (GFF3/BED files)
+  track?: string;
+}
+
+// A free-text note attached to a range of the sequence
+export interface Note {
+  id?: string;
+  title: string;
+  content: string;
+  start: number;
+  end: number;
+  createdAt: string;
+}
+
+// An annotation stored in a SequenceDocument
+export interface Feature extends Annotation {
+  id: string;
+}
+
+// A note stored in a SequenceDocument
+export interface DocumentNote extends Note {
+  id: string;
+}
+
+// A prompt sent to the AI assistant and the answer it gave
+export interface AIHistoryEntry {
+  prompt: string;
+  response: string;
+  start?: number;
+  end?: number;
+  createdAt: string;
+}
+
+// A primer and where it binds on the sequence
+export interface Primer {
+  name: string;
+  sequence: string;
+  start: number;
+  end: number;
+  direction: 1 | -1;
+  color?: string;
+}
+
+// Default colors for common feature types
+const featureColors: Record<string, string> = {
+  cds: "#10B981",
+  gene: "#3B82F6",
+  promoter: "#F59E0B",
+  terminator: "#DC2626",
+  rbs: "#8B5CF6",
+  rep_origin: "#0EA5E9",
+  primer_bind: "#14B8A6",
+  protein_bind: "#EC4899",
+  misc_feature: "#6B7280",
+  regulatory: "#F97316",
+  polya_signal: "#A855F7",
+  enhancer: "#EAB308",
+  intron: "#94A3B8",
+  exon: "#22C55E",
+  mrna: "#06B6D4",
+  sig_peptide: "#F472B6",
+  restriction_site: "#EF4444",
+  misc: "#3B82F6"
+};
+
+// Pick a display color for a feature type
+export function getFeatureColor(type: string): string {
+  return featureColors[type.toLowerCase()] || "#6B7280";
+}
+
+// Derive a human-readable feature name from its qualifiers
+export function getFeatureName(type: string, qualifiers: Record<string, string[]> = {}): string {
+  const nameKeys = ["label", "gene", "product", "locus_tag", "standard_name", "bound_moiety", "note"];
+
+  for (const key of nameKeys) {
+    const value = qualifiers[key]?.[0];
+    if (value) {
+      // Notes can be long, so only keep the first sentence-ish part
+      return key === "note" ? value.split(/[;.]/)[0].slice(0, 40) : value;
+    }
+  }
+
+  return type;
+}
+
+// Represent a note as a misc_feature so it survives export to flat files
+export function noteToFeature(note: Note): Annotation {
+  return {
+    name: note.title,
+    start: note.start,
+    end: note.end,
+    direction: 0,
+    color: "#FBBF24",
+    type: "misc_feature",
+    qualifiers: {
+      label: [note.title],
+      ...(note.content ? { note: [note.content] } : {})
+    }
+  };
+}
+
+// Overall extent of a set of segments; wraps the origin on circular sequences
+export function getLocationSpan(locations: FeatureLocation[], circular: boolean): FeatureLocation {
+  if (locations.length === 1) return locations[0];
+
+  const wraps = circular &&
+    locations.some((location, index) => index > 0 && location.start < locations[index - 1].start);
+
+  if (wraps) {
+    return { start: locations[0].start, end: locations[locations.length - 1].end };
+  }
+
+  return {
+    start: Math.min(...locations.map(location => location.start)),
+    end: Math.max(...locations.map(location => location.end))
+  };
+}
+
+// Rewrite a feature that wraps the origin of a circular sequence of `length` as a
+// two-part join, for when the sequence is about to become part of a linear one
+export function unwrapAnnotation<T extends Annotation>(annotation: T, length: number): T {
+  const segments = annotation.locations || [{ start: annotation.start, end: annotation.end }];
+  // A join can also wrap with every part in order, only its span crossing the origin
+  if (annotation.start <= annotation.end && !segments.some(segment => segment.start > segment.end)) return annotation;
+
+  const locations = segments.flatMap(segment =>
+    segment.start > segment.end
+      ? [{ start: segment.start, end: length }, ...(segment.end > 0 ? [{ start: 0, end: segment.end }] : [])]
+      : [segment]
+  );
+  const span = getLocationSpan(locations, false);
+  return {
+    ...annotation,
+    start: span.start,
+    end: span.end,
+    ...(locations.length > 1 ? { locations } : { locations: undefined })
+  };
+}
+
+// Check features against the sequence length; on circular sequences ends past
+// the origin (GFF3 style, end > length) are folded back into wrapped ranges
+export function validateAnnotations(
+  annotations: Annotation[],
+  length: number,
+  circular: boolean
+): { valid: Annotation[]; invalid: Annotation[] } {
+  const valid: Annotation[] = [];
+  const invalid: Annotation[] = [];
+
+  const fold = (location: FeatureLocation): FeatureLocation | null => {
+    if (location.start < 0 || location.start >= length) return null;
+    if (location.end <= length) return location;
+    if (circular && location.end - length <= location.start) {
+      return { start: location.start, end: location.end - length };
+    }
+    return null;
+  };
+
+  for (const annotation of annotations) {
+    const span = fold({ start: annotation.start, end: annotation.end });
+    const locations = annotation.locations?.map(fold);
+
+    if (!span || locations?.some(location => location === null)) {
+      invalid.push(annotation);
+      continue;
+    }
+
+    valid.push({
+      ...annotation,
+      start: span.start,
+      end: span.end,
+      ...(locations ? { locations } : {})
+    });
+  }
+
+  return { valid, invalid };
+}
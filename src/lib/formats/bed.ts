@@ -0,0 +1,80 @@
+import { Annotation, FeatureLocation, Strand, getFeatureColor } from "@/lib/features";
+import { AnnotationSet } from "./types";
+
+// Parse a BED file; coordinates are already 0-based half-open like the editor's
+export function parseBed(content: string, name = "BED"): AnnotationSet {
+  const bySeqid: Record<string, Annotation[]> = {};
+  let trackName = name;
+
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (!line || line.startsWith("#") || line.startsWith("browser")) continue;
+
+    if (line.startsWith("track")) {
+      const match = line.match(/name=(?:"([^"]*)"|(\S+))/);
+      if (match) trackName = match[1] ?? match[2];
+      continue;
+    }
+
+    // BED is tab-separated, but space-separated files are common too
+    const columns = line.includes("\t") ? line.split("\t") : line.split(/\s+/);
+    if (columns.length < 3) {
+      throw new Error(`BED line ${index + 1} has ${columns.length} columns, expected at least 3`);
+    }
+
+    const [seqid, startText, endText, featureName, , strandText, , , rgb, blockCountText, blockSizesText, blockStartsText] = columns;
+    const start = parseInt(startText, 10);
+    const end = parseInt(endText, 10);
+    if (isNaN(start) || isNaN(end) || start < 0 || end < start) {
+      throw new Error(`BED line ${index + 1} has an invalid range (${startText}-${endText})`);
+    }
+
+    const annotation: Annotation = {
+      name: featureName && featureName !== "." ? featureName : `feature ${index + 1}`,
+      start,
+      end,
+      direction: parseStrand(strandText),
+      color: parseRgb(rgb) || getFeatureColor("misc_feature"),
+      type: "misc_feature",
+      qualifiers: {},
+      track: trackName
+    };
+
+    // BED12 blocks become discontinuous segments (exons)
+    const blockCount = parseInt(blockCountText, 10);
+    if (blockCount > 1 && blockSizesText && blockStartsText) {
+      const sizes = blockSizesText.split(",").filter(Boolean).map(Number);
+      const starts = blockStartsText.split(",").filter(Boolean).map(Number);
+      const locations: FeatureLocation[] = starts.slice(0, blockCount).map((offset, block) => ({
+        start: start + offset,
+        end: start + offset + sizes[block]
+      }));
+      if (locations.every(location => !isNaN(location.start) && !isNaN(location.end))) {
+        annotation.locations = locations;
+      }
+    }
+
+    (bySeqid[seqid] ||= []).push(annotation);
+  }
+
+  // Track lines can appear after some features; apply the final name to all of them
+  for (const annotations of Object.values(bySeqid)) {
+    for (const annotation of annotations) annotation.track = trackName;
+  }
+
+  return { name: trackName, format: "bed", bySeqid };
+}
+
+function parseStrand(text: string | undefined): Strand {
+  if (text === "+") return 1;
+  if (text === "-") return -1;
+  return 0;
+}
+
+// itemRgb is "r,g,b"; "0" means no color
+function parseRgb(text: string | undefined): string | null {
+  const match = text?.match(/^(\d+),(\d+),(\d+)$/);
+  if (!match) return null;
+  return "#" + match.slice(1, 4).map(value => Number(value).toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,79 @@
+import { AIHistoryEntry, Annotation, Note } from "@/lib/features";
+import { SequenceType } from "@/lib/sequenceUtils";
+import { parseAIHistory, parseFeatures, parseMetadata, parseNotes } from "@/lib/document";
+import { SequenceRecord, Topology } from "./types";
+
+// JSON project bundle that round-trips everything in the workspace
+export interface ProjectBundle {
+  format: "geneforge-project";
+  version: 1;
+  name: string;
+  sequence: string;
+  sequenceType: SequenceType;
+  topology: Topology;
+  annotations: Annotation[];
+  notes: Note[];
+  metadata: Record<string, string>;
+  aiHistory?: AIHistoryEntry[];
+  exportedAt: string;
+}
+
+// Serialize the current project as a pretty-printed JSON bundle
+export function writeProjectBundle(project: Omit<ProjectBundle, "format" | "version" | "exportedAt">): string {
+  const bundle: ProjectBundle = {
+    format: "geneforge-project",
+    version: 1,
+    ...project,
+    exportedAt: new Date().toISOString()
+  };
+
+  return JSON.stringify(bundle, null, 2);
+}
+
+// Quick check used by the import dialog
+export function isProjectBundle(content: string): boolean {
+  return /^\s*\{/.test(content) && content.includes("\"geneforge-project\"");
+}
+
+// Read a project bundle written by writeProjectBundle
+export function parseProjectBundle(content: string): ProjectBundle {
+  let data: Partial<ProjectBundle>;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("Project file is not valid JSON");
+  }
+
+  if (data?.format !== "geneforge-project") {
+    throw new Error("Not a GeneForge project file");
+  }
+  if (typeof data.sequence !== "string") {
+    throw new Error("Project file has no sequence");
+  }
+
+  return {
+    format: "geneforge-project",
+    version: 1,
+    name: data.name || "Untitled Project",
+    sequence: data.sequence,
+    sequenceType: data.sequenceType || "unknown",
+    topology: data.topology === "circular" ? "circular" : "linear",
+    annotations: parseFeatures(data.annotations),
+    notes: parseNotes(data.notes),
+    metadata: parseMetadata(data.metadata),
+    aiHistory: parseAIHistory(data.aiHistory),
+    exportedAt: data.exportedAt || ""
+  };
+}
+
+// The sequence part of a bundle, in the same shape as records read from files
+export function bundleToRecord(bundle: ProjectBundle): SequenceRecord {
+  return {
+    name: bundle.name,
+    description: bundle.metadata.definition,
+    sequence: bundle.sequence,
+    topology: bundle.topology,
+    annotations: bundle.annotations,
+    metadata: bundle.metadata
+  };
+}
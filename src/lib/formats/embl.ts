@@ -0,0 +1,92 @@
+import { parseFeatureTable } from "./genbank";
+import { SequenceRecord, Topology } from "./types";
+
+// Line codes that are kept as record metadata
+const metadataCodes: Record<string, string> = {
+  AC: "accession",
+  DE: "definition",
+  KW: "keywords",
+  OS: "organism",
+  OC: "taxonomy",
+  CC: "comment"
+};
+
+// Quick check used by the format sniffer
+export function isEmbl(content: string): boolean {
+  return /^\s*ID {3}/.test(content);
+}
+
+// Parse an EMBL flat file (possibly holding several records)
+export function parseEmbl(content: string): SequenceRecord[] {
+  const records: SequenceRecord[] = [];
+  const chunks = content.split(/^\/\/\s*$/m);
+
+  for (const chunk of chunks) {
+    if (!/^\s*ID {3}/m.test(chunk)) continue;
+    records.push(parseRecord(chunk));
+  }
+
+  if (!records.length) {
+    throw new Error("No EMBL records found (missing ID line)");
+  }
+
+  return records;
+}
+
+// Parse a single ID ... // block
+function parseRecord(chunk: string): SequenceRecord {
+  const lines = chunk.replace(/\r\n?/g, "\n").split("\n");
+  const metadata: Record<string, string> = {};
+  const featureLines: string[] = [];
+  let name = "";
+  let topology: Topology = "linear";
+  let sequence = "";
+  let inSequence = false;
+
+  for (const line of lines) {
+    const code = line.slice(0, 2);
+    const body = line.slice(5).trim();
+
+    if (inSequence) {
+      // Sequence lines are indented and end with a running position
+      if (code.trim()) {
+        inSequence = false;
+      } else {
+        sequence += line.replace(/[\s\d]/g, "");
+        continue;
+      }
+    }
+
+    if (code === "ID") {
+      // ID   X56734; SV 1; linear; mRNA; STD; PLN; 1859 BP.
+      const fields = body.split(";").map(field => field.trim());
+      name = fields[0];
+      topology = fields.some(field => field.toLowerCase() === "circular") ? "circular" : "linear";
+      if (fields[3]) metadata.moleculeType = fields[3];
+    } else if (code === "FT") {
+      // FT lines use the same column layout as GenBank features
+      featureLines.push(`  ${line.slice(2)}`);
+    } else if (code === "SQ") {
+      inSequence = true;
+    } else if (metadataCodes[code] && body) {
+      const key = metadataCodes[code];
+      metadata[key] = metadata[key] ? `${metadata[key]} ${body}` : body;
+    }
+  }
+
+  // Accessions and keywords end with ";" or "." separators
+  if (metadata.accession) metadata.accession = metadata.accession.replace(/;$/, "");
+  if (metadata.keywords) {
+    metadata.keywords = metadata.keywords.replace(/\.$/, "");
+    if (!metadata.keywords) delete metadata.keywords;
+  }
+
+  return {
+    name: name || metadata.definition || "Untitled",
+    description: metadata.definition,
+    sequence: sequence.toUpperCase(),
+    topology,
+    annotations: parseFeatureTable(featureLines, topology),
+    metadata
+  };
+}
@@ -0,0 +1,63 @@
+import { cleanGeneSequence } from "@/lib/sequenceUtils";
+import { SequenceRecord } from "./types";
+
+// Quick check used by the format sniffer
+export function isFasta(content: string): boolean {
+  return /^\s*>/.test(content);
+}
+
+// Parse a (multi-)FASTA file, keeping each header as name and description
+export function parseFasta(content: string): SequenceRecord[] {
+  const records: SequenceRecord[] = [];
+  let header: string | null = null;
+  let body: string[] = [];
+
+  const flush = () => {
+    if (header === null) return;
+
+    // The first word is the identifier, the rest is a free-text description
+    const [id, ...rest] = header.split(/\s+/);
+    const description = rest.join(" ");
+
+    records.push({
+      name: id || `Record ${records.length + 1}`,
+      description: description || undefined,
+      sequence: cleanGeneSequence(body.join("")),
+      topology: "linear",
+      annotations: [],
+      metadata: { header }
+    });
+  };
+
+  for (const rawLine of content.replace(/\r\n?/g, "\n").split("\n")) {
+    const line = rawLine.trim();
+
+    if (line.startsWith(">")) {
+      flush();
+      header = line.slice(1).trim();
+      body = [];
+    } else if (line.startsWith(";")) {
+      // Old-style FASTA comment lines
+      continue;
+    } else if (header !== null) {
+      body.push(line);
+    }
+  }
+  flush();
+
+  const nonEmpty = records.filter(record => record.sequence.length > 0);
+  if (!nonEmpty.length) {
+    throw new Error("No sequences found in FASTA file");
+  }
+
+  return nonEmpty;
+}
+
+// Write records as FASTA with sequence lines wrapped at lineWidth
+export function writeFasta(records: { name: string; description?: string; sequence: string }[], lineWidth = 70): string {
+  return records.map(record => {
+    const header = [record.name.replace(/\s+/g, "_"), record.description].filter(Boolean).join(" ");
+    const lines = record.sequence.match(new RegExp(`.{1,${lineWidth}}`, "g")) || [];
+    return `>${header}\n${lines.join("\n")}\n`;
+  }).join("");
+}
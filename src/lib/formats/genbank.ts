@@ -0,0 +1,387 @@
+import { Annotation, FeatureLocation, Strand, getFeatureColor, getFeatureName, getLocationSpan } from "@/lib/features";
+import { SequenceRecord, Topology } from "./types";
+
+interface ParsedSegment extends FeatureLocation {
+  strand: Strand;
+}
+
+// Header keywords that are kept as record metadata
+const metadataKeywords: Record<string, string> = {
+  DEFINITION: "definition",
+  ACCESSION: "accession",
+  VERSION: "version",
+  KEYWORDS: "keywords",
+  SOURCE: "source",
+  COMMENT: "comment"
+};
+
+// Quick check used by the format sniffer
+export function isGenBank(content: string): boolean {
+  return /^\s*LOCUS\s/.test(content);
+}
+
+// Parse a GenBank flat file (possibly holding several records)
+export function parseGenBank(content: string): SequenceRecord[] {
+  const records: SequenceRecord[] = [];
+  const chunks = content.split(/^\/\/\s*$/m);
+
+  for (const chunk of chunks) {
+    if (!/^\s*LOCUS\s/m.test(chunk)) continue;
+    records.push(parseRecord(chunk));
+  }
+
+  if (!records.length) {
+    throw new Error("No GenBank records found (missing LOCUS line)");
+  }
+
+  return records;
+}
+
+// Parse a single LOCUS ... // block
+function parseRecord(chunk: string): SequenceRecord {
+  const lines = chunk.replace(/\r\n?/g, "\n").split("\n");
+  const metadata: Record<string, string> = {};
+  let name = "";
+  let topology: Topology = "linear";
+  let featureLines: string[] = [];
+  let sequence = "";
+  let section = "";
+  let lastKeyword = "";
+
+  for (const line of lines) {
+    const keyword = line.slice(0, 12).trim();
+
+    if (/^[A-Z]/.test(line)) {
+      // A new top-level section
+      section = line.split(/\s+/)[0];
+      lastKeyword = section;
+
+      if (section === "LOCUS") {
+        const tokens = line.split(/\s+/);
+        name = tokens[1] || "";
+        topology = /\bcircular\b/i.test(line) ? "circular" : "linear";
+        const moleculeType = tokens.find(token => /^(ss-|ds-|ms-)?(DNA|RNA|mRNA|rRNA|tRNA|aa)$/i.test(token));
+        if (moleculeType) metadata.moleculeType = moleculeType;
+      } else if (section === "FEATURES") {
+        featureLines = [];
+      } else if (metadataKeywords[section]) {
+        metadata[metadataKeywords[section]] = line.slice(12).trim();
+      }
+      continue;
+    }
+
+    if (section === "FEATURES") {
+      featureLines.push(line);
+    } else if (section === "ORIGIN") {
+      sequence += line.replace(/[\s\d]/g, "");
+    } else if (keyword === "ORGANISM" && lastKeyword === "SOURCE") {
+      metadata.organism = line.slice(12).trim();
+      lastKeyword = "ORGANISM";
+    } else if (!keyword && line.trim()) {
+      // Continuation of the previous header field
+      const key = lastKeyword === "ORGANISM" ? "taxonomy" : metadataKeywords[lastKeyword];
+      if (key) {
+        metadata[key] = metadata[key] ? `${metadata[key]} ${line.trim()}` : line.trim();
+      }
+    }
+  }
+
+  sequence = sequence.toUpperCase();
+
+  for (const key of ["keywords", "accession"]) {
+    if (metadata[key] === ".") delete metadata[key];
+  }
+
+  return {
+    name: name || metadata.definition || "Untitled",
+    description: metadata.definition,
+    sequence,
+    topology,
+    annotations: parseFeatureTable(featureLines, topology),
+    metadata
+  };
+}
+
+// Turn a FEATURES table into annotations (shared with the EMBL reader)
+export function parseFeatureTable(lines: string[], topology: Topology): Annotation[] {
+  const annotations: Annotation[] = [];
+  let current: { type: string; location: string; qualifierLines: string[] } | null = null;
+
+  const flush = () => {
+    // The source feature just spans the whole record, so it isn't drawn
+    if (!current || current.type === "source") {
+      current = null;
+      return;
+    }
+    const annotation = buildAnnotation(current.type, current.location, current.qualifierLines, topology);
+    if (annotation) annotations.push(annotation);
+    current = null;
+  };
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+
+    // Feature keys start at column 6, qualifiers and continuations at column 22
+    const featureKey = line.slice(0, 21).trim();
+    const body = line.slice(21).trimEnd();
+
+    if (featureKey) {
+      flush();
+      current = { type: featureKey, location: body.trim(), qualifierLines: [] };
+    } else if (current) {
+      if (!current.qualifierLines.length && !body.trimStart().startsWith("/")) {
+        // Location spanning several lines
+        current.location += body.trim();
+      } else {
+        current.qualifierLines.push(body.trim());
+      }
+    }
+  }
+  flush();
+
+  return annotations;
+}
+
+// Build an annotation from a feature key, its location and qualifier lines
+function buildAnnotation(type: string, location: string, qualifierLines: string[], topology: Topology): Annotation | null {
+  const segments = parseLocation(location);
+  if (!segments.length) return null;
+
+  // All segments on the reverse strand means a reverse feature
+  const direction: Strand = segments.every(segment => segment.strand === -1) ? -1 : 1;
+
+  // Store segments in top-strand order
+  const ordered = direction === -1 ? [...segments].reverse() : segments;
+  const locations = ordered.map(({ start, end }) => ({ start, end }));
+  const span = getLocationSpan(locations, topology === "circular");
+  const qualifiers = parseQualifiers(qualifierLines);
+
+  const annotation: Annotation = {
+    name: getFeatureName(type, qualifiers),
+    start: span.start,
+    end: span.end,
+    direction,
+    color: getFeatureColor(type),
+    type,
+    qualifiers
+  };
+
+  if (locations.length > 1) {
+    annotation.locations = locations;
+  }
+
+  return annotation;
+}
+
+// Parse a GenBank location string into segments in biological order
+export function parseLocation(location: string): ParsedSegment[] {
+  const text = location.replace(/\s+/g, "");
+
+  const complement = text.match(/^complement\((.*)\)$/);
+  if (complement) {
+    return parseLocation(complement[1])
+      .reverse()
+      .map(segment => ({ ...segment, strand: (segment.strand === -1 ? 1 : -1) as Strand }));
+  }
+
+  const group = text.match(/^(join|order)\((.*)\)$/);
+  if (group) {
+    return splitTopLevel(group[2]).flatMap(part => parseLocation(part));
+  }
+
+  // Remote references to other entries can't be placed on this sequence
+  if (text.includes(":")) return [];
+
+  const range = text.match(/^<?(\d+)(?:\.\.|\^)>?(\d+)$/);
+  if (range) {
+    const first = parseInt(range[1], 10);
+    const second = parseInt(range[2], 10);
+    return [{ start: Math.min(first, second) - 1, end: Math.max(first, second), strand: 1 }];
+  }
+
+  const single = text.match(/^[<>]?(\d+)$/);
+  if (single) {
+    const position = parseInt(single[1], 10);
+    return [{ start: position - 1, end: position, strand: 1 }];
+  }
+
+  return [];
+}
+
+// Split "a,b(c,d),e" on commas that are not nested in parentheses
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of text) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current) parts.push(current);
+
+  return parts;
+}
+
+// Parse /key="value" qualifier lines, joining values that span several lines
+function parseQualifiers(lines: string[]): Record<string, string[]> {
+  const qualifiers: Record<string, string[]> = {};
+  const entries: { key: string; value: string }[] = [];
+
+  for (const line of lines) {
+    const match = line.match(/^\/([^=\s]+)(?:=(.*))?$/);
+    const last = entries[entries.length - 1];
+
+    // A line that doesn't start a qualifier continues the previous value,
+    // unless it's inside an open quote that happens to start with "/"
+    if (match && !(last && isOpenQuote(last.value))) {
+      entries.push({ key: match[1], value: match[2] ?? "" });
+    } else if (last) {
+      // Translations are wrapped without spaces; everything else gets one
+      last.value += last.key === "translation" ? line : ` ${line}`;
+    }
+  }
+
+  for (const { key, value } of entries) {
+    const unquoted = value.replace(/^"/, "").replace(/"$/, "").replace(/""/g, "\"");
+    (qualifiers[key] ||= []).push(unquoted);
+  }
+
+  return qualifiers;
+}
+
+// True while a quoted value has not been closed yet
+function isOpenQuote(value: string): boolean {
+  if (!value.startsWith("\"")) return false;
+  const quotes = (value.match(/"/g) || []).length;
+  return quotes % 2 === 1;
+}
+
+// Write a record as a GenBank flat file
+export function writeGenBank(record: SequenceRecord, moleculeType = "DNA"): string {
+  const metadata = record.metadata || {};
+  const isProtein = moleculeType === "aa";
+  const locusName = (record.name || "Untitled").replace(/\s+/g, "_").slice(0, 16);
+  const date = formatGenBankDate(new Date());
+  const lines: string[] = [];
+
+  lines.push(
+    `LOCUS       ${locusName.padEnd(16)} ${String(record.sequence.length).padStart(11)} ${isProtein ? "aa" : "bp"}    ` +
+    `${moleculeType.padEnd(6)}  ${(isProtein ? "" : record.topology).padEnd(8)} SYN ${date}`
+  );
+  lines.push(...wrapField("DEFINITION", metadata.definition || record.description || record.name || "."));
+  lines.push(...wrapField("ACCESSION", metadata.accession || "."));
+  if (metadata.version) lines.push(...wrapField("VERSION", metadata.version));
+  lines.push(...wrapField("KEYWORDS", metadata.keywords || "."));
+  lines.push(...wrapField("SOURCE", metadata.source || metadata.organism || "synthetic DNA construct"));
+  lines.push(...wrapField("  ORGANISM", metadata.organism || "synthetic DNA construct"));
+  if (metadata.comment) lines.push(...wrapField("COMMENT", metadata.comment));
+
+  lines.push("FEATURES             Location/Qualifiers");
+  for (const annotation of record.annotations) {
+    lines.push(...writeFeature(annotation, record.sequence.length));
+  }
+
+  lines.push("ORIGIN");
+  const sequence = record.sequence.toLowerCase();
+  for (let i = 0; i < sequence.length; i += 60) {
+    const groups = sequence.slice(i, i + 60).match(/.{1,10}/g) || [];
+    lines.push(`${String(i + 1).padStart(9)} ${groups.join(" ")}`);
+  }
+  lines.push("//");
+
+  return lines.join("\n") + "\n";
+}
+
+// Write one feature with its location and qualifiers
+function writeFeature(annotation: Annotation, length: number): string[] {
+  const lines: string[] = [];
+  const location = formatLocation(annotation, length);
+  const locationLines = wrapText(location, 58, ",");
+
+  lines.push(`     ${annotation.type.padEnd(16)}${locationLines[0]}`);
+  for (const line of locationLines.slice(1)) {
+    lines.push(`${" ".repeat(21)}${line}`);
+  }
+
+  const qualifiers = { ...(annotation.qualifiers || {}) };
+
+  // Keep the display name when no qualifier already carries it
+  const nameKeys = ["label", "gene", "product", "locus_tag", "standard_name"];
+  const hasName = nameKeys.some(key => qualifiers[key]?.includes(annotation.name));
+  if (!hasName && annotation.name && annotation.name !== annotation.type) {
+    qualifiers.label = [annotation.name];
+  }
+
+  for (const [key, values] of Object.entries(qualifiers)) {
+    for (const value of values) {
+      lines.push(...writeQualifier(key, value));
+    }
+  }
+
+  return lines;
+}
+
+// Format an annotation's location in GenBank syntax (1-based, inclusive)
+export function formatLocation(annotation: Annotation, length: number): string {
+  let segments = annotation.locations?.length ? annotation.locations : [{ start: annotation.start, end: annotation.end }];
+
+  // Ranges that wrap the origin become a join across it
+  segments = segments.flatMap(segment =>
+    segment.start > segment.end
+      ? [{ start: segment.start, end: length }, { start: 0, end: segment.end }]
+      : [segment]
+  );
+
+  const parts = segments.map(segment =>
+    segment.end - segment.start === 1 ? `${segment.end}` : `${segment.start + 1}..${segment.end}`
+  );
+  const joined = parts.length > 1 ? `join(${parts.join(",")})` : parts[0];
+
+  return annotation.direction === -1 ? `complement(${joined})` : joined;
+}
+
+// Write a /key="value" qualifier wrapped to the feature table width
+function writeQualifier(key: string, value: string): string[] {
+  const numeric = /^\d+$/.test(value);
+  const text = value === "" ? `/${key}` : numeric ? `/${key}=${value}` : `/${key}="${value.replace(/"/g, "\"\"")}"`;
+
+  // Translations have no spaces, so they are cut at a fixed width
+  const wrapped = key === "translation" ? text.match(/.{1,58}/g) || [] : wrapText(text, 58, " ");
+  return wrapped.map(line => `${" ".repeat(21)}${line}`);
+}
+
+// Write a header field with continuation lines indented to column 13
+function wrapField(keyword: string, value: string): string[] {
+  return wrapText(value, 67, " ").map((line, index) =>
+    index === 0 ? `${keyword.padEnd(12)}${line}` : `${" ".repeat(12)}${line}`
+  );
+}
+
+// Break text into lines no longer than width, preferring to split after the separator
+function wrapText(text: string, width: number, separator: string): string[] {
+  const lines: string[] = [];
+  let remaining = text;
+
+  while (remaining.length > width) {
+    let cut = remaining.lastIndexOf(separator, width - 1);
+    cut = cut <= 0 ? width : cut + 1;
+    lines.push(remaining.slice(0, cut).trimEnd());
+    remaining = remaining.slice(cut).trimStart();
+  }
+  lines.push(remaining);
+
+  return lines;
+}
+
+function formatGenBankDate(date: Date): string {
+  const months = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+  return `${String(date.getDate()).padStart(2, "0")}-${months[date.getMonth()]}-${date.getFullYear()}`;
+}
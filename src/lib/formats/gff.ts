@@ -0,0 +1,95 @@
+import { Annotation, FeatureLocation, Strand, getFeatureColor, getFeatureName } from "@/lib/features";
+import { AnnotationSet } from "./types";
+
+// Feature types that just describe the whole sequence
+const wholeSequenceTypes = ["region", "source", "chromosome"];
+
+// Quick check used by the format sniffer
+export function isGff3(content: string): boolean {
+  return /^##gff-version\s+3/.test(content.trimStart());
+}
+
+// Parse a GFF3 file; coordinates are converted from 1-based inclusive to 0-based half-open
+export function parseGff3(content: string, name = "GFF3"): AnnotationSet {
+  const bySeqid: Record<string, Annotation[]> = {};
+  // Lines sharing an ID are parts of one discontinuous feature
+  const byId = new Map<string, Annotation>();
+
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    // An embedded FASTA section ends the feature lines
+    if (line.startsWith("##FASTA")) break;
+    if (!line.trim() || line.startsWith("#")) continue;
+
+    const columns = line.split("\t");
+    if (columns.length < 9) {
+      throw new Error(`GFF3 line ${index + 1} has ${columns.length} columns, expected 9`);
+    }
+
+    const [seqid, , type, startText, endText, , strandText, , attributeText] = columns;
+    const start = parseInt(startText, 10);
+    const end = parseInt(endText, 10);
+    if (isNaN(start) || isNaN(end) || start < 1 || end < start) {
+      throw new Error(`GFF3 line ${index + 1} has an invalid range (${startText}-${endText})`);
+    }
+    if (wholeSequenceTypes.includes(type)) continue;
+
+    const attributes = parseAttributes(attributeText);
+    const location: FeatureLocation = { start: start - 1, end };
+    const id = attributes.ID?.[0];
+
+    const existing = id ? byId.get(`${seqid}:${id}`) : undefined;
+    if (existing) {
+      existing.locations = [...(existing.locations || [{ start: existing.start, end: existing.end }]), location]
+        .sort((a, b) => a.start - b.start);
+      existing.start = Math.min(existing.start, location.start);
+      existing.end = Math.max(existing.end, location.end);
+      continue;
+    }
+
+    const lowerCased = Object.fromEntries(
+      Object.entries(attributes).map(([key, values]) => [key.toLowerCase(), values])
+    );
+
+    const annotation: Annotation = {
+      name: attributes.Name?.[0] || getFeatureName(type, lowerCased),
+      start: location.start,
+      end: location.end,
+      direction: parseStrand(strandText),
+      color: getFeatureColor(type),
+      type,
+      qualifiers: attributes,
+      track: name
+    };
+
+    (bySeqid[seqid] ||= []).push(annotation);
+    if (id) byId.set(`${seqid}:${id}`, annotation);
+  }
+
+  return { name, format: "gff3", bySeqid };
+}
+
+// Parse "key=value1,value2;key2=value" with percent-encoded values
+function parseAttributes(text: string): Record<string, string[]> {
+  const attributes: Record<string, string[]> = {};
+  if (!text || text === ".") return attributes;
+
+  for (const pair of text.split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator === -1) continue;
+
+    const key = decodeURIComponent(pair.slice(0, separator).trim());
+    const values = pair.slice(separator + 1).split(",").map(value => decodeURIComponent(value.trim()));
+    if (key) attributes[key] = values;
+  }
+
+  return attributes;
+}
+
+function parseStrand(text: string): Strand {
+  if (text === "+") return 1;
+  if (text === "-") return -1;
+  return 0;
+}
@@ -0,0 +1,100 @@
+import { cleanGeneSequence } from "@/lib/sequenceUtils";
+import { Annotation } from "@/lib/features";
+import { parseBed } from "./bed";
+import { isEmbl, parseEmbl } from "./embl";
+import { isFasta, parseFasta } from "./fasta";
+import { isGenBank, parseGenBank } from "./genbank";
+import { isGff3, parseGff3 } from "./gff";
+import { isSbol, parseSbol } from "./sbol";
+import { parseSnapGene } from "./snapgene";
+import { AnnotationSet, SequenceRecord } from "./types";
+
+export type { AnnotationSet, SequenceRecord, Topology } from "./types";
+export type { ProjectBundle } from "./bundle";
+export { bundleToRecord, isProjectBundle, parseProjectBundle, writeProjectBundle } from "./bundle";
+export { writeFasta } from "./fasta";
+export { writeGenBank } from "./genbank";
+export type { SbolFormat } from "./sbol";
+export { writeSbol } from "./sbol";
+
+// Extensions the upload dialogs accept
+export const sequenceFileExtensions = ["txt", "seq", "fasta", "fa", "fna", "faa", "fas", "gb", "gbk", "genbank", "gbff", "dna", "embl", "sbol", "xml", "rdf", "jsonld", "gff", "gff3", "bed"];
+
+// Extensions that have to be read as binary rather than text
+export const binaryFileExtensions = ["dna"];
+
+// Extensions of annotation-only files that are laid over the loaded sequence
+export const annotationFileExtensions = ["gff", "gff3", "bed"];
+
+// Parse an uploaded file into one or more sequence records
+export function parseSequenceFile(content: string | ArrayBuffer, fileName = ""): SequenceRecord[] {
+  const extension = fileName.split(".").pop()?.toLowerCase() || "";
+  const baseName = fileName.replace(/\.[^.]+$/, "") || "Untitled";
+
+  if (content instanceof ArrayBuffer) {
+    return parseSnapGene(content, baseName);
+  }
+
+  if (isGenBank(content) || ["gb", "gbk", "genbank", "gbff"].includes(extension)) {
+    return parseGenBank(content);
+  }
+
+  if (isEmbl(content) || extension === "embl") {
+    return parseEmbl(content);
+  }
+
+  if (isSbol(content) || ["sbol", "xml", "rdf", "jsonld"].includes(extension)) {
+    return parseSbol(content);
+  }
+
+  if (isFasta(content)) {
+    return parseFasta(content);
+  }
+
+  // Anything else is treated as raw sequence text
+  const sequence = cleanGeneSequence(content);
+  if (!sequence) {
+    throw new Error("No sequence found in file");
+  }
+
+  return [{
+    name: baseName,
+    sequence,
+    topology: "linear",
+    annotations: []
+  }];
+}
+
+// True when a file holds annotations only and needs a loaded sequence
+export function isAnnotationFile(content: string | ArrayBuffer, fileName = ""): boolean {
+  const extension = fileName.split(".").pop()?.toLowerCase() || "";
+  return annotationFileExtensions.includes(extension) || (typeof content === "string" && isGff3(content));
+}
+
+// Parse a GFF3 or BED file into an annotation set
+export function parseAnnotationFile(content: string, fileName = ""): AnnotationSet {
+  const extension = fileName.split(".").pop()?.toLowerCase() || "";
+  const trackName = fileName || "Imported features";
+
+  if (extension === "bed") {
+    return parseBed(content, trackName);
+  }
+
+  return parseGff3(content, trackName);
+}
+
+// The sequence id in a file that belongs to the loaded sequence: the only one, or the
+// one named like it (ignoring accession versions)
+export function matchSeqid(set: AnnotationSet, sequenceName: string): string | undefined {
+  const seqids = Object.keys(set.bySeqid);
+  if (seqids.length <= 1) return seqids[0];
+
+  return seqids.find(seqid => seqid === sequenceName || seqid.split(".")[0] === sequenceName.split(".")[0]);
+}
+
+// Pick the features meant for the loaded sequence. A file covering several sequences
+// where none matches gives nothing; features from other sequences would land at wrong positions
+export function annotationsForSequence(set: AnnotationSet, sequenceName: string): Annotation[] {
+  const seqid = matchSeqid(set, sequenceName);
+  return seqid ? set.bySeqid[seqid] : [];
+}
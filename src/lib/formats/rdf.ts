@@ -0,0 +1,261 @@
+// A minimal RDF graph, enough to read and write SBOL documents
+export type RdfValue = { id: string } | { value: string; datatype?: string };
+
+export interface RdfNode {
+  id: string;
+  types: string[];
+  properties: Record<string, RdfValue[]>;
+}
+
+export type RdfGraph = Map<string, RdfNode>;
+
+export const RDF_NS = "http://www.w3.org/1999/02/22-rdf-syntax-ns#";
+export const XSD_NS = "http://www.w3.org/2001/XMLSchema#";
+export const XSD_INTEGER = `${XSD_NS}integer`;
+
+// Get a node, creating it on first use
+export function getNode(graph: RdfGraph, id: string): RdfNode {
+  let node = graph.get(id);
+  if (!node) {
+    node = { id, types: [], properties: {} };
+    graph.set(id, node);
+  }
+  return node;
+}
+
+export function addValue(node: RdfNode, predicate: string, value: RdfValue) {
+  (node.properties[predicate] ||= []).push(value);
+}
+
+// First literal value of a property
+export function literal(node: RdfNode | undefined, predicate: string): string | undefined {
+  const value = node?.properties[predicate]?.find((item): item is { value: string } => "value" in item);
+  return value?.value;
+}
+
+// All referenced ids of a property
+export function references(node: RdfNode | undefined, predicate: string): string[] {
+  return (node?.properties[predicate] || [])
+    .filter((item): item is { id: string } => "id" in item)
+    .map(item => item.id);
+}
+
+// Parse RDF/XML, including nested node elements and rdf:Description
+export function parseRdfXml(xml: string): RdfGraph {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) {
+    throw new Error("File is not well-formed XML");
+  }
+
+  const root = doc.documentElement;
+  if (root.namespaceURI !== RDF_NS || root.localName !== "RDF") {
+    throw new Error("File is not RDF/XML (missing rdf:RDF root)");
+  }
+
+  const graph: RdfGraph = new Map();
+  let blankCount = 0;
+
+  const readNode = (element: Element): string => {
+    const id = element.getAttributeNS(RDF_NS, "about") ||
+      element.getAttributeNS(RDF_NS, "nodeID") ||
+      `_:b${blankCount++}`;
+    const node = getNode(graph, id);
+
+    const elementType = `${element.namespaceURI}${element.localName}`;
+    if (elementType !== `${RDF_NS}Description`) {
+      node.types.push(elementType);
+    }
+
+    for (const child of Array.from(element.children)) {
+      const predicate = `${child.namespaceURI}${child.localName}`;
+      const resource = child.getAttributeNS(RDF_NS, "resource");
+
+      if (resource) {
+        if (predicate === `${RDF_NS}type`) node.types.push(resource);
+        else addValue(node, predicate, { id: resource });
+      } else if (child.children.length) {
+        // A nested node element describes a child object inline
+        for (const nested of Array.from(child.children)) {
+          addValue(node, predicate, { id: readNode(nested) });
+        }
+      } else {
+        const datatype = child.getAttributeNS(RDF_NS, "datatype");
+        addValue(node, predicate, { value: child.textContent || "", ...(datatype ? { datatype } : {}) });
+      }
+    }
+
+    return id;
+  };
+
+  for (const element of Array.from(root.children)) {
+    readNode(element);
+  }
+
+  return graph;
+}
+
+// Write a graph as flat RDF/XML, one top-level description per node
+export function writeRdfXml(graph: RdfGraph, prefixes: Record<string, string>): string {
+  const allPrefixes = { rdf: RDF_NS, ...prefixes };
+
+  const qualify = (iri: string): string => {
+    for (const [prefix, ns] of Object.entries(allPrefixes)) {
+      if (iri.startsWith(ns) && /^[A-Za-z_][\w-]*$/.test(iri.slice(ns.length))) {
+        return `${prefix}:${iri.slice(ns.length)}`;
+      }
+    }
+    throw new Error(`No XML prefix for ${iri}`);
+  };
+
+  const lines = ['<?xml version="1.0" encoding="utf-8"?>'];
+  const namespaces = Object.entries(allPrefixes).map(([prefix, ns]) => `xmlns:${prefix}="${escapeXml(ns)}"`);
+  lines.push(`<rdf:RDF ${namespaces.join(" ")}>`);
+
+  for (const node of graph.values()) {
+    const [type, ...otherTypes] = node.types;
+    const tag = type ? qualify(type) : "rdf:Description";
+
+    lines.push(`  <${tag} rdf:about="${escapeXml(node.id)}">`);
+    for (const extraType of otherTypes) {
+      lines.push(`    <rdf:type rdf:resource="${escapeXml(extraType)}"/>`);
+    }
+    for (const [predicate, values] of Object.entries(node.properties)) {
+      const property = qualify(predicate);
+      for (const value of values) {
+        if ("id" in value) {
+          lines.push(`    <${property} rdf:resource="${escapeXml(value.id)}"/>`);
+        } else if (value.datatype) {
+          lines.push(
+            `    <${property} rdf:datatype="${escapeXml(value.datatype)}">${escapeXml(value.value)}</${property}>`
+          );
+        } else {
+          lines.push(`    <${property}>${escapeXml(value.value)}</${property}>`);
+        }
+      }
+    }
+    lines.push(`  </${tag}>`);
+  }
+
+  lines.push("</rdf:RDF>");
+  return lines.join("\n") + "\n";
+}
+
+// Parse JSON-LD with a prefix-style @context (flat @graph or a single object)
+export function parseJsonLd(json: string): RdfGraph {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("File is not valid JSON-LD");
+  }
+
+  const graph: RdfGraph = new Map();
+  let blankCount = 0;
+
+  type JsonObject = Record<string, unknown>;
+  const documents = (Array.isArray(data) ? data : [data]) as JsonObject[];
+
+  const readObject = (object: JsonObject, context: Record<string, string>): string => {
+    const expand = (term: string): string => {
+      if (context[term]) return context[term];
+      const separator = term.indexOf(":");
+      if (separator > 0) {
+        const ns = context[term.slice(0, separator)];
+        if (ns) return ns + term.slice(separator + 1);
+      }
+      return term;
+    };
+
+    const id = typeof object["@id"] === "string" ? expand(object["@id"]) : `_:b${blankCount++}`;
+    const node = getNode(graph, id);
+
+    const types = object["@type"];
+    for (const type of Array.isArray(types) ? types : types ? [types] : []) {
+      node.types.push(expand(String(type)));
+    }
+
+    for (const [key, raw] of Object.entries(object)) {
+      if (key.startsWith("@")) continue;
+      const predicate = expand(key);
+
+      for (const item of Array.isArray(raw) ? raw : [raw]) {
+        if (item && typeof item === "object") {
+          const itemObject = item as JsonObject;
+          if ("@value" in itemObject) {
+            const datatype = typeof itemObject["@type"] === "string" ? expand(itemObject["@type"]) : undefined;
+            addValue(node, predicate, { value: String(itemObject["@value"]), ...(datatype ? { datatype } : {}) });
+          } else if (Object.keys(itemObject).length === 1 && typeof itemObject["@id"] === "string") {
+            addValue(node, predicate, { id: expand(itemObject["@id"]) });
+          } else {
+            addValue(node, predicate, { id: readObject(itemObject, context) });
+          }
+        } else if (item !== null && item !== undefined) {
+          addValue(node, predicate, { value: String(item) });
+        }
+      }
+    }
+
+    return id;
+  };
+
+  for (const document of documents) {
+    const context: Record<string, string> = {};
+    const rawContext = document["@context"];
+    for (const entry of Array.isArray(rawContext) ? rawContext : [rawContext]) {
+      if (!entry || typeof entry !== "object") continue;
+      for (const [term, definition] of Object.entries(entry as JsonObject)) {
+        if (typeof definition === "string") context[term] = definition;
+        else if (definition && typeof (definition as JsonObject)["@id"] === "string") {
+          context[term] = (definition as JsonObject)["@id"] as string;
+        }
+      }
+    }
+
+    const objects = Array.isArray(document["@graph"]) ? document["@graph"] as JsonObject[] : [document];
+    for (const object of objects) {
+      readObject(object, context);
+    }
+  }
+
+  return graph;
+}
+
+// Write a graph as compact JSON-LD with one flat @graph
+export function writeJsonLd(graph: RdfGraph, prefixes: Record<string, string>): string {
+  const compact = (iri: string): string => {
+    for (const [prefix, ns] of Object.entries(prefixes)) {
+      if (iri.startsWith(ns)) return `${prefix}:${iri.slice(ns.length)}`;
+    }
+    return iri;
+  };
+
+  const nodes = Array.from(graph.values()).map(node => {
+    const object: Record<string, unknown> = { "@id": node.id };
+    if (node.types.length) {
+      object["@type"] = node.types.length === 1 ? compact(node.types[0]) : node.types.map(compact);
+    }
+
+    for (const [predicate, values] of Object.entries(node.properties)) {
+      const items = values.map(value => {
+        if ("id" in value) return { "@id": value.id };
+        if (!value.datatype) return value.value;
+        // Typed literals keep their datatype; integers are written as JSON numbers
+        const literalValue = value.datatype === XSD_INTEGER ? Number(value.value) : value.value;
+        return { "@value": literalValue, "@type": compact(value.datatype) };
+      });
+      object[compact(predicate)] = items.length === 1 ? items[0] : items;
+    }
+
+    return object;
+  });
+
+  return JSON.stringify({ "@context": prefixes, "@graph": nodes }, null, 2);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,331 @@
+import { cleanGeneSequence, SequenceType } from "@/lib/sequenceUtils";
+import { Annotation, FeatureLocation, Note, Strand, getFeatureColor, getLocationSpan } from "@/lib/features";
+import {
+  addValue,
+  getNode,
+  literal,
+  parseJsonLd,
+  parseRdfXml,
+  RdfGraph,
+  RdfNode,
+  references,
+  writeJsonLd,
+  writeRdfXml,
+  XSD_INTEGER,
+  XSD_NS
+} from "./rdf";
+import { SequenceRecord } from "./types";
+
+export type SbolFormat = "rdfxml" | "jsonld";
+
+const SBOL = "http://sbols.org/v3#";
+const SO = "https://identifiers.org/SO:";
+const SBO = "https://identifiers.org/SBO:";
+const EDAM = "https://identifiers.org/edam:";
+
+// Namespace used for the identities of exported objects
+const defaultNamespace = "https://example.org/geneforge";
+
+// Sequence Ontology roles for the feature types the editor knows about
+const typeToRole: Record<string, string> = {
+  cds: "0000316",
+  gene: "0000704",
+  promoter: "0000167",
+  terminator: "0000141",
+  rbs: "0000139",
+  rep_origin: "0000296",
+  primer_bind: "0005850",
+  protein_bind: "0000410",
+  misc_feature: "0000001",
+  regulatory: "0005836",
+  polya_signal: "0000551",
+  enhancer: "0000165",
+  intron: "0000188",
+  exon: "0000147",
+  mrna: "0000234",
+  sig_peptide: "0000418",
+  restriction_site: "0001687",
+  misc: "0000001"
+};
+
+// Reverse lookup, preferring the GenBank spelling of each type
+const roleToType: Record<string, string> = {
+  "0000316": "CDS",
+  "0000704": "gene",
+  "0000167": "promoter",
+  "0000141": "terminator",
+  "0000139": "RBS",
+  "0000552": "RBS",
+  "0000296": "rep_origin",
+  "0005850": "primer_bind",
+  "0000410": "protein_bind",
+  "0000001": "misc_feature",
+  "0005836": "regulatory",
+  "0000551": "polyA_signal",
+  "0000165": "enhancer",
+  "0000188": "intron",
+  "0000147": "exon",
+  "0000234": "mRNA",
+  "0000418": "sig_peptide",
+  "0001687": "restriction_site",
+  "0000168": "restriction_site",
+  "0000804": "misc_feature"
+};
+
+const moleculeTypes: Record<string, string> = {
+  dna: "0000251",
+  rna: "0000250",
+  protein: "0000252"
+};
+
+const orientations = {
+  forward: [`${SO}0001030`, `${SBOL}inline`],
+  reverse: [`${SO}0001031`, `${SBOL}reverseComplement`]
+};
+
+// Exported notes become features with this displayId prefix so they can be read back as notes
+const notePrefix = "note_";
+
+// Quick check used by the format sniffer
+export function isSbol(content: string): boolean {
+  return content.includes("http://sbols.org/v3#");
+}
+
+// Parse an SBOL3 document (RDF/XML or JSON-LD); one record per Component with a sequence
+export function parseSbol(content: string): SequenceRecord[] {
+  const trimmed = content.trim();
+  const graph = trimmed.startsWith("{") || trimmed.startsWith("[") ? parseJsonLd(trimmed) : parseRdfXml(trimmed);
+
+  const records: SequenceRecord[] = [];
+  for (const node of graph.values()) {
+    if (!node.types.includes(`${SBOL}Component`)) continue;
+
+    const sequenceNode = references(node, `${SBOL}hasSequence`)
+      .map(id => graph.get(id))
+      .find(item => literal(item, `${SBOL}elements`));
+    if (!sequenceNode) continue;
+
+    records.push(readComponent(graph, node, sequenceNode));
+  }
+
+  if (!records.length) {
+    throw new Error("No SBOL3 Components with a sequence found");
+  }
+
+  return records;
+}
+
+// Turn a Component and its SequenceFeatures into a record
+function readComponent(graph: RdfGraph, component: RdfNode, sequenceNode: RdfNode): SequenceRecord {
+  const sequence = cleanGeneSequence(literal(sequenceNode, `${SBOL}elements`) || "");
+  const componentTypes = references(component, `${SBOL}type`);
+  const circular = componentTypes.includes(`${SO}0000988`);
+
+  const annotations: Annotation[] = [];
+  const notes: Note[] = [];
+
+  for (const featureId of references(component, `${SBOL}hasFeature`)) {
+    const feature = graph.get(featureId);
+    if (!feature?.types.includes(`${SBOL}SequenceFeature`)) continue;
+
+    const locations: FeatureLocation[] = [];
+    let direction: Strand = 0;
+
+    for (const locationId of references(feature, `${SBOL}hasLocation`)) {
+      const location = graph.get(locationId);
+      if (!location) continue;
+
+      if (location.types.includes(`${SBOL}Range`)) {
+        const start = Number(literal(location, `${SBOL}start`));
+        const end = Number(literal(location, `${SBOL}end`));
+        if (!Number.isFinite(start) || !Number.isFinite(end)) continue;
+        locations.push({ start: start - 1, end });
+      } else if (location.types.includes(`${SBOL}EntireSequence`)) {
+        locations.push({ start: 0, end: sequence.length });
+      } else {
+        continue;
+      }
+
+      const orientation = references(location, `${SBOL}orientation`)[0];
+      if (orientation && orientations.reverse.includes(orientation)) direction = -1;
+      else if (orientation && orientations.forward.includes(orientation)) direction = 1;
+    }
+
+    if (!locations.length) continue;
+
+    // A feature split at the origin comes back as one wrapped range
+    if (
+      circular && locations.length === 2 &&
+      locations[0].end === sequence.length && locations[1].start === 0
+    ) {
+      locations.splice(0, 2, { start: locations[0].start, end: locations[1].end });
+    }
+
+    // Ranges are kept in document order, which is top-strand order for our own exports
+    const span = getLocationSpan(locations, circular);
+    const displayId = literal(feature, `${SBOL}displayId`) || "";
+    const name = literal(feature, `${SBOL}name`) || displayId;
+    const description = literal(feature, `${SBOL}description`);
+
+    if (displayId.startsWith(notePrefix)) {
+      notes.push({
+        title: name,
+        content: description || "",
+        start: span.start,
+        end: span.end,
+        createdAt: new Date().toISOString()
+      });
+      continue;
+    }
+
+    const role = references(feature, `${SBOL}role`)
+      .map(iri => iri.replace(/^.*SO[:_]/, ""))
+      .find(id => roleToType[id]);
+    const type = role ? roleToType[role] : "misc_feature";
+
+    annotations.push({
+      name: name || type,
+      start: span.start,
+      end: span.end,
+      direction,
+      color: getFeatureColor(type),
+      type,
+      qualifiers: {
+        label: [name || type],
+        ...(description ? { note: [description] } : {})
+      },
+      ...(locations.length > 1 ? { locations } : {})
+    });
+  }
+
+  const displayId = literal(component, `${SBOL}displayId`) || "";
+  const description = literal(component, `${SBOL}description`);
+
+  return {
+    name: literal(component, `${SBOL}name`) || displayId || "Untitled",
+    description,
+    sequence,
+    topology: circular ? "circular" : "linear",
+    annotations,
+    notes,
+    metadata: {
+      ...(description ? { definition: description } : {}),
+      identity: component.id
+    }
+  };
+}
+
+// Write a record, its annotations and its notes as an SBOL3 document
+export function writeSbol(
+  record: SequenceRecord,
+  format: SbolFormat,
+  sequenceType: SequenceType = "dna",
+  namespace = defaultNamespace
+): string {
+  const graph: RdfGraph = new Map();
+  const displayId = toDisplayId(record.name);
+  const componentId = `${namespace}/${displayId}`;
+  const sequenceId = `${namespace}/${displayId}_sequence`;
+  const isProtein = sequenceType === "protein";
+
+  const component = getNode(graph, componentId);
+  component.types.push(`${SBOL}Component`);
+  addValue(component, `${SBOL}displayId`, { value: displayId });
+  addValue(component, `${SBOL}name`, { value: record.name });
+  const description = record.description || record.metadata?.definition;
+  if (description) {
+    addValue(component, `${SBOL}description`, { value: description });
+  }
+  addValue(component, `${SBOL}hasNamespace`, { id: namespace });
+  addValue(component, `${SBOL}type`, { id: `${SBO}${moleculeTypes[sequenceType] || moleculeTypes.dna}` });
+  if (!isProtein) {
+    addValue(component, `${SBOL}type`, { id: `${SO}${record.topology === "circular" ? "0000988" : "0000987"}` });
+    addValue(component, `${SBOL}role`, { id: `${SO}0000804` });
+  }
+  addValue(component, `${SBOL}hasSequence`, { id: sequenceId });
+
+  const sequenceNode = getNode(graph, sequenceId);
+  sequenceNode.types.push(`${SBOL}Sequence`);
+  addValue(sequenceNode, `${SBOL}displayId`, { value: `${displayId}_sequence` });
+  addValue(sequenceNode, `${SBOL}hasNamespace`, { id: namespace });
+  addValue(sequenceNode, `${SBOL}elements`, { value: record.sequence.toLowerCase() });
+  addValue(sequenceNode, `${SBOL}encoding`, { id: `${EDAM}${isProtein ? "format_1208" : "format_1207"}` });
+
+  // Split a feature into the ranges SBOL needs, one per side of the origin
+  const toRanges = (item: { start: number; end: number; locations?: FeatureLocation[] }): FeatureLocation[] => {
+    const segments = item.locations?.length ? item.locations : [{ start: item.start, end: item.end }];
+    return segments.flatMap(segment =>
+      segment.start > segment.end
+        ? [{ start: segment.start, end: record.sequence.length }, { start: 0, end: segment.end }]
+        : [segment]
+    );
+  };
+
+  const addFeature = (
+    featureDisplayId: string,
+    name: string,
+    role: string,
+    direction: Strand,
+    ranges: FeatureLocation[],
+    featureDescription?: string
+  ) => {
+    const featureId = `${componentId}/${featureDisplayId}`;
+    const feature = getNode(graph, featureId);
+    feature.types.push(`${SBOL}SequenceFeature`);
+    addValue(feature, `${SBOL}displayId`, { value: featureDisplayId });
+    addValue(feature, `${SBOL}name`, { value: name });
+    if (featureDescription) {
+      addValue(feature, `${SBOL}description`, { value: featureDescription });
+    }
+    addValue(feature, `${SBOL}role`, { id: `${SO}${role}` });
+    addValue(component, `${SBOL}hasFeature`, { id: featureId });
+
+    ranges.forEach((range, index) => {
+      const rangeId = `${featureId}/Range${index + 1}`;
+      const node = getNode(graph, rangeId);
+      node.types.push(`${SBOL}Range`);
+      addValue(node, `${SBOL}displayId`, { value: `Range${index + 1}` });
+      addValue(node, `${SBOL}hasSequence`, { id: sequenceId });
+      // SBOL types positions as xsd:integer
+      addValue(node, `${SBOL}start`, { value: String(range.start + 1), datatype: XSD_INTEGER });
+      addValue(node, `${SBOL}end`, { value: String(range.end), datatype: XSD_INTEGER });
+      if (direction !== 0) {
+        addValue(node, `${SBOL}orientation`, {
+          id: direction === 1 ? orientations.forward[0] : orientations.reverse[0]
+        });
+      }
+      addValue(feature, `${SBOL}hasLocation`, { id: rangeId });
+    });
+  };
+
+  record.annotations.forEach((annotation, index) => {
+    addFeature(
+      `SequenceFeature${index + 1}`,
+      annotation.name,
+      typeToRole[annotation.type.toLowerCase()] || typeToRole.misc_feature,
+      annotation.direction,
+      toRanges(annotation),
+      annotation.qualifiers?.note?.join("; ")
+    );
+  });
+
+  (record.notes || []).forEach((note, index) => {
+    addFeature(
+      `${notePrefix}${index + 1}`,
+      note.title,
+      typeToRole.misc_feature,
+      0,
+      toRanges(note),
+      note.content
+    );
+  });
+
+  const prefixes = { sbol: SBOL, xsd: XSD_NS };
+  return format === "jsonld" ? writeJsonLd(graph, prefixes) : writeRdfXml(graph, prefixes);
+}
+
+// SBOL displayIds must be valid identifiers
+function toDisplayId(name: string): string {
+  const id = name.trim().replace(/[^A-Za-z0-9_]+/g, "_");
+  return /^[A-Za-z_]/.test(id) ? id : `_${id}`;
+}
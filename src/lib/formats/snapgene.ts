@@ -0,0 +1,214 @@
+import { Annotation, FeatureLocation, Primer, Strand, getFeatureColor, getLocationSpan } from "@/lib/features";
+import { SequenceRecord } from "./types";
+
+// Packet types used by SnapGene .dna files
+const PACKET_DNA = 0x00;
+const PACKET_PRIMERS = 0x05;
+const PACKET_NOTES = 0x06;
+const PACKET_COOKIE = 0x09;
+const PACKET_FEATURES = 0x0a;
+const PACKET_PROTEIN = 0x15;
+const PACKET_RNA = 0x20;
+
+// Quick check for the "SnapGene" cookie at the start of the file
+export function isSnapGene(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < 14) return false;
+  const bytes = new Uint8Array(buffer);
+  return bytes[0] === PACKET_COOKIE && decodeAscii(bytes.subarray(5, 13)) === "SnapGene";
+}
+
+// Parse a SnapGene .dna file into a single sequence record
+export function parseSnapGene(buffer: ArrayBuffer, name = "Untitled"): SequenceRecord[] {
+  if (!isSnapGene(buffer)) {
+    throw new Error("Not a SnapGene file (missing SnapGene header)");
+  }
+
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const record: SequenceRecord = {
+    name,
+    sequence: "",
+    topology: "linear",
+    annotations: [],
+    primers: [],
+    metadata: {}
+  };
+  let featuresXml = "";
+  let primersXml = "";
+
+  // Each packet is a type byte, a big-endian length and the payload
+  let offset = 0;
+  while (offset + 5 <= buffer.byteLength) {
+    const type = view.getUint8(offset);
+    const length = view.getUint32(offset + 1, false);
+    const payload = bytes.subarray(offset + 5, offset + 5 + length);
+    offset += 5 + length;
+
+    if (payload.length < length) {
+      throw new Error("SnapGene file is truncated");
+    }
+
+    switch (type) {
+      case PACKET_DNA:
+        // The first byte holds flags; bit 0 marks circular molecules
+        record.topology = payload[0] & 0x01 ? "circular" : "linear";
+        record.sequence = decodeAscii(payload.subarray(1)).toUpperCase();
+        break;
+      case PACKET_PROTEIN:
+      case PACKET_RNA:
+        if (!record.sequence) {
+          record.sequence = decodeAscii(payload.subarray(1)).toUpperCase();
+        }
+        break;
+      case PACKET_FEATURES:
+        featuresXml = decodeUtf8(payload);
+        break;
+      case PACKET_PRIMERS:
+        primersXml = decodeUtf8(payload);
+        break;
+      case PACKET_NOTES:
+        Object.assign(record.metadata, parseNotes(decodeUtf8(payload)));
+        break;
+    }
+  }
+
+  if (!record.sequence) {
+    throw new Error("SnapGene file does not contain a sequence");
+  }
+
+  const circular = record.topology === "circular";
+  if (featuresXml) record.annotations = parseFeatures(featuresXml, circular);
+  if (primersXml) record.primers = parsePrimers(primersXml);
+  record.description = record.metadata.description;
+
+  return [record];
+}
+
+// Read <Feature> elements into annotations
+function parseFeatures(xml: string, circular: boolean): Annotation[] {
+  const doc = parseXml(xml);
+  const annotations: Annotation[] = [];
+
+  for (const feature of Array.from(doc.getElementsByTagName("Feature"))) {
+    const type = feature.getAttribute("type") || "misc_feature";
+    const segments = Array.from(feature.getElementsByTagName("Segment"))
+      .filter(segment => segment.getAttribute("type") !== "gap");
+
+    const locations = segments
+      .map(segment => parseRange(segment.getAttribute("range")))
+      .filter((location): location is FeatureLocation => location !== null);
+    if (!locations.length) continue;
+
+    const qualifiers: Record<string, string[]> = {};
+    for (const qualifier of Array.from(feature.getElementsByTagName("Q"))) {
+      const key = qualifier.getAttribute("name");
+      if (!key) continue;
+      qualifiers[key] = Array.from(qualifier.getElementsByTagName("V")).map(value =>
+        stripHtml(value.getAttribute("text") ?? value.getAttribute("int") ?? value.getAttribute("predef") ?? "")
+      );
+    }
+
+    const span = getLocationSpan(locations, circular);
+    const annotation: Annotation = {
+      name: feature.getAttribute("name") || type,
+      start: span.start,
+      end: span.end,
+      direction: parseDirectionality(feature.getAttribute("directionality")),
+      color: segments[0]?.getAttribute("color") || getFeatureColor(type),
+      type,
+      qualifiers
+    };
+
+    if (locations.length > 1) {
+      annotation.locations = locations;
+    }
+
+    annotations.push(annotation);
+  }
+
+  return annotations;
+}
+
+// Read <Primer> elements, one entry per binding site
+function parsePrimers(xml: string): Primer[] {
+  const doc = parseXml(xml);
+  const primers: Primer[] = [];
+
+  for (const primer of Array.from(doc.getElementsByTagName("Primer"))) {
+    const name = primer.getAttribute("name") || "Primer";
+    const sequence = (primer.getAttribute("sequence") || "").toUpperCase();
+
+    for (const site of Array.from(primer.getElementsByTagName("BindingSite"))) {
+      // Simulated sites are recomputed copies of the real ones
+      if (site.getAttribute("simplified") === "1") continue;
+
+      const location = parseRange(site.getAttribute("location"));
+      if (!location) continue;
+
+      primers.push({
+        name,
+        sequence,
+        start: location.start,
+        end: location.end,
+        direction: site.getAttribute("boundStrand") === "1" ? -1 : 1
+      });
+    }
+  }
+
+  return primers;
+}
+
+// Pull the description and a few useful fields from the notes packet
+function parseNotes(xml: string): Record<string, string> {
+  const doc = parseXml(xml);
+  const metadata: Record<string, string> = {};
+  const fields: Record<string, string> = {
+    Description: "description",
+    Type: "moleculeType",
+    ConfirmedExperimentally: "confirmed",
+    AccessionNumber: "accession",
+    Organism: "organism"
+  };
+
+  for (const [tag, key] of Object.entries(fields)) {
+    const text = doc.getElementsByTagName(tag)[0]?.textContent?.trim();
+    if (text) metadata[key] = stripHtml(text);
+  }
+
+  return metadata;
+}
+
+// SnapGene ranges are 1-based and inclusive, e.g. "10-250"; wrapped ranges have start > end
+function parseRange(range: string | null): FeatureLocation | null {
+  const match = range?.match(/^(\d+)-(\d+)$/);
+  if (!match) return null;
+  return { start: parseInt(match[1], 10) - 1, end: parseInt(match[2], 10) };
+}
+
+// SnapGene directionality: 1 forward, 2 reverse, 3 bidirectional
+function parseDirectionality(value: string | null): Strand {
+  if (value === "1") return 1;
+  if (value === "2") return -1;
+  return 0;
+}
+
+function parseXml(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) {
+    throw new Error("SnapGene file contains malformed XML");
+  }
+  return doc;
+}
+
+// Qualifier text is often wrapped in <html><body> markup
+function stripHtml(text: string): string {
+  return text.replace(/<[^>]+>/g, "").trim();
+}
+
+function decodeAscii(bytes: Uint8Array): string {
+  return new TextDecoder("latin1").decode(bytes);
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  return new TextDecoder("utf-8").decode(bytes);
+}
@@ -0,0 +1,24 @@
+import { Annotation, Note, Primer } from "@/lib/features";
+
+export type Topology = "linear" | "circular";
+
+// A sequence record read from a file, ready to be loaded into the editor
+export interface SequenceRecord {
+  name: string;
+  description?: string;
+  sequence: string;
+  topology: Topology;
+  annotations: Annotation[];
+  primers?: Primer[];
+  // Notes carried by formats that have them (SBOL descriptions)
+  notes?: Note[];
+  // Free-form header fields such as accession, organism or keywords
+  metadata?: Record<string, string>;
+}
+
+// Features read from an annotation-only file (GFF3, BED), grouped by sequence id
+export interface AnnotationSet {
+  name: string;
+  format: "gff3" | "bed";
+  bySeqid: Record<string, Annotation[]>;
+}
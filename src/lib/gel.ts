@@ -0,0 +1,78 @@
+// Simulated agarose gels: DNA ladders and where bands end up
+
+export interface Ladder {
+  id: string;
+  name: string;
+  // Band sizes in bp, largest first
+  bands: number[];
+  // Brighter reference bands, as on the supplier's picture
+  strong?: number[];
+}
+
+export const ladders: Ladder[] = [
+  {
+    id: "neb-1kb",
+    name: "1 kb DNA Ladder (NEB)",
+    bands: [10000, 8000, 6000, 5000, 4000, 3000, 2000, 1500, 1000, 500],
+    strong: [3000]
+  },
+  {
+    id: "neb-1kb-plus",
+    name: "1 kb Plus DNA Ladder (NEB)",
+    bands: [10002, 8001, 6001, 5001, 4001, 3001, 2000, 1500, 1200, 1000, 900, 800, 700, 600, 500, 400, 300, 200, 100],
+    strong: [3001, 1000, 500]
+  },
+  {
+    id: "neb-100bp",
+    name: "100 bp DNA Ladder (NEB)",
+    bands: [1517, 1200, 1000, 900, 800, 700, 600, 517, 500, 400, 300, 200, 100],
+    strong: [1000, 500]
+  },
+  {
+    id: "generuler-1kb",
+    name: "GeneRuler 1 kb (Thermo)",
+    bands: [10000, 8000, 6000, 5000, 4000, 3500, 3000, 2500, 2000, 1500, 1000, 750, 500, 250],
+    strong: [6000, 3000, 1000]
+  },
+  {
+    id: "lambda-hindiii",
+    name: "Lambda DNA / HindIII",
+    bands: [23130, 9416, 6557, 4361, 2322, 2027, 564, 125]
+  }
+];
+
+export function getLadder(id: string): Ladder {
+  return ladders.find(ladder => ladder.id === id) || ladders[0];
+}
+
+// Agarose concentrations offered, with the range of linear DNA sizes (bp) each
+// separates well. Sizes outside the range bunch up at the top or bottom.
+export const agaroseRanges: Record<number, [number, number]> = {
+  0.5: [1000, 30000],
+  0.7: [800, 12000],
+  0.8: [700, 10000],
+  1: [500, 10000],
+  1.2: [400, 7000],
+  1.5: [200, 3000],
+  2: [100, 2000],
+  3: [50, 1000]
+};
+
+// Supercoiled plasmid runs ahead of linear DNA of the same size; this is a
+// rough rule of thumb, real gels vary with conditions
+export const supercoiledMobility = 0.7;
+
+// How far a linear fragment travels, from 0 (well) to 1 (bottom of the gel).
+// Migration is taken as linear in log(size) across the resolving range, and
+// squeezed into the last tenth of the gel at either end beyond it.
+export function migration(size: number, agarose: number): number {
+  const [min, max] = agaroseRanges[agarose] || agaroseRanges[1];
+  const top = 0.05;
+  const bottom = 0.9;
+  const logSize = Math.log10(Math.max(size, 1));
+  const fraction = (Math.log10(max) - logSize) / (Math.log10(max) - Math.log10(min));
+
+  if (fraction < 0) return top * Math.exp(fraction * 4);
+  if (fraction > 1) return bottom + (1 - bottom) * (1 - Math.exp(-(fraction - 1) * 2));
+  return top + (bottom - top) * fraction;
+}
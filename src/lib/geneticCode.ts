@@ -0,0 +1,160 @@
+// NCBI translation tables (https://www.ncbi.nlm.nih.gov/Taxonomy/Utils/wprintgc.cgi).
+// Each table lists the amino acid and start flag of all 64 codons with bases in
+// TCAG order, the same layout as NCBI's gc.prt.
+
+export interface GeneticCode {
+  id: number;
+  name: string;
+  // Codon -> one-letter amino acid, "*" for stop
+  codons: Record<string, string>;
+  // Codons that can start translation (translated as M at the start)
+  starts: string[];
+  stops: string[];
+}
+
+const bases = "TCAG";
+
+const tableData: { id: number; name: string; aas: string; starts: string }[] = [
+  {
+    id: 1,
+    name: "Standard",
+    aas: "FFLLSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: "---M------**--*----M---------------M----------------------------"
+  },
+  {
+    id: 2,
+    name: "Vertebrate Mitochondrial",
+    aas: "FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNKKSS**VVVVAAAADDEEGGGG",
+    starts: "----------**--------------------MMMM----------**---M------------"
+  },
+  {
+    id: 3,
+    name: "Yeast Mitochondrial",
+    aas: "FFLLSSSSYY**CCWWTTTTPPPPHHQQRRRRIIMMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: "----------**----------------------MM---------------M------------"
+  },
+  {
+    id: 4,
+    name: "Mold, Protozoan and Coelenterate Mitochondrial; Mycoplasma",
+    aas: "FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: "--MM------**-------M------------MMMM---------------M------------"
+  },
+  {
+    id: 5,
+    name: "Invertebrate Mitochondrial",
+    aas: "FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNKKSSSSVVVVAAAADDEEGGGG",
+    starts: "---M------**--------------------MMMM---------------M------------"
+  },
+  {
+    id: 6,
+    name: "Ciliate, Dasycladacean and Hexamita Nuclear",
+    aas: "FFLLSSSSYYQQCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: "--------------*--------------------M----------------------------"
+  },
+  {
+    id: 9,
+    name: "Echinoderm and Flatworm Mitochondrial",
+    aas: "FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNNKSSSSVVVVAAAADDEEGGGG",
+    starts: "-----------------------------------M---------------M------------"
+  },
+  {
+    id: 10,
+    name: "Euplotid Nuclear",
+    aas: "FFLLSSSSYY**CCCWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: "---M------**-----------------------M----------------------------"
+  },
+  {
+    id: 11,
+    name: "Bacterial, Archaeal and Plant Plastid",
+    aas: "FFLLSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: "---M------**--*----M------------MMMM---------------M------------"
+  },
+  {
+    id: 12,
+    name: "Alternative Yeast Nuclear",
+    aas: "FFLLSSSSYY**CC*WLLLSPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: "-------------------M---------------M----------------------------"
+  },
+  {
+    id: 13,
+    name: "Ascidian Mitochondrial",
+    aas: "FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNKKSSGGVVVVAAAADDEEGGGG",
+    starts: "---M------------------------------MM---------------M------------"
+  },
+  {
+    id: 14,
+    name: "Alternative Flatworm Mitochondrial",
+    aas: "FFLLSSSSYYY*CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNNKSSSSVVVVAAAADDEEGGGG",
+    starts: "-----------------------------------M----------------------------"
+  },
+  {
+    id: 16,
+    name: "Chlorophycean Mitochondrial",
+    aas: "FFLLSSSSYY*LCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: "-----------------------------------M----------------------------"
+  },
+  {
+    id: 21,
+    name: "Trematode Mitochondrial",
+    aas: "FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNNKSSSSVVVVAAAADDEEGGGG",
+    starts: "-----------------------------------M---------------M------------"
+  },
+  {
+    id: 22,
+    name: "Scenedesmus obliquus Mitochondrial",
+    aas: "FFLLSS*SYY*LCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: "-----------------------------------M----------------------------"
+  },
+  {
+    id: 23,
+    name: "Thraustochytrium Mitochondrial",
+    aas: "FF*LSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: "--------------------------------M--M---------------M------------"
+  },
+  {
+    id: 24,
+    name: "Rhabdopleuridae Mitochondrial",
+    aas: "FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSSKVVVVAAAADDEEGGGG",
+    starts: "---M------**-------M---------------M---------------M------------"
+  },
+  {
+    id: 25,
+    name: "Candidate Division SR1 and Gracilibacteria",
+    aas: "FFLLSSSSYY**CCGWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: "---M-------------------------------M---------------M------------"
+  },
+  {
+    id: 26,
+    name: "Pachysolen tannophilus Nuclear",
+    aas: "FFLLSSSSYY**CC*WLLLAPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: "---M------**--*----M---------------M----------------------------"
+  },
+  {
+    id: 33,
+    name: "Cephalodiscidae Mitochondrial",
+    aas: "FFLLSSSSYYY*CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSSKVVVVAAAADDEEGGGG",
+    starts: "---M-------*-------M---------------M---------------M------------"
+  }
+];
+
+function buildCode({ id, name, aas, starts }: typeof tableData[number]): GeneticCode {
+  const codons: Record<string, string> = {};
+  const startCodons: string[] = [];
+  const stopCodons: string[] = [];
+
+  for (let index = 0; index < 64; index++) {
+    const codon = bases[Math.floor(index / 16)] + bases[Math.floor(index / 4) % 4] + bases[index % 4];
+    codons[codon] = aas[index];
+    if (starts[index] === "M") startCodons.push(codon);
+    if (aas[index] === "*") stopCodons.push(codon);
+  }
+
+  return { id, name, codons, starts: startCodons, stops: stopCodons };
+}
+
+export const geneticCodes: GeneticCode[] = tableData.map(buildCode);
+
+// Look up a translation table by its NCBI number, falling back to the standard code
+export function getGeneticCode(id: number = 1): GeneticCode {
+  return geneticCodes.find(code => code.id === id) || geneticCodes[0];
+}
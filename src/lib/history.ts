@@ -0,0 +1,72 @@
+// Undo/redo stacks of edit commands. Each command keeps the state before and
+// after it ran, so undoing restores `before` and redoing restores `after`.
+
+export interface HistoryEntry<T> {
+  label: string;
+  before: T;
+  after: T;
+  // Consecutive entries with the same group (e.g. typing) merge into one step
+  group?: string;
+  time: number;
+}
+
+export interface HistoryState<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+// How many steps are kept, and how far apart grouped edits may be and still merge
+export const HISTORY_LIMIT = 100;
+export const GROUP_WINDOW_MS = 1000;
+
+export function emptyHistory<T>(): HistoryState<T> {
+  return { past: [], future: [] };
+}
+
+// Record a new command, dropping anything that had been undone
+export function pushEntry<T>(history: HistoryState<T>, entry: HistoryEntry<T>): HistoryState<T> {
+  const last = history.past[history.past.length - 1];
+
+  if (
+    last &&
+    entry.group &&
+    last.group === entry.group &&
+    !history.future.length &&
+    entry.time - last.time <= GROUP_WINDOW_MS
+  ) {
+    const merged = { ...last, after: entry.after, time: entry.time };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+}
+
+// Move `steps` commands back (negative) or forward (positive) and return the
+// state to show, or null when there is nothing to move over
+export function travel<T>(history: HistoryState<T>, steps: number): { history: HistoryState<T>; state: T } | null {
+  if (steps < 0) {
+    const count = Math.min(-steps, history.past.length);
+    if (!count) return null;
+
+    const undone = history.past.slice(history.past.length - count);
+    return {
+      history: {
+        past: history.past.slice(0, history.past.length - count),
+        future: [...undone, ...history.future]
+      },
+      state: undone[0].before
+    };
+  }
+
+  const count = Math.min(steps, history.future.length);
+  if (!count) return null;
+
+  const redone = history.future.slice(0, count);
+  return {
+    history: {
+      past: [...history.past, ...redone],
+      future: history.future.slice(count)
+    },
+    state: redone[redone.length - 1].after
+  };
+}
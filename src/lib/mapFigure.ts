@@ -0,0 +1,452 @@
+import { Annotation } from "@/lib/features";
+import { CutSite } from "@/lib/enzymes";
+
+export type MapView = "circular" | "linear";
+
+export interface MapFigureOptions {
+  title: string;
+  sequenceLength: number;
+  annotations: Annotation[];
+  cutSites: CutSite[];
+  view: MapView;
+  showLegend: boolean;
+  showEnzymes: boolean;
+}
+
+// A standalone SVG drawing and its size in CSS pixels
+export interface MapFigure {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+type Label = { text: string; color: string; angle: number; anchorRadius: number };
+type Segment = { start: number; end: number };
+
+const font = "Helvetica, Arial, sans-serif";
+const lineHeight = 14;
+const charWidth = 6.5;
+
+// Draw the sequence as a plasmid map or a linear map, ready to save or print
+export function buildMapFigure(options: MapFigureOptions): MapFigure {
+  return options.view === "circular" ? buildCircularMap(options) : buildLinearMap(options);
+}
+
+function buildCircularMap({ title, sequenceLength, annotations, cutSites, showLegend, showEnzymes }: MapFigureOptions): MapFigure {
+  const radius = 190;
+  const laneWidth = 16;
+  const lanes = assignLanes(annotations, sequenceLength, feature => feature);
+  const laneCount = Math.min(Math.max(...lanes, -1) + 1, 6);
+  const labelRadius = radius + 14 + laneCount * laneWidth + 28;
+
+  // Widen the canvas so the longest label still fits beside the map
+  const labelTexts = [
+    ...annotations.map(annotation => annotation.name),
+    ...(showEnzymes ? cutSites.map(site => `${site.enzyme} (${site.position})`) : [])
+  ];
+  const longestLabel = Math.max(0, ...labelTexts.map(label => label.length)) * charWidth;
+  const width = Math.max(800, Math.ceil(2 * (labelRadius + longestLabel + 24)));
+  const cx = width / 2;
+  const cy = 40 + labelRadius;
+
+  const toAngle = (position: number) => (position / sequenceLength) * Math.PI * 2 - Math.PI / 2;
+  const point = (r: number, angle: number) => `${fmt(cx + r * Math.cos(angle))} ${fmt(cy + r * Math.sin(angle))}`;
+
+  const body: string[] = [];
+
+  // Backbone and scale
+  body.push(`<circle cx="${cx}" cy="${cy}" r="${radius}" fill="none" stroke="#4B5563" stroke-width="2"/>`);
+  for (const tick of scaleTicks(sequenceLength)) {
+    const angle = toAngle(tick);
+    body.push(`<path d="M ${point(radius, angle)} L ${point(radius - 6, angle)}" stroke="#4B5563" stroke-width="1"/>`);
+    body.push(text(tick.toLocaleString(), cx + (radius - 20) * Math.cos(angle), cy + (radius - 20) * Math.sin(angle) + 4, {
+      size: 10, anchor: "middle", color: "#6B7280"
+    }));
+  }
+
+  // Features as arrows, stacked outwards
+  const labels: Label[] = [];
+  annotations.forEach((annotation, index) => {
+    const lane = Math.min(lanes[index], laneCount - 1);
+    const rIn = radius + 6 + lane * laneWidth;
+    const rOut = rIn + laneWidth - 4;
+    const span = wrappedSpan(annotation, sequenceLength);
+    const a0 = toAngle(annotation.start);
+    const a1 = a0 + (span / sequenceLength) * Math.PI * 2 * (span === sequenceLength ? 0.999 : 1);
+    const rMid = (rIn + rOut) / 2;
+    const head = Math.min(10 / rMid, (a1 - a0) * 0.5);
+    const s = annotation.direction === -1 ? a0 + head : a0;
+    const e = annotation.direction === 1 ? a1 - head : a1;
+    const large = e - s > Math.PI ? 1 : 0;
+
+    const path = [
+      `M ${point(rOut, s)}`,
+      `A ${rOut} ${rOut} 0 ${large} 1 ${point(rOut, e)}`,
+      annotation.direction === 1 ? `L ${point(rMid, a1)}` : "",
+      `L ${point(rIn, e)}`,
+      `A ${rIn} ${rIn} 0 ${large} 0 ${point(rIn, s)}`,
+      annotation.direction === -1 ? `L ${point(rMid, a0)}` : "",
+      "Z"
+    ].filter(Boolean).join(" ");
+
+    body.push(`<path d="${path}" fill="${annotation.color}" stroke="${annotation.color}" stroke-width="0.5" fill-opacity="0.9"/>`);
+    labels.push({ text: annotation.name, color: "#111827", angle: (a0 + a1) / 2, anchorRadius: rOut });
+  });
+
+  // Cut sites cross the backbone and share the outer labels with features
+  if (showEnzymes) {
+    for (const site of cutSites) {
+      const angle = toAngle(site.position);
+      body.push(`<path d="M ${point(radius - 4, angle)} L ${point(radius + 4, angle)}" stroke="#111827" stroke-width="1.5"/>`);
+      labels.push({
+        text: `${site.enzyme} (${site.position})`,
+        color: "#B91C1C",
+        angle,
+        anchorRadius: radius + 4
+      });
+    }
+  }
+
+  // Spread the labels on each side so they never overlap
+  let bottom = cy + labelRadius;
+  for (const side of [1, -1]) {
+    const placed = labels
+      .filter(label => (Math.cos(label.angle) >= 0 ? 1 : -1) === side)
+      .map(label => ({ ...label, y: cy + labelRadius * Math.sin(label.angle) }))
+      .sort((a, b) => a.y - b.y);
+
+    for (let i = 1; i < placed.length; i++) {
+      placed[i].y = Math.max(placed[i].y, placed[i - 1].y + lineHeight);
+    }
+
+    for (const label of placed) {
+      const dy = Math.min(Math.abs(label.y - cy), labelRadius);
+      const x = cx + side * Math.sqrt(labelRadius * labelRadius - dy * dy);
+      body.push(`<path d="M ${point(label.anchorRadius, label.angle)} L ${fmt(x)} ${fmt(label.y)}" stroke="#9CA3AF" stroke-width="0.75" fill="none"/>`);
+      body.push(text(label.text, x + side * 4, label.y + 4, {
+        size: 11, anchor: side === 1 ? "start" : "end", color: label.color
+      }));
+      bottom = Math.max(bottom, label.y + lineHeight);
+    }
+  }
+
+  // Name and length in the middle of the plasmid
+  body.push(text(title, cx, cy - 4, { size: 16, anchor: "middle", weight: "bold" }));
+  body.push(text(`${sequenceLength.toLocaleString()} bp`, cx, cy + 16, { size: 12, anchor: "middle", color: "#6B7280" }));
+
+  return finishFigure(title, width, bottom + 20, body, annotations, cutSites, showLegend, showEnzymes);
+}
+
+function buildLinearMap({ title, sequenceLength, annotations, cutSites, showLegend, showEnzymes }: MapFigureOptions): MapFigure {
+  const width = 1000;
+  const left = 40;
+  const trackWidth = width - left * 2;
+  const laneHeight = 32;
+  const toX = (position: number) => left + (position / sequenceLength) * trackWidth;
+
+  // Features crossing the origin are drawn as two pieces
+  const pieces = annotations.flatMap(annotation => {
+    const segments = splitAtOrigin(annotation, sequenceLength);
+    if (!segments.length) return [];
+
+    // Label only the longer piece
+    const longest = segments.reduce((best, segment) =>
+      segment.end - segment.start > best.end - best.start ? segment : best
+    );
+    return segments.map(segment => ({ annotation, segment, labelled: segment === longest }));
+  });
+
+  // Lanes leave room for the label above each arrow
+  const lanes = assignLanes(pieces, sequenceLength, piece => {
+    const labelWidth = piece.labelled ? piece.annotation.name.length * charWidth : 0;
+    const mid = (toX(piece.segment.start) + toX(piece.segment.end)) / 2;
+    const x0 = Math.min(toX(piece.segment.start), mid - labelWidth / 2);
+    const x1 = Math.max(toX(piece.segment.end), mid + labelWidth / 2);
+    return { start: x0, end: x1 + 6 };
+  }, true);
+  const laneCount = Math.max(...lanes, -1) + 1;
+  const top = 70;
+  const backboneY = top + laneCount * laneHeight + 12;
+
+  const body: string[] = [];
+
+  pieces.forEach((piece, index) => {
+    const { annotation, segment } = piece;
+    const y = top + (laneCount - 1 - lanes[index]) * laneHeight + 14;
+    const x0 = toX(segment.start);
+    const x1 = toX(segment.end);
+    const head = Math.min(8, (x1 - x0) * 0.5);
+    const h = 12;
+
+    // Only the piece holding the true end of the feature gets the arrowhead
+    const forwardTip = annotation.direction === 1 && segment.end === annotation.end;
+    const reverseTip = annotation.direction === -1 && segment.start === annotation.start;
+    const path = [
+      `M ${fmt(reverseTip ? x0 + head : x0)} ${y}`,
+      `L ${fmt(forwardTip ? x1 - head : x1)} ${y}`,
+      forwardTip ? `L ${fmt(x1)} ${y + h / 2}` : "",
+      `L ${fmt(forwardTip ? x1 - head : x1)} ${y + h}`,
+      `L ${fmt(reverseTip ? x0 + head : x0)} ${y + h}`,
+      reverseTip ? `L ${fmt(x0)} ${y + h / 2}` : "",
+      "Z"
+    ].filter(Boolean).join(" ");
+
+    body.push(`<path d="${path}" fill="${annotation.color}" stroke="${annotation.color}" stroke-width="0.5" fill-opacity="0.9"/>`);
+    if (piece.labelled) {
+      body.push(text(annotation.name, (x0 + x1) / 2, y - 4, { size: 11, anchor: "middle" }));
+    }
+  });
+
+  // Backbone and scale
+  body.push(`<path d="M ${left} ${backboneY} L ${left + trackWidth} ${backboneY}" stroke="#4B5563" stroke-width="2"/>`);
+  for (const tick of [0, ...scaleTicks(sequenceLength), sequenceLength]) {
+    const x = toX(tick);
+    body.push(`<path d="M ${fmt(x)} ${backboneY} L ${fmt(x)} ${backboneY + 6}" stroke="#4B5563" stroke-width="1"/>`);
+    body.push(text((tick || 1).toLocaleString(), x, backboneY + 18, { size: 10, anchor: "middle", color: "#6B7280" }));
+  }
+
+  // Cut sites hang below the scale, one row per clash
+  let bottom = backboneY + 30;
+  if (showEnzymes && cutSites.length) {
+    const rowEnds: number[] = [];
+    for (const site of cutSites) {
+      const x = toX(site.position);
+      const label = `${site.enzyme} (${site.position})`;
+      const labelWidth = label.length * charWidth;
+      let row = rowEnds.findIndex(end => end < x - labelWidth / 2);
+      if (row === -1) {
+        row = rowEnds.length;
+        rowEnds.push(0);
+      }
+      rowEnds[row] = x + labelWidth / 2 + 6;
+
+      const y = backboneY + 36 + row * lineHeight;
+      body.push(`<path d="M ${fmt(x)} ${backboneY - 6} L ${fmt(x)} ${y - 10}" stroke="#B91C1C" stroke-width="0.75"/>`);
+      body.push(text(label, x, y, { size: 10, anchor: "middle", color: "#B91C1C" }));
+      bottom = Math.max(bottom, y + 8);
+    }
+  }
+
+  body.push(text(`${title} (${sequenceLength.toLocaleString()} bp)`, width / 2, 36, {
+    size: 16, anchor: "middle", weight: "bold"
+  }));
+
+  return finishFigure(title, width, bottom + 16, body, annotations, cutSites, showLegend, showEnzymes);
+}
+
+// Add the legend and wrap the drawing in an <svg> element
+function finishFigure(
+  title: string,
+  width: number,
+  mapHeight: number,
+  body: string[],
+  annotations: Annotation[],
+  cutSites: CutSite[],
+  showLegend: boolean,
+  showEnzymes: boolean
+): MapFigure {
+  let height = mapHeight;
+
+  if (showLegend) {
+    const entries = new Map<string, string>();
+    for (const annotation of annotations) {
+      if (!entries.has(annotation.type)) entries.set(annotation.type, annotation.color);
+    }
+
+    const columnWidth = 150;
+    const columns = Math.max(1, Math.floor((width - 80) / columnWidth));
+    Array.from(entries).forEach(([type, color], index) => {
+      const x = 40 + (index % columns) * columnWidth;
+      const y = height + Math.floor(index / columns) * 20;
+      body.push(`<rect x="${x}" y="${y}" width="12" height="12" rx="2" fill="${color}"/>`);
+      body.push(text(type, x + 18, y + 10, { size: 11 }));
+    });
+    height += Math.ceil(entries.size / columns) * 20;
+
+    if (showEnzymes && cutSites.length) {
+      const counts = new Map<string, number>();
+      cutSites.forEach(site => counts.set(site.enzyme, (counts.get(site.enzyme) || 0) + 1));
+      const summary = Array.from(counts).map(([enzyme, count]) => `${enzyme} ×${count}`).join("   ");
+      body.push(text(`Cut sites: ${summary}`, 40, height + 12, { size: 11, color: "#B91C1C" }));
+      height += 24;
+    }
+
+    height += 10;
+  }
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${fmt(height)}" viewBox="0 0 ${width} ${fmt(height)}" font-family="${font}">`,
+    `<title>${escapeXml(title)}</title>`,
+    `<rect width="100%" height="100%" fill="#FFFFFF"/>`,
+    ...body,
+    "</svg>"
+  ].join("\n");
+
+  return { svg, width, height: Math.ceil(height) };
+}
+
+// Greedy lane assignment so overlapping items stack instead of colliding
+function assignLanes<T>(
+  items: T[],
+  sequenceLength: number,
+  extent: (item: T) => Segment,
+  preUnwrapped = false
+): number[] {
+  const laneEnds: number[] = [];
+  const lanes = new Array<number>(items.length).fill(0);
+
+  const order = items
+    .map((item, index) => {
+      const { start, end } = extent(item);
+      return { index, start, end: !preUnwrapped && end <= start ? end + sequenceLength : end };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  for (const { index, start, end } of order) {
+    let lane = laneEnds.findIndex(laneEnd => laneEnd <= start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(0);
+    }
+    laneEnds[lane] = end;
+    lanes[index] = lane;
+  }
+
+  return lanes;
+}
+
+// Length of a feature, counting across the origin when it wraps
+function wrappedSpan(annotation: Annotation, sequenceLength: number): number {
+  return annotation.end > annotation.start
+    ? annotation.end - annotation.start
+    : annotation.end - annotation.start + sequenceLength;
+}
+
+function splitAtOrigin(annotation: Annotation, sequenceLength: number): Segment[] {
+  if (annotation.end > annotation.start) return [{ start: annotation.start, end: annotation.end }];
+  return [
+    { start: annotation.start, end: sequenceLength },
+    { start: 0, end: annotation.end }
+  ].filter(segment => segment.end > segment.start);
+}
+
+// Round tick spacing to 1, 2 or 5 times a power of ten, about ten ticks per map
+function scaleTicks(sequenceLength: number): number[] {
+  const rough = sequenceLength / 10;
+  const power = Math.pow(10, Math.floor(Math.log10(Math.max(rough, 1))));
+  const step = [1, 2, 5, 10].map(factor => factor * power).find(value => value >= rough) || power * 10;
+
+  const ticks: number[] = [];
+  for (let tick = step; tick < sequenceLength - step / 2; tick += step) {
+    ticks.push(tick);
+  }
+  return ticks;
+}
+
+function text(
+  content: string,
+  x: number,
+  y: number,
+  { size = 12, anchor = "start", color = "#111827", weight = "normal" }: {
+    size?: number;
+    anchor?: "start" | "middle" | "end";
+    color?: string;
+    weight?: string;
+  } = {}
+): string {
+  return `<text x="${fmt(x)}" y="${fmt(y)}" font-size="${size}" text-anchor="${anchor}" fill="${color}" font-weight="${weight}">${escapeXml(content)}</text>`;
+}
+
+function fmt(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Rasterise an SVG figure at the given scale (2 = twice the CSS pixel size)
+export function svgToPng(figure: MapFigure, scale: number): Promise<Blob> {
+  return rasterizeFigure(figure, scale, "image/png");
+}
+
+// Draw the figure onto a canvas and encode it as PNG or JPEG
+export function rasterizeFigure(figure: MapFigure, scale: number, type: "image/png" | "image/jpeg"): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([figure.svg], { type: "image/svg+xml" }));
+
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(figure.width * scale);
+      canvas.height = Math.round(figure.height * scale);
+
+      const context = canvas.getContext("2d");
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas is not supported in this browser"));
+        return;
+      }
+
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(
+        blob => (blob ? resolve(blob) : reject(new Error("Failed to create image"))),
+        type,
+        0.92
+      );
+    };
+
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Failed to render figure"));
+    };
+
+    image.src = url;
+  });
+}
+
+// Print figures on their own, one per page, through a hidden frame
+export function printFigures(title: string, figures: MapFigure[]) {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  document.body.appendChild(frame);
+
+  const doc = frame.contentDocument;
+  const win = frame.contentWindow;
+  if (!doc || !win) {
+    frame.remove();
+    throw new Error("Printing is not supported in this browser");
+  }
+
+  doc.open();
+  doc.write(`<!DOCTYPE html>
+<html>
+<head>
+<title>${escapeXml(title)}</title>
+<style>
+  @page { margin: 12mm; }
+  body { margin: 0; font-family: ${font}; }
+  .page { page-break-after: always; display: flex; justify-content: center; }
+  .page:last-child { page-break-after: auto; }
+  svg { max-width: 100%; height: auto; }
+</style>
+</head>
+<body>
+${figures.map(figure => `<div class="page">${figure.svg}</div>`).join("\n")}
+</body>
+</html>`);
+  doc.close();
+
+  // Remove the frame once the print dialog has closed
+  win.onafterprint = () => frame.remove();
+  win.focus();
+  win.print();
+}
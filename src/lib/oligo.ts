@@ -0,0 +1,103 @@
+import { gcContent, hairpin, meltingTemperature, selfDimer, Structure, ThermoOptions } from "@/lib/thermo";
+
+// Oligos longer than this skip the hairpin and dimer search, which grows with the cube of the length
+export const maxStructureLength = 120;
+
+export interface OligoProperties {
+  length: number;
+  gc: number;
+  // Basic Tm from base counts (°C)
+  basicTm: number;
+  // Nearest-neighbor Tm with salt correction (°C)
+  nearestNeighborTm: number;
+  // Molecular weight of the single strand (g/mol)
+  molecularWeight: number;
+  // Extinction coefficient at 260 nm (L/(mol·cm))
+  extinction: number;
+  nmolPerOD: number;
+  ugPerOD: number;
+  hairpin: Structure | null;
+  selfDimer: Structure | null;
+  // Whether structures were searched at all
+  structuresChecked: boolean;
+}
+
+// Residue masses of single-stranded DNA and RNA (OligoCalc), as incorporated in the chain
+const dnaMasses: Record<string, number> = { A: 313.21, C: 289.18, G: 329.21, T: 304.2 };
+const rnaMasses: Record<string, number> = { A: 329.21, C: 305.18, G: 345.21, U: 306.17 };
+
+// Nearest-neighbor extinction coefficients at 260 nm (Cavaluzzi & Borer 2004)
+const dnaExtinction = {
+  single: { A: 15400, C: 7400, G: 11500, T: 8700 } as Record<string, number>,
+  pairs: {
+    AA: 27400, AC: 21200, AG: 25000, AT: 22800,
+    CA: 21200, CC: 14600, CG: 18000, CT: 15200,
+    GA: 25200, GC: 17600, GG: 21600, GT: 20000,
+    TA: 23400, TC: 16200, TG: 19000, TT: 16800
+  } as Record<string, number>
+};
+
+const rnaExtinction = {
+  single: { A: 15400, C: 7200, G: 11500, U: 9900 } as Record<string, number>,
+  pairs: {
+    AA: 27400, AC: 21000, AG: 25000, AU: 24000,
+    CA: 21000, CC: 14200, CG: 17800, CU: 16200,
+    GA: 25200, GC: 17400, GG: 21600, GU: 21200,
+    UA: 24600, UC: 17200, UG: 20000, UU: 19600
+  } as Record<string, number>
+};
+
+const count = (sequence: string, bases: RegExp) => (sequence.match(bases) || []).length;
+
+// Wallace rule below 14 nt, otherwise the GC formula used by OligoCalc
+export function basicMeltingTemperature(sequence: string): number {
+  const dna = sequence.toUpperCase().replace(/U/g, "T");
+  const at = count(dna, /[AT]/g);
+  const gc = count(dna, /[GC]/g);
+  const length = at + gc;
+  if (!length) return 0;
+  return length < 14 ? 2 * at + 4 * gc : 64.9 + (41 * (gc - 16.4)) / length;
+}
+
+// Molecular weight of a 5'-hydroxyl oligo without a terminal phosphate
+export function molecularWeight(sequence: string, rna = false): number {
+  const masses = rna ? rnaMasses : dnaMasses;
+  const bases = sequence.toUpperCase().split("").filter(base => masses[base] !== undefined);
+  if (!bases.length) return 0;
+  return bases.reduce((total, base) => total + masses[base], 0) + (rna ? 159.0 : -61.96);
+}
+
+// Sum of the nearest-neighbor pairs minus the inner bases, each of which is in two pairs
+export function extinctionCoefficient(sequence: string, rna = false): number {
+  const table = rna ? rnaExtinction : dnaExtinction;
+  const bases = sequence.toUpperCase().split("").filter(base => table.single[base] !== undefined);
+  if (bases.length === 1) return table.single[bases[0]];
+
+  let total = 0;
+  for (let i = 0; i < bases.length - 1; i++) total += table.pairs[bases[i] + bases[i + 1]];
+  for (let i = 1; i < bases.length - 1; i++) total -= table.single[bases[i]];
+  return total;
+}
+
+export function analyzeOligo(sequence: string, options: ThermoOptions = {}): OligoProperties {
+  const oligo = sequence.toUpperCase().replace(/[^A-Z]/g, "");
+  const rna = oligo.includes("U") && !oligo.includes("T");
+  const extinction = extinctionCoefficient(oligo, rna);
+  const weight = molecularWeight(oligo, rna);
+  const nmolPerOD = extinction ? 1e6 / extinction : 0;
+  const structuresChecked = oligo.length <= maxStructureLength;
+
+  return {
+    length: oligo.length,
+    gc: gcContent(oligo),
+    basicTm: basicMeltingTemperature(oligo),
+    nearestNeighborTm: meltingTemperature(oligo, options),
+    molecularWeight: weight,
+    extinction,
+    nmolPerOD,
+    ugPerOD: (nmolPerOD * weight) / 1000,
+    hairpin: structuresChecked ? hairpin(oligo) : null,
+    selfDimer: structuresChecked ? selfDimer(oligo) : null,
+    structuresChecked
+  };
+}
@@ -0,0 +1,222 @@
+import { Annotation, FeatureLocation, getFeatureColor } from "@/lib/features";
+import { reverseComplement } from "@/lib/sequenceUtils";
+
+export interface PCRPrimer {
+  name: string;
+  sequence: string;
+}
+
+export interface BindingOptions {
+  // Mismatches tolerated in the annealed part
+  maxMismatches?: number;
+  // Shortest annealed stretch, counted from the 3' end
+  minAnnealing?: number;
+  circular?: boolean;
+}
+
+// Where a primer anneals. `start`/`end` are the annealed bases in top-strand
+// coordinates (start > end when they wrap the origin); direction 1 primers
+// read the top strand and extend rightwards, -1 primers leftwards.
+export interface BindingSite {
+  primer: PCRPrimer;
+  direction: 1 | -1;
+  start: number;
+  end: number;
+  annealed: number;
+  mismatches: number;
+  // 5' bases that don't anneal, such as an added restriction site
+  tail: number;
+}
+
+export interface PCRProduct {
+  forward: BindingSite;
+  reverse: BindingSite;
+  sequence: string;
+  annotations: Annotation[];
+}
+
+// Mismatches at the very 3' end stop polymerase, so these bases must pair
+const anchorLength = 3;
+
+// Products longer than this are ignored as unlikely to amplify
+export const maxProductLength = 20000;
+const maxProducts = 50;
+
+const clean = (sequence: string) => sequence.toUpperCase().replace(/U/g, "T").replace(/[^A-Z]/g, "");
+
+// Read a primer from its 3' end against `template` ending at `threePrime`.
+// Returns how far it anneals and with how many mismatches, or null when it
+// doesn't. Past a mismatch the stretch only grows again after a few paired
+// bases in a row, so a chance match in a 5' tail doesn't count as annealing.
+function anneal(primer: string, template: string, threePrime: number, maxMismatches: number, minAnnealing: number) {
+  let mismatches = 0;
+  let run = 0;
+  let annealed = 0;
+  let paired = { annealed: 0, mismatches: 0 };
+
+  for (let offset = 0; offset < primer.length && threePrime - offset >= 0; offset++) {
+    if (primer[primer.length - 1 - offset] === template[threePrime - offset]) {
+      run++;
+      annealed = offset + 1;
+      if (!mismatches || run >= anchorLength) paired = { annealed, mismatches };
+    } else {
+      if (offset < anchorLength || mismatches === maxMismatches) break;
+      mismatches++;
+      run = 0;
+    }
+  }
+
+  return paired.annealed >= Math.max(minAnnealing, anchorLength) ? paired : null;
+}
+
+// Find every place a primer binds, on both strands
+export function findBindingSites(
+  sequence: string,
+  primer: PCRPrimer,
+  { maxMismatches = 2, minAnnealing = 15, circular = false }: BindingOptions = {}
+): BindingSite[] {
+  const template = clean(sequence);
+  const oligo = clean(primer.sequence);
+  const length = template.length;
+  if (!length || oligo.length < anchorLength) return [];
+
+  // On circular templates the bases before the origin are put in front, so
+  // primers can anneal across it and each 3' end is still visited once
+  const context = circular ? Math.min(oligo.length, length) - 1 : 0;
+  const sites: BindingSite[] = [];
+
+  const scan = (strand: string, direction: 1 | -1) => {
+    const haystack = strand.slice(length - context) + strand;
+
+    for (let threePrime = context; threePrime < haystack.length; threePrime++) {
+      const result = anneal(oligo, haystack, threePrime, maxMismatches, minAnnealing);
+      if (!result) continue;
+
+      // Annealed bases on this strand; `first` is negative when they wrap the origin
+      const last = threePrime - context;
+      const first = last - result.annealed + 1;
+
+      // The bottom strand is read from the reverse complement, so flip back
+      const start = direction === 1 ? (first + length) % length : length - 1 - last;
+      const end = direction === 1 ? last + 1 : length - first > length ? -first : length - first;
+
+      sites.push({
+        primer,
+        direction,
+        start,
+        end,
+        annealed: result.annealed,
+        mismatches: result.mismatches,
+        tail: oligo.length - result.annealed
+      });
+    }
+  };
+
+  scan(template, 1);
+  scan(reverseComplement(template), -1);
+
+  return sites.sort((a, b) => a.start - b.start || b.annealed - a.annealed);
+}
+
+// A feature range with the origin unwrapped, so that end > start
+function unwrap(range: FeatureLocation, length: number): FeatureLocation {
+  return { start: range.start, end: range.end <= range.start ? range.end + length : range.end };
+}
+
+// Copy the annotations that lie entirely within template bases [from, to)
+// onto the product, where `from` becomes position `offset`
+function carryAnnotations(
+  annotations: Annotation[],
+  from: number,
+  to: number,
+  offset: number,
+  length: number,
+  circular: boolean
+): Annotation[] {
+  const carried: Annotation[] = [];
+
+  for (const { id: _id, ...annotation } of annotations) {
+    const span = unwrap(annotation, length);
+    // On a circle a feature may also sit one turn further along the unwrapped template
+    const shift = [0, ...(circular ? [length] : [])]
+      .find(turn => span.start + turn >= from && span.end + turn <= to);
+    if (shift === undefined) continue;
+
+    const move = (range: FeatureLocation) => {
+      const unwrapped = unwrap(range, length);
+      let start = unwrapped.start + shift;
+      // Segments of a joined feature can sit past the origin from its start
+      if (start < span.start + shift) start += length;
+      return { start: start - from + offset, end: start + unwrapped.end - unwrapped.start - from + offset };
+    };
+
+    carried.push({
+      ...annotation,
+      ...move(annotation),
+      ...(annotation.locations ? { locations: annotation.locations.map(move) } : {})
+    });
+  }
+
+  return carried;
+}
+
+// Simulate a PCR with any number of primers: every primer binding the top
+// strand pairs with every primer binding the bottom strand downstream of it.
+// Products carry the full primers, tails included, and the annotations they span.
+export function simulatePCR(
+  sequence: string,
+  primers: PCRPrimer[],
+  annotations: Annotation[] = [],
+  options: BindingOptions = {}
+): PCRProduct[] {
+  const template = clean(sequence);
+  const length = template.length;
+  const circular = options.circular || false;
+  const sites = primers.flatMap(primer => findBindingSites(template, primer, options));
+  const products: PCRProduct[] = [];
+
+  for (const forward of sites.filter(site => site.direction === 1)) {
+    for (const reverse of sites.filter(site => site.direction === -1)) {
+      // Work on an unwrapped copy where the reverse primer lies after the forward one
+      const from = forward.start;
+      const annealEnd = from + forward.annealed;
+      let reverseStart = reverse.start;
+      if (circular && reverseStart < from) reverseStart += length;
+      const to = reverseStart + reverse.annealed;
+
+      if (reverseStart < from || to < annealEnd) continue;
+      if (to - from > (circular ? Math.min(length, maxProductLength) : maxProductLength)) continue;
+
+      const forwardPrimer = clean(forward.primer.sequence);
+      const reversePrimer = reverseComplement(clean(reverse.primer.sequence));
+      const doubled = circular ? template + template : template;
+      const middle = reverseStart >= annealEnd
+        ? doubled.slice(annealEnd, reverseStart)
+        : "";
+      const product = forwardPrimer + middle + reversePrimer.slice(Math.max(0, annealEnd - reverseStart));
+
+      const primerFeature = (site: BindingSite, start: number, end: number): Annotation => ({
+        name: site.primer.name,
+        start,
+        end,
+        direction: site.direction,
+        color: getFeatureColor("primer_bind"),
+        type: "primer_bind",
+        qualifiers: { note: [`sequence: ${clean(site.primer.sequence)}`] }
+      });
+
+      products.push({
+        forward,
+        reverse,
+        sequence: product,
+        annotations: [
+          ...carryAnnotations(annotations, from, to, forward.tail, length, circular),
+          primerFeature(forward, 0, forwardPrimer.length),
+          primerFeature(reverse, product.length - reversePrimer.length, product.length)
+        ]
+      });
+    }
+  }
+
+  return products.sort((a, b) => a.sequence.length - b.sequence.length).slice(0, maxProducts);
+}
@@ -0,0 +1,221 @@
+// A small PDF writer: A4 pages with the standard Helvetica and Courier fonts,
+// lines, rectangles and JPEG images. Coordinates are in points from the top-left.
+
+export type PdfFont = "regular" | "bold" | "mono";
+
+type PdfImage = { name: string; data: Uint8Array; width: number; height: number };
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+const fontNames: Record<PdfFont, { resource: string; baseFont: string }> = {
+  regular: { resource: "F1", baseFont: "Helvetica" },
+  bold: { resource: "F2", baseFont: "Helvetica-Bold" },
+  mono: { resource: "F3", baseFont: "Courier" }
+};
+
+// Helvetica advance widths (per 1000 em) for ASCII 32-126
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Characters outside Latin-1 that the WinAnsi fonts can't show
+const replacements: Record<string, string> = {
+  "–": "-", "—": "-", "‘": "'", "’": "'", "“": "\"", "”": "\"",
+  "•": "*", "…": "...", "→": "->", "←": "<-", "≤": "<=", "≥": ">="
+};
+
+function toLatin1(text: string): string {
+  return text.replace(/[^\x20-\xFF]/g, char => replacements[char] ?? "?");
+}
+
+function escapeText(text: string): string {
+  return toLatin1(text).replace(/[\\()]/g, char => `\\${char}`);
+}
+
+function fmt(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function rgb(color: string): string {
+  const hex = color.replace("#", "");
+  const full = hex.length === 3 ? hex.split("").map(c => c + c).join("") : hex;
+  const value = parseInt(full, 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(channel => fmt(channel / 255)).join(" ");
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private images: PdfImage[] = [];
+  private font: PdfFont = "regular";
+  private fontSize = 10;
+
+  readonly width = A4.width;
+  readonly height = A4.height;
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  // Operations of the given page (for footers added at the end), or of the last page
+  private current(pageIndex?: number): string[] {
+    if (!this.pages.length) this.addPage();
+    return this.pages[pageIndex ?? this.pages.length - 1];
+  }
+
+  setFont(font: PdfFont, size: number) {
+    this.font = font;
+    this.fontSize = size;
+  }
+
+  textWidth(text: string, font: PdfFont = this.font, size: number = this.fontSize): number {
+    const latin = toLatin1(text);
+    if (font === "mono") return latin.length * 0.6 * size;
+
+    let units = 0;
+    for (const char of latin) {
+      const code = char.charCodeAt(0);
+      units += code >= 32 && code <= 126 ? helveticaWidths[code - 32] : 556;
+    }
+    // Helvetica-Bold runs a little wider than the regular cut
+    return (units / 1000) * size * (font === "bold" ? 1.06 : 1);
+  }
+
+  // Break text into lines no wider than maxWidth in the current font
+  wrapText(text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.textWidth(candidate) <= maxWidth || !line) {
+          line = candidate;
+        } else {
+          lines.push(line);
+          line = word;
+        }
+      }
+      lines.push(line);
+    }
+
+    return lines;
+  }
+
+  text(
+    content: string,
+    x: number,
+    y: number,
+    { align = "left", color = "#111827", pageIndex }: { align?: "left" | "center" | "right"; color?: string; pageIndex?: number } = {}
+  ) {
+    const width = this.textWidth(content);
+    const left = align === "center" ? x - width / 2 : align === "right" ? x - width : x;
+    this.current(pageIndex).push(
+      `BT /${fontNames[this.font].resource} ${this.fontSize} Tf ${rgb(color)} rg ${fmt(left)} ${fmt(this.height - y)} Td (${escapeText(content)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, { color = "#D1D5DB", width = 0.5 } = {}) {
+    this.current().push(
+      `${rgb(color)} RG ${width} w ${fmt(x1)} ${fmt(this.height - y1)} m ${fmt(x2)} ${fmt(this.height - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, w: number, h: number, { fill, stroke }: { fill?: string; stroke?: string } = {}) {
+    const ops = [
+      fill ? `${rgb(fill)} rg` : "",
+      stroke ? `${rgb(stroke)} RG 0.5 w` : "",
+      `${fmt(x)} ${fmt(this.height - y - h)} ${fmt(w)} ${fmt(h)} re`,
+      fill && stroke ? "B" : fill ? "f" : "S"
+    ];
+    this.current().push(ops.filter(Boolean).join(" "));
+  }
+
+  // Draw JPEG bytes into the box at (x, y)
+  image(data: Uint8Array, pixelWidth: number, pixelHeight: number, x: number, y: number, w: number, h: number) {
+    const name = `Im${this.images.length + 1}`;
+    this.images.push({ name, data, width: pixelWidth, height: pixelHeight });
+    this.current().push(`q ${fmt(w)} 0 0 ${fmt(h)} ${fmt(x)} ${fmt(this.height - y - h)} cm /${name} Do Q`);
+  }
+
+  // Serialise the document into PDF bytes
+  toBlob(): Blob {
+    const encoder = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0) & 255);
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: Uint8Array | string) => {
+      const bytes = typeof chunk === "string" ? encoder(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+
+    const fontIds = { regular: 3, bold: 4, mono: 5 };
+    const imageIds = this.images.map((_, index) => 6 + index);
+    const firstPageId = 6 + this.images.length;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+    const object = (id: number, body: string, stream?: Uint8Array) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${body}\n`);
+      if (stream) {
+        write("stream\n");
+        write(stream);
+        write("\nendstream\n");
+      }
+      write("endobj\n");
+    };
+
+    write("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n");
+    object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+
+    (Object.keys(fontIds) as PdfFont[]).forEach(font => {
+      object(
+        fontIds[font],
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${fontNames[font].baseFont} /Encoding /WinAnsiEncoding >>`
+      );
+    });
+
+    this.images.forEach((image, index) => {
+      object(
+        imageIds[index],
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+        image.data
+      );
+    });
+
+    const fontResources = (Object.keys(fontIds) as PdfFont[])
+      .map(font => `/${fontNames[font].resource} ${fontIds[font]} 0 R`)
+      .join(" ");
+    const imageResources = this.images.map((image, index) => `/${image.name} ${imageIds[index]} 0 R`).join(" ");
+
+    this.pages.forEach((operations, index) => {
+      const content = encoder(operations.join("\n"));
+      object(
+        pageIds[index],
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] /Resources << /Font << ${fontResources} >> /XObject << ${imageResources} >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+      );
+      object(pageIds[index] + 1, `<< /Length ${content.length} >>`, content);
+    });
+
+    const objectCount = firstPageId + this.pages.length * 2;
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks, { type: "application/pdf" });
+  }
+}
@@ -0,0 +1,211 @@
+import { reverseComplement, SequenceRange } from "@/lib/sequenceUtils";
+import {
+  bestDuplex,
+  defaultThermoOptions,
+  gcContent,
+  hairpin,
+  meltingTemperature,
+  selfDimer,
+  Structure,
+  ThermoOptions
+} from "@/lib/thermo";
+
+export interface PrimerSettings extends ThermoOptions {
+  minLength: number;
+  maxLength: number;
+  minTm: number;
+  optimalTm: number;
+  maxTm: number;
+  minGC: number;
+  maxGC: number;
+  // Largest melting temperature difference allowed within a pair
+  maxTmDifference: number;
+  // How far past each end of the target primers may sit, in bp
+  flank: number;
+  // Require a G or C at the 3' end and at most three in the last five bases
+  gcClamp: boolean;
+}
+
+export const defaultPrimerSettings: PrimerSettings = {
+  ...defaultThermoOptions,
+  minLength: 18,
+  maxLength: 25,
+  minTm: 55,
+  optimalTm: 60,
+  maxTm: 65,
+  minGC: 40,
+  maxGC: 60,
+  maxTmDifference: 5,
+  flank: 50,
+  gcClamp: true
+};
+
+// A primer on the template. `start`/`end` are the bases it anneals to in
+// top-strand coordinates; reverse primers read the bottom strand.
+export interface PrimerCandidate {
+  sequence: string;
+  start: number;
+  end: number;
+  direction: 1 | -1;
+  tm: number;
+  gc: number;
+  hairpin: Structure | null;
+  selfDimer: Structure | null;
+  warnings: string[];
+  penalty: number;
+}
+
+export interface PrimerPair {
+  forward: PrimerCandidate;
+  reverse: PrimerCandidate;
+  productSize: number;
+  tmDifference: number;
+  heteroDimer: Structure | null;
+  warnings: string[];
+  penalty: number;
+}
+
+export interface PrimerDesign {
+  pairs: PrimerPair[];
+  forwardCount: number;
+  reverseCount: number;
+}
+
+// Structures weaker than these are harmless at annealing temperatures (kcal/mol)
+const hairpinLimit = -2;
+const dimerLimit = -6;
+const threePrimeDimerLimit = -5;
+
+// Candidates per strand carried over into pairing
+const pairingPool = 40;
+const maxPairs = 20;
+
+// Penalty and warning for a structure that is stronger than the limit
+function structurePenalty(structure: Structure | null, limit: number, name: string, warnings: string[]): number {
+  if (!structure) return 0;
+  const threshold = structure.threePrime ? Math.max(limit, threePrimeDimerLimit) : limit;
+  if (structure.dG >= threshold) return 0;
+  warnings.push(`${structure.threePrime ? "3' " : ""}${name} (${structure.dG.toFixed(1)} kcal/mol)`);
+  return (threshold - structure.dG) * (structure.threePrime ? 2 : 1);
+}
+
+// Score one primer, or return null when it fails the hard limits
+function evaluate(
+  sequence: string,
+  start: number,
+  end: number,
+  direction: 1 | -1,
+  settings: PrimerSettings
+): PrimerCandidate | null {
+  if (/[^ACGT]/.test(sequence)) return null;
+
+  const tm = meltingTemperature(sequence, settings);
+  const gc = gcContent(sequence);
+  if (tm < settings.minTm || tm > settings.maxTm || gc < settings.minGC || gc > settings.maxGC) return null;
+
+  const threePrime = sequence.slice(-5);
+  const clampCount = threePrime.replace(/[AT]/g, "").length;
+  if (settings.gcClamp && (!/[GC]$/.test(sequence) || clampCount > 3)) return null;
+
+  const warnings: string[] = [];
+  let penalty = Math.abs(tm - settings.optimalTm) + Math.abs(gc - 50) / 10;
+
+  if (/(A{5,}|C{5,}|G{5,}|T{5,})/.test(sequence)) {
+    warnings.push("run of 5+ identical bases");
+    penalty += 2;
+  }
+  if (/(AT|TA|GC|CG|AC|CA|AG|GA|TC|CT|TG|GT)\1{3,}/.test(sequence)) {
+    warnings.push("dinucleotide repeat");
+    penalty += 2;
+  }
+
+  const fold = hairpin(sequence);
+  const dimer = selfDimer(sequence);
+  penalty += structurePenalty(fold, hairpinLimit, "hairpin", warnings);
+  penalty += structurePenalty(dimer, dimerLimit, "self-dimer", warnings);
+
+  return { sequence, start, end, direction, tm, gc, hairpin: fold, selfDimer: dimer, warnings, penalty };
+}
+
+// Design primer pairs that amplify `target`: forward primers start at most
+// `flank` bp before it and reverse primers end at most `flank` bp after it.
+// Coordinates wrap the origin on circular sequences.
+export function designPrimers(
+  sequence: string,
+  target: SequenceRange,
+  settings: PrimerSettings = defaultPrimerSettings,
+  circular = false
+): PrimerDesign {
+  const dna = sequence.toUpperCase().replace(/U/g, "T");
+  const length = dna.length;
+  const targetEnd = target.end < target.start ? target.end + length : target.end;
+
+  // Bases from an unwrapped position, or null when it runs off a linear sequence
+  const read = (from: number, to: number): string | null => {
+    if (!circular) return from >= 0 && to <= length ? dna.slice(from, to) : null;
+    if (to - from > length) return null;
+    const start = ((from % length) + length) % length;
+    const end = start + to - from;
+    return end <= length ? dna.slice(start, end) : dna.slice(start) + dna.slice(0, end - length);
+  };
+
+  const wrap = (position: number) => (circular ? ((position % length) + length) % length : position);
+
+  const forward: PrimerCandidate[] = [];
+  const reverse: PrimerCandidate[] = [];
+
+  for (let size = settings.minLength; size <= settings.maxLength; size++) {
+    for (let offset = 0; offset <= settings.flank; offset++) {
+      // Unwrapped coordinates are kept while pairing and wrapped afterwards
+      const forwardStart = target.start - offset;
+      const forwardBases = read(forwardStart, forwardStart + size);
+      if (forwardBases) {
+        const candidate = evaluate(forwardBases, forwardStart, forwardStart + size, 1, settings);
+        if (candidate) forward.push(candidate);
+      }
+
+      const reverseEnd = targetEnd + offset;
+      const reverseBases = read(reverseEnd - size, reverseEnd);
+      if (reverseBases) {
+        const candidate = evaluate(reverseComplement(reverseBases), reverseEnd - size, reverseEnd, -1, settings);
+        if (candidate) reverse.push(candidate);
+      }
+    }
+  }
+
+  const byPenalty = (a: { penalty: number }, b: { penalty: number }) => a.penalty - b.penalty;
+  const forwardPool = [...forward].sort(byPenalty).slice(0, pairingPool);
+  const reversePool = [...reverse].sort(byPenalty).slice(0, pairingPool);
+  const pairs: PrimerPair[] = [];
+
+  for (const left of forwardPool) {
+    for (const right of reversePool) {
+      const productSize = right.end - left.start;
+      if (right.start < left.end || (circular && productSize > length)) continue;
+
+      const tmDifference = Math.abs(left.tm - right.tm);
+      if (tmDifference > settings.maxTmDifference) continue;
+
+      const warnings: string[] = [];
+      const heteroDimer = bestDuplex(left.sequence, right.sequence);
+      const penalty = left.penalty + right.penalty + tmDifference +
+        structurePenalty(heteroDimer, dimerLimit, "primer dimer", warnings);
+
+      pairs.push({
+        forward: { ...left, start: wrap(left.start), end: wrap(left.end) || length },
+        reverse: { ...right, start: wrap(right.start), end: wrap(right.end) || length },
+        productSize,
+        tmDifference,
+        heteroDimer,
+        warnings,
+        penalty
+      });
+    }
+  }
+
+  return {
+    pairs: pairs.sort(byPenalty).slice(0, maxPairs),
+    forwardCount: forward.length,
+    reverseCount: reverse.length
+  };
+}
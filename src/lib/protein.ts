@@ -0,0 +1,149 @@
+import { SequenceRange } from "@/lib/sequenceUtils";
+
+// Physicochemical properties of a protein, as reported by ExPASy ProtParam.
+// Letters other than the 20 standard amino acids are left out of every figure.
+
+export interface ProteinProperties {
+  // Residues counted (standard amino acids only)
+  length: number;
+  // Average molecular weight (Da)
+  molecularWeight: number;
+  isoelectricPoint: number;
+  // Extinction coefficients at 280 nm in water (M^-1 cm^-1), all Cys reduced or all pairs forming cystines
+  extinctionReduced: number;
+  extinctionOxidized: number;
+  // Absorbance of a 1 g/L solution, with reduced Cys
+  absorbance: number;
+  // Above 40 the protein is predicted to be unstable in the test tube
+  instabilityIndex: number;
+  aliphaticIndex: number;
+  // Grand average of hydropathy
+  gravy: number;
+}
+
+// Average residue masses (Da), as incorporated in the chain
+const residueMasses: Record<string, number> = {
+  A: 71.0788, R: 156.1875, N: 114.1038, D: 115.0886, C: 103.1388, E: 129.1155, Q: 128.1307,
+  G: 57.0519, H: 137.1411, I: 113.1594, L: 113.1594, K: 128.1741, M: 131.1926, F: 147.1766,
+  P: 97.1167, S: 87.0782, T: 101.1051, W: 186.2132, Y: 163.176, V: 99.1326
+};
+
+const waterMass = 18.01524;
+
+// Kyte & Doolittle 1982 hydropathy
+export const kyteDoolittle: Record<string, number> = {
+  A: 1.8, R: -4.5, N: -3.5, D: -3.5, C: 2.5, Q: -3.5, E: -3.5, G: -0.4, H: -3.2, I: 4.5,
+  L: 3.8, K: -3.9, M: 1.9, F: 2.8, P: -1.6, S: -0.8, T: -0.7, W: -0.9, Y: -1.3, V: 4.2
+};
+
+// Side chain and terminal pKa values (EMBOSS)
+const positivePKa: Record<string, number> = { nTerm: 8.6, K: 10.8, R: 12.5, H: 6.5 };
+const negativePKa: Record<string, number> = { cTerm: 3.6, D: 3.9, E: 4.1, C: 8.5, Y: 10.1 };
+
+// Dipeptide instability weights of Guruprasad et al. 1990; pairs not listed weigh 1
+const instabilityWeights: Record<string, Record<string, number>> = {
+  A: { C: 44.94, D: -7.49, H: -7.49, P: 20.26 },
+  C: { D: 20.26, H: 33.6, L: 20.26, M: 33.6, P: 20.26, Q: -6.54, T: 33.6, V: -6.54, W: 24.68 },
+  D: { F: -6.54, K: -7.49, R: -6.54, S: 20.26, T: -14.03 },
+  E: { C: 44.94, D: 20.26, E: 33.6, H: -6.54, I: 20.26, P: 20.26, Q: 20.26, S: 20.26, W: -14.03 },
+  F: { D: 13.34, K: -14.03, P: 20.26, Y: 33.6 },
+  G: { A: -7.49, E: -6.54, G: 13.34, I: -7.49, K: -7.49, N: -7.49, T: -7.49, W: 13.34, Y: -7.49 },
+  H: { F: -9.37, G: -9.37, I: 44.94, K: 24.68, N: 24.68, P: -1.88, T: -6.54, W: -1.88, Y: 44.94 },
+  I: { E: 44.94, H: 13.34, K: -7.49, L: 20.26, P: -1.88, V: -7.49 },
+  K: { G: -7.49, I: -7.49, L: -7.49, M: 33.6, P: -6.54, Q: 24.64, R: 33.6, V: -7.49 },
+  L: { K: -7.49, P: 20.26, Q: 33.6, R: 20.26, W: 24.68 },
+  M: { A: 13.34, H: 58.28, M: -1.88, P: 44.94, Q: -6.54, R: -6.54, S: 44.94, T: -1.88, Y: 24.68 },
+  N: { C: -1.88, F: -14.03, G: -14.03, I: 44.94, K: 24.68, P: -1.88, Q: -6.54, T: -7.49, W: -9.37 },
+  P: { A: 20.26, C: -6.54, D: -6.54, E: 18.38, F: 20.26, M: -6.54, P: 20.26, Q: 20.26, R: -6.54, S: 20.26, V: 20.26, W: -1.88 },
+  Q: { C: -6.54, D: 20.26, E: 20.26, F: -6.54, P: 20.26, Q: 20.26, S: 44.94, V: -6.54, Y: -6.54 },
+  R: { G: -7.49, H: 20.26, N: 13.34, P: 20.26, Q: 20.26, R: 58.28, S: 44.94, W: 58.28, Y: -6.54 },
+  S: { C: 33.6, E: 20.26, P: 44.94, Q: 20.26, R: 20.26, S: 20.26 },
+  T: { E: 20.26, F: 13.34, G: -7.49, N: -14.03, Q: -6.54, W: -14.03 },
+  V: { D: -14.03, G: -7.49, K: -1.88, P: 20.26, T: -7.49, Y: -6.54 },
+  W: { A: -14.03, G: -9.37, H: 24.68, L: 13.34, M: 24.68, N: 13.34, T: -14.03, V: -7.49 },
+  Y: { A: 24.68, D: 24.68, E: -6.54, G: -7.49, H: 13.34, M: 44.94, P: 13.34, R: -15.91, T: -7.49, W: -9.37, Y: 13.34 }
+};
+
+// The standard residues of a protein sequence, in order
+function residues(protein: string): string {
+  return protein.toUpperCase().replace(/[^ACDEFGHIKLMNPQRSTVWY]/g, "");
+}
+
+const countOf = (protein: string, residue: string) => protein.split(residue).length - 1;
+
+// Net charge at a pH, from the Henderson-Hasselbalch equation
+export function proteinCharge(protein: string, pH: number): number {
+  const chain = residues(protein);
+  if (!chain) return 0;
+
+  const positive = (pKa: number) => 1 / (1 + 10 ** (pH - pKa));
+  const negative = (pKa: number) => 1 / (1 + 10 ** (pKa - pH));
+  let charge = positive(positivePKa.nTerm) - negative(negativePKa.cTerm);
+  for (const residue of ["K", "R", "H"]) charge += countOf(chain, residue) * positive(positivePKa[residue]);
+  for (const residue of ["D", "E", "C", "Y"]) charge -= countOf(chain, residue) * negative(negativePKa[residue]);
+  return charge;
+}
+
+// pH at which the net charge is zero, by bisection
+export function isoelectricPoint(protein: string): number {
+  let low = 0;
+  let high = 14;
+  while (high - low > 0.001) {
+    const middle = (low + high) / 2;
+    if (proteinCharge(protein, middle) > 0) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+}
+
+export function analyzeProtein(protein: string): ProteinProperties {
+  const chain = residues(protein);
+  const length = chain.length;
+  const count = (residue: string) => countOf(chain, residue);
+  const molePercent = (residue: string) => (length ? (count(residue) / length) * 100 : 0);
+
+  const molecularWeight = length
+    ? chain.split("").reduce((total, residue) => total + residueMasses[residue], 0) + waterMass
+    : 0;
+
+  // Pace et al. 1995
+  const extinctionReduced = count("W") * 5500 + count("Y") * 1490;
+  const extinctionOxidized = extinctionReduced + Math.floor(count("C") / 2) * 125;
+
+  let instability = 0;
+  for (let i = 0; i < length - 1; i++) instability += instabilityWeights[chain[i]][chain[i + 1]] ?? 1;
+
+  return {
+    length,
+    molecularWeight,
+    isoelectricPoint: length ? isoelectricPoint(chain) : 0,
+    extinctionReduced,
+    extinctionOxidized,
+    absorbance: molecularWeight ? extinctionReduced / molecularWeight : 0,
+    instabilityIndex: length ? (10 / length) * instability : 0,
+    aliphaticIndex: molePercent("A") + 2.9 * molePercent("V") + 3.9 * (molePercent("I") + molePercent("L")),
+    gravy: length ? chain.split("").reduce((total, residue) => total + kyteDoolittle[residue], 0) / length : 0
+  };
+}
+
+export interface HydropathyWindow extends SequenceRange {
+  // Middle residue of the window, 0-based
+  center: number;
+  score: number;
+}
+
+// Mean Kyte-Doolittle hydropathy over windows of `window` residues, moving one residue at a time.
+// Positions are residues of the sequence as given, non-standard letters scoring 0.
+export function hydropathyProfile(protein: string, window: number): HydropathyWindow[] {
+  const values = protein.toUpperCase().split("").map(residue => kyteDoolittle[residue] ?? 0);
+  const size = Math.max(1, window);
+  if (values.length < size) return [];
+
+  const windows: HydropathyWindow[] = [];
+  let sum = values.slice(0, size).reduce((total, value) => total + value, 0);
+  for (let start = 0; start + size <= values.length; start++) {
+    if (start > 0) sum += values[start + size - 1] - values[start - 1];
+    windows.push({ start, end: start + size, center: start + Math.floor(size / 2), score: sum / size });
+  }
+  return windows;
+}
@@ -0,0 +1,285 @@
+import { Annotation, Note } from "@/lib/features";
+import { Topology } from "@/lib/formats";
+import { calculateGCContent, countBases, findORFs, SequenceType } from "@/lib/sequenceUtils";
+import { commonEnzymes, findCutSites, getEnzyme } from "@/lib/enzymes";
+import { buildMapFigure, rasterizeFigure } from "@/lib/mapFigure";
+import { PdfDocument, PdfFont } from "@/lib/pdf";
+
+export interface LabReportData {
+  projectName: string;
+  sequence: string;
+  sequenceType: SequenceType;
+  topology: Topology;
+  annotations: Annotation[];
+  notes: Note[];
+  metadata: Record<string, string>;
+}
+
+type Column = { header: string; width: number; align?: "left" | "right" };
+
+const margin = 50;
+const footerHeight = 30;
+const muted = "#6B7280";
+
+// Lay out the project as a multi-page PDF lab report
+export async function buildLabReport(data: LabReportData): Promise<Blob> {
+  const { projectName, sequence, sequenceType, topology, annotations, notes, metadata } = data;
+  const pdf = new PdfDocument();
+  const contentWidth = pdf.width - margin * 2;
+  const isNucleotide = sequenceType === "dna" || sequenceType === "rna";
+  let y = margin;
+
+  pdf.addPage();
+
+  // Start a new page when the next block would run into the footer
+  const ensureSpace = (height: number) => {
+    if (y + height > pdf.height - margin - footerHeight) {
+      pdf.addPage();
+      y = margin;
+    }
+  };
+
+  const write = (text: string, font: PdfFont, size: number, options: { color?: string; x?: number } = {}) => {
+    pdf.setFont(font, size);
+    const lines = pdf.wrapText(text, contentWidth - ((options.x ?? margin) - margin));
+    for (const line of lines) {
+      ensureSpace(size * 1.4);
+      y += size * 1.4;
+      pdf.text(line, options.x ?? margin, y, { color: options.color });
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y += 14;
+    write(text, "bold", 13);
+    y += 4;
+    pdf.line(margin, y, margin + contentWidth, y, { color: "#9CA3AF" });
+    y += 4;
+  };
+
+  const fit = (text: string, width: number) => {
+    if (pdf.textWidth(text) <= width) return text;
+    let cut = text;
+    while (cut && pdf.textWidth(`${cut}...`) > width) cut = cut.slice(0, -1);
+    return `${cut}...`;
+  };
+
+  const table = (columns: Column[], rows: string[][]) => {
+    const rowHeight = 14;
+
+    const drawHeader = () => {
+      pdf.setFont("bold", 9);
+      pdf.rect(margin, y, contentWidth, rowHeight, { fill: "#F3F4F6" });
+      let x = margin;
+      for (const column of columns) {
+        const textX = column.align === "right" ? x + column.width - 4 : x + 4;
+        pdf.text(column.header, textX, y + 10, { align: column.align === "right" ? "right" : "left" });
+        x += column.width;
+      }
+      y += rowHeight;
+    };
+
+    ensureSpace(rowHeight * 2);
+    drawHeader();
+
+    for (const row of rows) {
+      if (y + rowHeight > pdf.height - margin - footerHeight) {
+        pdf.addPage();
+        y = margin;
+        drawHeader();
+      }
+
+      pdf.setFont("regular", 9);
+      let x = margin;
+      row.forEach((cell, index) => {
+        const column = columns[index];
+        const textX = column.align === "right" ? x + column.width - 4 : x + 4;
+        pdf.text(fit(cell, column.width - 8), textX, y + 10, { align: column.align === "right" ? "right" : "left" });
+        x += column.width;
+      });
+      y += rowHeight;
+      pdf.line(margin, y, margin + contentWidth, y);
+    }
+  };
+
+  // Title block
+  write(projectName || "Untitled Sequence", "bold", 20);
+  write(`Lab report generated ${new Date().toLocaleString()}`, "regular", 9, { color: muted });
+  if (metadata.definition) {
+    write(metadata.definition, "regular", 10, { color: muted });
+  }
+  y += 10;
+
+  // Map image
+  const cutSites = sequenceType === "dna" ? findCutSites(sequence, commonEnzymes, topology === "circular") : [];
+  const figure = buildMapFigure({
+    title: projectName || "Untitled Sequence",
+    sequenceLength: sequence.length,
+    annotations,
+    cutSites,
+    view: topology,
+    showLegend: true,
+    showEnzymes: true
+  });
+  const scale = 2;
+  const jpeg = new Uint8Array(await (await rasterizeFigure(figure, scale, "image/jpeg")).arrayBuffer());
+  const imageWidth = Math.min(contentWidth, (380 * figure.width) / figure.height);
+  const imageHeight = (imageWidth * figure.height) / figure.width;
+  ensureSpace(imageHeight);
+  pdf.image(
+    jpeg,
+    Math.round(figure.width * scale),
+    Math.round(figure.height * scale),
+    margin + (contentWidth - imageWidth) / 2,
+    y,
+    imageWidth,
+    imageHeight
+  );
+  y += imageHeight;
+
+  // Statistics, matching the Stats tab
+  const orfs = sequenceType === "dna" ? findORFs(sequence, { circular: topology === "circular" }) : [];
+  const unit = sequenceType === "protein" ? "aa" : "bp";
+  heading("Sequence Statistics");
+  const stats: [string, string][] = [
+    ["Length", `${sequence.length.toLocaleString()} ${unit}`],
+    ["Type", sequenceType.toUpperCase()],
+    ["Topology", topology],
+    ...(isNucleotide ? [["GC content", `${calculateGCContent(sequence).toFixed(1)}%`] as [string, string]] : []),
+    ["Annotations", String(annotations.length)],
+    ...(sequenceType === "dna"
+      ? [["ORFs found", orfs.length ? `${orfs.length} (longest ${orfs[0].length} bp)` : "0"] as [string, string]]
+      : [])
+  ];
+  for (const [label, value] of stats) {
+    ensureSpace(14);
+    y += 14;
+    pdf.setFont("bold", 10);
+    pdf.text(label, margin, y);
+    pdf.setFont("regular", 10);
+    pdf.text(value, margin + 120, y);
+  }
+
+  const composition = Object.entries(countBases(sequence, sequenceType))
+    .filter(([, count]) => count > 0)
+    .map(([base, count]) => `${base}: ${count} (${((count / sequence.length) * 100).toFixed(1)}%)`)
+    .join("   ");
+  if (composition) {
+    y += 6;
+    write(`Composition   ${composition}`, "regular", 9);
+  }
+
+  if (orfs.length) {
+    y += 10;
+    table(
+      [
+        { header: "ORF", width: 50 },
+        { header: "Frame", width: 60 },
+        { header: "Start", width: 90, align: "right" },
+        { header: "End", width: 90, align: "right" },
+        { header: "Length (bp)", width: contentWidth - 370, align: "right" },
+        { header: "Protein (aa)", width: 80, align: "right" }
+      ],
+      orfs.slice(0, 10).map((orf, index) => [
+        `#${index + 1}`,
+        `${orf.strand === 1 ? "+" : "-"}${orf.frame}`,
+        String(orf.start + 1),
+        String(orf.end),
+        String(orf.length),
+        String(orf.proteinLength)
+      ])
+    );
+    if (orfs.length > 10) {
+      write(`Showing the 10 longest of ${orfs.length} ORFs.`, "regular", 8, { color: muted });
+    }
+  }
+
+  // Features
+  heading("Annotations");
+  if (annotations.length) {
+    table(
+      [
+        { header: "Name", width: contentWidth - 310 },
+        { header: "Type", width: 90 },
+        { header: "Start", width: 60, align: "right" },
+        { header: "End", width: 60, align: "right" },
+        { header: "Strand", width: 45 },
+        { header: "Length", width: 55, align: "right" }
+      ],
+      [...annotations]
+        .sort((a, b) => a.start - b.start)
+        .map(annotation => [
+          annotation.name,
+          annotation.type,
+          String(annotation.start + 1),
+          String(annotation.end),
+          annotation.direction === 1 ? "+" : annotation.direction === -1 ? "-" : "",
+          String(annotation.end > annotation.start
+            ? annotation.end - annotation.start
+            : annotation.end - annotation.start + sequence.length)
+        ])
+    );
+  } else {
+    write("No annotations.", "regular", 10, { color: muted });
+  }
+
+  // Notes
+  heading("Notes");
+  if (notes.length) {
+    for (const note of notes) {
+      y += 4;
+      write(`${note.title}  (${note.start + 1}-${note.end})`, "bold", 10);
+      if (note.content) write(note.content, "regular", 10);
+    }
+  } else {
+    write("No notes.", "regular", 10, { color: muted });
+  }
+
+  // Restriction sites for the common enzymes
+  if (sequenceType === "dna") {
+    heading("Restriction Sites");
+    table(
+      [
+        { header: "Enzyme", width: 80 },
+        { header: "Site", width: 80 },
+        { header: "Cuts", width: 45, align: "right" },
+        { header: "Cut positions", width: contentWidth - 205 }
+      ],
+      commonEnzymes.map(name => {
+        const sites = cutSites.filter(site => site.enzyme.toLowerCase() === name.toLowerCase());
+        return [
+          name,
+          getEnzyme(name)?.recognition || "",
+          String(sites.length),
+          sites.length ? sites.map(site => site.position).join(", ") : "none"
+        ];
+      })
+    );
+  }
+
+  // Formatted sequence, 60 residues per line in blocks of 10
+  heading("Sequence");
+  pdf.setFont("mono", 9);
+  const width = String(sequence.length).length;
+  for (let start = 0; start < sequence.length; start += 60) {
+    const blocks = sequence.slice(start, start + 60).match(/.{1,10}/g) || [];
+    ensureSpace(12);
+    y += 12;
+    pdf.setFont("mono", 9);
+    pdf.text(`${String(start + 1).padStart(width, " ")}  ${blocks.join(" ")}`, margin, y);
+  }
+
+  // Footers, now that the page count is known
+  pdf.setFont("regular", 8);
+  for (let page = 0; page < pdf.pageCount; page++) {
+    pdf.text(
+      `${projectName || "Untitled Sequence"} - page ${page + 1} of ${pdf.pageCount}`,
+      pdf.width / 2,
+      pdf.height - margin / 2,
+      { align: "center", color: muted, pageIndex: page }
+    );
+  }
+
+  return pdf.toBlob();
+}
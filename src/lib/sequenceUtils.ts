@@ -1,3 +1,5 @@
+import { getGeneticCode } from "@/lib/geneticCode";
+
 // Helper function to clean gene sequences
 export function cleanGeneSequence(sequence: string): string {
   // Remove whitespace, numbers, and common FASTA header characters
@@ -13,6 +15,27 @@ export function cleanGeneSequence(sequence: string): string {
   return cleanedSeq;
 }
 
+export type SequenceType = "dna" | "rna" | "protein" | "unknown";
+
+// Guess whether a sequence is DNA, RNA or protein from its alphabet
+export function detectSequenceType(sequence: string): SequenceType {
+  const cleanSeq = (sequence || "").replace(/\s+/g, "").toUpperCase();
+  
+  if (!cleanSeq.length) {
+    return "unknown";
+  }
+  
+  if (/^[ATGCN]+$/.test(cleanSeq)) {
+    return "dna";
+  } else if (/^[AUGCN]+$/.test(cleanSeq)) {
+    return "rna";
+  } else if (/^[ACDEFGHIKLMNPQRSTVWY]+$/.test(cleanSeq)) {
+    return "protein";
+  }
+  
+  return "unknown";
+}
+
 // Calculate GC content
 export function calculateGCContent(sequence: string): number {
   if (!sequence) return 0;
@@ -23,6 +46,57 @@ export function calculateGCContent(sequence: string): number {
   return (gcCount / cleanSeq.length) * 100;
 }
 
+// GC content and strand skews over one window; end < start when it wraps the origin
+export interface GCWindow extends SequenceRange {
+  // Middle of the window, where it is plotted
+  center: number;
+  gc: number;
+  // (G - C) / (G + C) and (A - T) / (A + T), 0 when there are none of either
+  gcSkew: number;
+  atSkew: number;
+}
+
+// GC content and skews in windows of `window` bases every `step` bases.
+// Windows wrap the origin on circular sequences; a sequence shorter than the
+// window gives a single window over all of it.
+export function slidingWindowGC(sequence: string, window: number, step: number, circular = false): GCWindow[] {
+  const seq = sequence.toUpperCase().replace(/U/g, "T");
+  const length = seq.length;
+  if (!length) return [];
+
+  const size = Math.min(Math.max(1, window), length);
+  const stride = Math.max(1, step);
+
+  // Running base counts, over two copies for windows that wrap
+  const bases = ["G", "C", "A", "T"];
+  const doubled = circular ? seq + seq : seq;
+  const prefix = bases.map(() => new Int32Array(doubled.length + 1));
+  for (let i = 0; i < doubled.length; i++) {
+    bases.forEach((base, index) => {
+      prefix[index][i + 1] = prefix[index][i] + (doubled[i] === base ? 1 : 0);
+    });
+  }
+
+  const skew = (a: number, b: number) => (a + b ? (a - b) / (a + b) : 0);
+  const windows: GCWindow[] = [];
+  // A window as long as the sequence is the whole sequence, whatever the topology
+  const lastStart = circular && size < length ? length - 1 : length - size;
+
+  for (let start = 0; start <= lastStart; start += stride) {
+    const [g, c, a, t] = prefix.map(counts => counts[start + size] - counts[start]);
+    windows.push({
+      start,
+      end: (start + size) % length || length,
+      center: (start + Math.floor(size / 2)) % length,
+      gc: ((g + c) / size) * 100,
+      gcSkew: skew(g, c),
+      atSkew: skew(a, t)
+    });
+  }
+
+  return windows;
+}
+
 // Count bases in the sequence
 export function countBases(sequence: string, type: "dna" | "rna" | "protein" | "unknown"): Record<string, number> {
   if (!sequence) return {};
@@ -81,13 +155,38 @@ export function countBases(sequence: string, type: "dna" | "rna" | "protein" | "
   );
 }
 
+// A stretch of sequence; on circular sequences start > end means it runs through the origin
+export type SequenceRange = { start: number; end: number };
+
+// Number of bases in a range, counting across the origin when it wraps
+export function rangeLength(range: SequenceRange, sequenceLength: number): number {
+  return range.end >= range.start ? range.end - range.start : sequenceLength - range.start + range.end;
+}
+
+// The bases of a range, joining the two ends for ranges that wrap the origin
+export function getRangeSequence(sequence: string, range: SequenceRange): string {
+  return range.end >= range.start
+    ? sequence.slice(range.start, range.end)
+    : sequence.slice(range.start) + sequence.slice(0, range.end);
+}
+
+// The sequence re-read from a new first base
+export function rotateSequence(sequence: string, origin: number): string {
+  return sequence.slice(origin) + sequence.slice(0, origin);
+}
+
+// Range of a match of `length` bases starting at `start`, wrapped past the end if needed
+function matchRange(start: number, length: number, sequenceLength: number): SequenceRange {
+  const end = start + length;
+  return { start, end: end > sequenceLength ? end - sequenceLength : end };
+}
+
 // Find regions for highlighting
-export function findRegions(sequence: string) {
+export function findRegions(sequence: string, circular = false) {
   if (!sequence) {
     return {
       startCodons: [],
       stopCodons: [],
-      restrictionSites: [],
       promoters: []
     };
   }
@@ -95,97 +194,156 @@ export function findRegions(sequence: string) {
   const cleanSeq = sequence.toUpperCase();
   
   // Find start codons (ATG)
-  const startCodons = findAllOccurrences(cleanSeq, "ATG").map(start => ({
-    start,
-    end: start + 3
-  }));
+  const startCodons = findAllOccurrences(cleanSeq, "ATG", circular).map(start => matchRange(start, 3, cleanSeq.length));
   
   // Find stop codons (TAA, TAG, TGA)
   const stopCodons = [
-    ...findAllOccurrences(cleanSeq, "TAA"),
-    ...findAllOccurrences(cleanSeq, "TAG"),
-    ...findAllOccurrences(cleanSeq, "TGA")
-  ].map(start => ({
-    start,
-    end: start + 3
-  }));
-  
-  // Find common restriction sites
-  const restrictionSites = [
-    ...findAllOccurrences(cleanSeq, "GAATTC"), // EcoRI
-    ...findAllOccurrences(cleanSeq, "GGATCC"), // BamHI
-    ...findAllOccurrences(cleanSeq, "AAGCTT"), // HindIII
-    ...findAllOccurrences(cleanSeq, "CTGCAG"), // PstI
-    ...findAllOccurrences(cleanSeq, "GTCGAC"), // SalI
-    ...findAllOccurrences(cleanSeq, "TCTAGA")  // XbaI
-  ].map(start => ({
-    start,
-    end: start + 6 // These are all 6-base cutters
-  }));
+    ...findAllOccurrences(cleanSeq, "TAA", circular),
+    ...findAllOccurrences(cleanSeq, "TAG", circular),
+    ...findAllOccurrences(cleanSeq, "TGA", circular)
+  ].map(start => matchRange(start, 3, cleanSeq.length));
   
   // Find common promoter elements
   const promoters = [
-    ...findAllOccurrences(cleanSeq, "TATAAT"), // -10 box (Pribnow box)
-    ...findAllOccurrences(cleanSeq, "TTGACA"), // -35 box
-    ...findAllOccurrences(cleanSeq, "TATAAA")  // TATA box
-  ].map(start => ({
-    start,
-    end: start + 6
-  }));
+    ...findAllOccurrences(cleanSeq, "TATAAT", circular), // -10 box (Pribnow box)
+    ...findAllOccurrences(cleanSeq, "TTGACA", circular), // -35 box
+    ...findAllOccurrences(cleanSeq, "TATAAA", circular)  // TATA box
+  ].map(start => matchRange(start, 6, cleanSeq.length));
   
   return {
     startCodons,
     stopCodons,
-    restrictionSites,
     promoters
   };
 }
 
-// Helper function to find all occurrences of a pattern in a string
-function findAllOccurrences(str: string, pattern: string): number[] {
+// Helper function to find all occurrences of a pattern in a string,
+// including ones that run through the origin of a circular sequence
+function findAllOccurrences(str: string, pattern: string, circular = false): number[] {
   const positions: number[] = [];
-  let pos = str.indexOf(pattern);
+  const haystack = circular ? str + str.slice(0, pattern.length - 1) : str;
+  let pos = haystack.indexOf(pattern);
   
-  while (pos !== -1) {
+  while (pos !== -1 && pos < str.length) {
     positions.push(pos);
-    pos = str.indexOf(pattern, pos + 1);
+    pos = haystack.indexOf(pattern, pos + 1);
   }
   
   return positions;
 }
 
-// Find Open Reading Frames (ORFs)
-export function findORFs(sequence: string): { start: number; end: number; length: number }[] {
+// Complementary bases, including IUPAC ambiguity codes
+const complements: Record<string, string> = {
+  A: "T", T: "A", U: "A", G: "C", C: "G", R: "Y", Y: "R", S: "S", W: "W",
+  K: "M", M: "K", B: "V", V: "B", D: "H", H: "D", N: "N"
+};
+
+// Reverse complement of a DNA sequence, keeping ambiguity codes
+export function reverseComplement(sequence: string): string {
+  return sequence.toUpperCase().split("").reverse().map(base => complements[base] || base).join("");
+}
+
+// An open reading frame in top-strand coordinates (end < start when it wraps the origin)
+export interface ORF {
+  start: number;
+  end: number;
+  // Length in bp, stop codon included
+  length: number;
+  strand: 1 | -1;
+  // Reading frame on its own strand, 1-3
+  frame: 1 | 2 | 3;
+  // Amino acids, stop codon excluded
+  proteinLength: number;
+}
+
+export interface ORFOptions {
+  circular?: boolean;
+  // Shortest ORF to report, in bp including the stop codon
+  minLength?: number;
+  // NCBI translation table number
+  table?: number;
+  // ATG only, ATG/GTG/TTG, or every start codon of the chosen table
+  startCodons?: "ATG" | "alternative" | "table";
+  // Also report ORFs starting at internal in-frame start codons
+  includeNested?: boolean;
+}
+
+// Find Open Reading Frames (ORFs) in all six frames. On circular sequences ORFs
+// may run through the origin.
+export function findORFs(sequence: string, options: ORFOptions = {}): ORF[] {
   if (!sequence) return [];
   
-  const cleanSeq = sequence.toUpperCase();
-  const orfs: { start: number; end: number; length: number }[] = [];
-  
-  // Find all start codons
-  const startPositions = findAllOccurrences(cleanSeq, "ATG");
+  const { circular = false, minLength = 30, table = 1, startCodons = "ATG", includeNested = false } = options;
+  const code = getGeneticCode(table);
+  const starts = new Set(
+    startCodons === "table" ? code.starts : startCodons === "alternative" ? ["ATG", "GTG", "TTG"] : ["ATG"]
+  );
+  const stops = new Set(code.stops);
+  const cleanSeq = sequence.toUpperCase().replace(/U/g, "T");
+  const length = cleanSeq.length;
+  const orfs: ORF[] = [];
   
-  // For each start position, find the next in-frame stop codon
-  for (const start of startPositions) {
-    // Check if we can have at least one codon
-    if (start + 3 > cleanSeq.length) continue;
+  for (const strand of [1, -1] as const) {
+    const strandSeq = strand === 1 ? cleanSeq : reverseComplement(cleanSeq);
+    // Reading past the end carries on from the origin, for at most one full turn
+    const readable = circular ? strandSeq + strandSeq : strandSeq;
     
-    // Look for stop codons in the correct reading frame
-    for (let i = start + 3; i <= cleanSeq.length - 3; i += 3) {
-      const codon = cleanSeq.slice(i, i + 3);
-      if (codon === "TAA" || codon === "TAG" || codon === "TGA") {
-        // Found a stop codon - this is an ORF
-        const end = i + 3;
-        const length = end - start;
+    for (let offset = 0; offset < 3; offset++) {
+      // Start codons seen since the last stop in this frame
+      let open: number[] = [];
+      
+      for (let i = offset; i + 3 <= readable.length; i += 3) {
+        const codon = readable.slice(i, i + 3);
         
-        // Only include ORFs of at least 30 bp (10 amino acids)
-        if (length >= 30) {
-          orfs.push({ start, end, length });
+        if (stops.has(codon)) {
+          const end = i + 3;
+          const found = open.filter(start => end - start <= length && end - start >= minLength);
+          // The first start gives the longest ORF; later ones are nested inside it
+          for (const start of includeNested ? found : found.slice(0, 1)) {
+            orfs.push(toTopStrand(start, end, strand, length));
+          }
+          open = [];
+          // Past the first turn no new starts are collected
+          if (i >= length) break;
+        } else if (starts.has(codon) && i < length) {
+          open.push(i);
         }
-        break;
       }
     }
   }
   
   // Sort by length, longest first
-  return orfs.sort((a, b) => b.length - a.length);
+  orfs.sort((a, b) => b.length - a.length);
+  if (includeNested || !circular) return orfs;
+
+  // Each frame starts reading at the origin, so a start just after it that belongs to an
+  // ORF through the origin is also found on its own; keep only the longest ORF per stop
+  const stopsSeen = new Set<string>();
+  return orfs.filter(orf => {
+    const stop = `${orf.strand}:${orf.strand === 1 ? orf.end : orf.start}`;
+    if (stopsSeen.has(stop)) return false;
+    stopsSeen.add(stop);
+    return true;
+  });
+}
+
+// Convert an ORF found on one strand (possibly past the end of a doubled
+// circular sequence) to top-strand coordinates
+function toTopStrand(start: number, end: number, strand: 1 | -1, sequenceLength: number): ORF {
+  const length = end - start;
+  const frame = ((start % 3) + 1) as 1 | 2 | 3;
+  const proteinLength = length / 3 - 1;
+  
+  if (strand === 1) {
+    return { start, end: end > sequenceLength ? end - sequenceLength : end, length, strand, frame, proteinLength };
+  }
+  
+  return {
+    start: (sequenceLength - end + sequenceLength) % sequenceLength,
+    end: sequenceLength - start,
+    length,
+    strand,
+    frame,
+    proteinLength
+  };
 }
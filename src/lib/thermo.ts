@@ -0,0 +1,210 @@
+// Oligo thermodynamics: nearest-neighbor melting temperatures (SantaLucia 1998)
+// and rough free energies of hairpins and primer dimers.
+
+export interface ThermoOptions {
+  // Oligo concentration in nM
+  oligoConc?: number;
+  // Monovalent cations (Na+, K+) in mM
+  na?: number;
+  // Mg2+ in mM
+  mg?: number;
+  // dNTPs in mM, which bind Mg2+
+  dntp?: number;
+}
+
+// Primer3's defaults
+export const defaultThermoOptions: Required<ThermoOptions> = {
+  oligoConc: 50,
+  na: 50,
+  mg: 1.5,
+  dntp: 0.6
+};
+
+// Unified nearest-neighbor parameters (SantaLucia 1998): dH in kcal/mol, dS in cal/(K·mol).
+// Each stack is listed once; its reverse complement has the same values.
+const stacks: Record<string, [number, number]> = {
+  AA: [-7.9, -22.2],
+  AT: [-7.2, -20.4],
+  TA: [-7.2, -21.3],
+  CA: [-8.5, -22.7],
+  GT: [-8.4, -22.4],
+  CT: [-7.8, -21.0],
+  GA: [-8.2, -22.2],
+  CG: [-10.6, -27.2],
+  GC: [-9.8, -24.4],
+  GG: [-8.0, -19.9]
+};
+
+const complements: Record<string, string> = { A: "T", T: "A", G: "C", C: "G" };
+
+const R = 1.9872;
+const T37 = 310.15;
+
+// Initiation with a terminal G·C or A·T pair, and the symmetry penalty
+const initGC: [number, number] = [0.1, -2.8];
+const initAT: [number, number] = [2.3, 4.1];
+const symmetry = -1.4;
+// Free energy of bringing two strands together at 37 °C
+const duplexInitiation = 1.96;
+
+// Hairpin loop initiation at 37 °C by loop length (SantaLucia & Hicks 2004)
+const hairpinLoops: Record<number, number> = { 3: 3.5, 4: 3.5, 5: 3.3, 6: 4.0, 7: 4.2, 8: 4.3, 9: 4.5, 10: 4.6 };
+
+const clean = (sequence: string) => sequence.toUpperCase().replace(/U/g, "T").replace(/[^ACGT]/g, "");
+
+const reverseComplement = (sequence: string) =>
+  sequence.split("").reverse().map(base => complements[base]).join("");
+
+// Enthalpy and entropy of one stack, read 5'->3' on the top strand
+function stack(pair: string): [number, number] {
+  return stacks[pair] || stacks[reverseComplement(pair)];
+}
+
+// Free energy of a stack at 37 °C in kcal/mol
+function stackEnergy(pair: string): number {
+  const [dH, dS] = stack(pair);
+  return dH - (T37 * dS) / 1000;
+}
+
+export const isSelfComplementary = (sequence: string) => {
+  const dna = clean(sequence);
+  return dna.length > 0 && reverseComplement(dna) === dna;
+};
+
+// Mg2+ as the equivalent monovalent concentration (von Ahsen et al. 2001), in mM
+function monovalentEquivalent({ na, mg, dntp }: Required<ThermoOptions>): number {
+  return na + 120 * Math.sqrt(Math.max(0, mg - dntp));
+}
+
+// Enthalpy (kcal/mol) and salt-corrected entropy (cal/(K·mol)) of an oligo pairing
+// with its perfect complement
+export function duplexThermo(sequence: string, options: ThermoOptions = {}): { dH: number; dS: number } {
+  const settings = { ...defaultThermoOptions, ...options };
+  const dna = clean(sequence);
+  if (dna.length < 2) return { dH: 0, dS: 0 };
+
+  let dH = 0;
+  let dS = 0;
+  for (let i = 0; i < dna.length - 1; i++) {
+    const [h, s] = stack(dna.slice(i, i + 2));
+    dH += h;
+    dS += s;
+  }
+  for (const end of [dna[0], dna[dna.length - 1]]) {
+    const [h, s] = end === "G" || end === "C" ? initGC : initAT;
+    dH += h;
+    dS += s;
+  }
+  if (isSelfComplementary(dna)) dS += symmetry;
+
+  // Salt correction of the entropy, one term per phosphate
+  dS += 0.368 * (dna.length - 1) * Math.log(monovalentEquivalent(settings) / 1000);
+
+  return { dH, dS };
+}
+
+// Melting temperature in °C, where half the oligo is bound to its complement
+export function meltingTemperature(sequence: string, options: ThermoOptions = {}): number {
+  const settings = { ...defaultThermoOptions, ...options };
+  const dna = clean(sequence);
+  if (dna.length < 2) return 0;
+
+  const { dH, dS } = duplexThermo(dna, settings);
+  const concentration = settings.oligoConc * 1e-9;
+  // Self-complementary oligos pair with themselves, others with an equal amount of target
+  const effective = isSelfComplementary(dna) ? concentration : concentration / 4;
+
+  return (1000 * dH) / (dS + R * Math.log(effective)) - 273.15;
+}
+
+export function gcContent(sequence: string): number {
+  const dna = clean(sequence);
+  if (!dna.length) return 0;
+  return (dna.replace(/[AT]/g, "").length / dna.length) * 100;
+}
+
+// The strongest secondary structure found: free energy at 37 °C and the paired bases
+export interface Structure {
+  dG: number;
+  // Base pairs in the stem or duplex
+  length: number;
+  // Positions (0-based) in the first oligo that pair
+  start: number;
+  end: number;
+  // The pairing includes a 3' end, so polymerase can extend it
+  threePrime: boolean;
+}
+
+// Best run of consecutive base pairs between two oligos, both given 5'->3'.
+// Only perfectly paired runs are scored, which misses structures with bulges
+// or internal mismatches but catches the ones that ruin a PCR.
+export function bestDuplex(first: string, second: string): Structure | null {
+  const a = clean(first);
+  const b = clean(second);
+  let best: Structure | null = null;
+
+  // a[i] pairs with b[j]; walk along diagonals where i + j is constant
+  for (let sum = 1; sum < a.length + b.length - 2; sum++) {
+    let run = 0;
+    for (let i = Math.max(0, sum - b.length + 1); i <= Math.min(a.length - 1, sum); i++) {
+      const j = sum - i;
+      run = complements[a[i]] === b[j] ? run + 1 : 0;
+      const next = i + 1 <= Math.min(a.length - 1, sum) && complements[a[i + 1]] === b[j - 1];
+
+      // Score a run once it can't be extended any further
+      if (run >= 2 && !next) {
+        const start = i - run + 1;
+        let dG = duplexInitiation;
+        for (let k = start; k < i; k++) dG += stackEnergy(a.slice(k, k + 2));
+        if (!best || dG < best.dG) {
+          best = {
+            dG,
+            length: run,
+            start,
+            end: i + 1,
+            threePrime: i === a.length - 1 || sum - start === b.length - 1
+          };
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+// Two copies of the same oligo pairing with each other
+export function selfDimer(sequence: string): Structure | null {
+  return bestDuplex(sequence, sequence);
+}
+
+// Strongest hairpin with a stem of at least three pairs and a loop of at least three bases
+export function hairpin(sequence: string): Structure | null {
+  const dna = clean(sequence);
+  let best: Structure | null = null;
+
+  for (let i = 0; i < dna.length; i++) {
+    for (let j = dna.length - 1; j > i + 3; j--) {
+      // Stem pairs i..i+stem with j..j-stem, extended for as long as bases pair
+      let stem = 0;
+      while (
+        j - stem - (i + stem) - 1 >= 3 &&
+        complements[dna[i + stem]] === dna[j - stem]
+      ) {
+        stem++;
+      }
+      if (stem < 3) continue;
+      // Only score stems that can't be extended outwards
+      if (i > 0 && j < dna.length - 1 && complements[dna[i - 1]] === dna[j + 1]) continue;
+
+      const loop = j - stem - (i + stem) + 1;
+      let dG = hairpinLoops[loop] ?? 4.6 + 2.44 * R * T37 / 1000 * Math.log(loop / 10);
+      for (let k = i; k < i + stem - 1; k++) dG += stackEnergy(dna.slice(k, k + 2));
+
+      if (!best || dG < best.dG) {
+        best = { dG, length: stem, start: i, end: j + 1, threePrime: j === dna.length - 1 };
+      }
+    }
+  }
+
+  return best;
+}
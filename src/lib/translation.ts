@@ -0,0 +1,75 @@
+import { Annotation } from "@/lib/features";
+import { getGeneticCode } from "@/lib/geneticCode";
+import { getRangeSequence, reverseComplement } from "@/lib/sequenceUtils";
+
+export interface TranslationOptions {
+  // NCBI translation table number
+  table?: number;
+  // Read the first codon as Met when it is one of the table's start codons
+  initiator?: boolean;
+}
+
+// One reading frame of a translated region
+export interface FrameTranslation {
+  strand: 1 | -1;
+  frame: 1 | 2 | 3;
+  protein: string;
+}
+
+// Translate a coding sequence from its first base. Codons with ambiguous or
+// unknown bases become X, and a trailing partial codon is ignored.
+export function translate(sequence: string, { table = 1, initiator = false }: TranslationOptions = {}): string {
+  const code = getGeneticCode(table);
+  const dna = sequence.toUpperCase().replace(/U/g, "T").replace(/\s+/g, "");
+  let protein = "";
+
+  for (let i = 0; i + 3 <= dna.length; i += 3) {
+    const codon = dna.slice(i, i + 3);
+    protein += i === 0 && initiator && code.starts.includes(codon) ? "M" : code.codons[codon] || "X";
+  }
+
+  return protein;
+}
+
+// Translate a region in three forward frames, or six with the reverse complement
+export function translateFrames(
+  sequence: string,
+  frames: 1 | 3 | 6 = 3,
+  options: TranslationOptions = {}
+): FrameTranslation[] {
+  const forward = sequence.toUpperCase().replace(/U/g, "T");
+  const reverse = reverseComplement(forward);
+  const result: FrameTranslation[] = [];
+
+  for (let offset = 0; offset < Math.min(frames, 3); offset++) {
+    result.push({ strand: 1, frame: (offset + 1) as 1 | 2 | 3, protein: translate(forward.slice(offset), options) });
+  }
+  if (frames === 6) {
+    for (let offset = 0; offset < 3; offset++) {
+      result.push({ strand: -1, frame: (offset + 1) as 1 | 2 | 3, protein: translate(reverse.slice(offset), options) });
+    }
+  }
+
+  return result;
+}
+
+// Coding sequence of an annotation: joined segments in order, reverse complemented on the bottom strand
+export function annotationSequence(sequence: string, annotation: Annotation): string {
+  const parts = annotation.locations?.length ? annotation.locations : [annotation];
+  const joined = parts.map(part => getRangeSequence(sequence, part)).join("");
+  return annotation.direction === -1 ? reverseComplement(joined) : joined;
+}
+
+// Lay a frame's amino acids out under the middle base of each codon of the
+// top strand, as a string as long as the translated region
+export function alignTranslation(translation: FrameTranslation, length: number): string {
+  const track = Array<string>(length).fill(" ");
+
+  for (let index = 0; index < translation.protein.length; index++) {
+    const offset = translation.frame - 1 + index * 3 + 1;
+    const position = translation.strand === 1 ? offset : length - 1 - offset;
+    if (position >= 0 && position < length) track[position] = translation.protein[index];
+  }
+
+  return track.join("");
+}